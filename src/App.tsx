@@ -4,29 +4,155 @@ import { List, type RowComponentProps } from "react-window";
 import {
   loadState,
   saveState,
+  storageBackend,
   newId,
   defaultState,
   type AppState,
   type Group,
+  type GroupEvent,
+  type GenerationMode,
+  type LoadReport,
+  type Settings,
+  type StorageBackend,
 } from "./lib/storage";
+import { describeMigration } from "./lib/migrations";
+import { describeValidation } from "./lib/validateState";
+import {
+  SESTINE_FILE_EXTENSION,
+  SESTINE_FILE_MIME,
+  encodeStateFile,
+} from "./lib/binaryCodec";
 import { toCSV, downloadTextFile, toTXT } from "./lib/exporters";
-import { frequencyMap, topNumbers, missingNumbers } from "./lib/stats";
-import { rngFromSeed, mulberry32 } from "./lib/rng";
-import { generateUniqueSestine, type Constraints } from "./lib/sestine";
+import {
+  frequencyMap,
+  topNumbers,
+  missingNumbers,
+  uniformFrequency,
+  frequencySpread,
+  type FrequencySpread,
+} from "./lib/stats";
+import {
+  MAX_NUM,
+  describeStructure,
+  isValidSestina,
+  isSestinaNums,
+  sestinaKey,
+  sestinaRank,
+  type Constraints,
+  type NumRange,
+  type Sestina,
+  type SestinaNums,
+  type StructuralConstraints,
+} from "./lib/sestine";
+import {
+  RNG_ALGORITHMS,
+  hashSeed,
+  rngRef,
+  type RngAlgorithmId,
+} from "./lib/rng";
+import {
+  analyzeConstraints,
+  constraintSignature,
+  TOTAL_SESTINE,
+  type ConstraintAnalysis,
+  type UniformityReport,
+} from "./lib/constraintSpace";
+import {
+  countMatchingInWorker,
+  uniformitySelfCheckInWorker,
+} from "./lib/constraintSpaceClient";
+import {
+  createGeneratorClient,
+  type GeneratorClient,
+} from "./lib/generatorClient";
+import {
+  expandFullSystem,
+  findSystemCollisions,
+  normalizePool,
+} from "./lib/systems";
+import {
+  guaranteeStatement,
+  verifyCovering,
+  type Guarantee,
+} from "./lib/covering";
+import type { ReducedResult } from "./lib/systemsClient";
+import { appendEvent, verifyChain, type ChainStatus } from "./lib/eventChain";
+import {
+  COMMIT_VERSION,
+  computeCommitment,
+  matchesCode,
+  shortCode,
+  verifyGroupCommitment,
+  type CommitCheck,
+} from "./lib/commitment";
+import {
+  RECIPE_VERSION,
+  compareReplay,
+  createRecipe,
+  isReplayable,
+  type GenerationRecipe,
+  type RecipeStream,
+  type ReplayReport,
+} from "./lib/recipe";
+import { BALANCED_CANDIDATES, balancePool } from "./lib/balanced";
+import { buildBasesSystem } from "./lib/bases";
+import { partitionPlan } from "./lib/partition";
+import { MAX_SHARED_OPTIONS, type DistanceRule } from "./lib/distance";
+import {
+  POPULARITY_THRESHOLDS,
+  averagePopularity,
+  describePopularity,
+  popularity,
+  type Popularity,
+} from "./lib/popularity";
+import {
+  createHistoryIndex,
+  loadHistory,
+  loadLatestDraw,
+  matchHistory,
+  type HistoricalDraw,
+  type HistoryIndex,
+  type HistoryLevel,
+  type HistoryMatch,
+} from "./lib/history";
+import {
+  SUPERSTAR_CATEGORIES,
+  assignSuperstar,
+  superstarCategory,
+  superstarQuota,
+  type SuperstarCategory,
+  type SuperstarRule,
+} from "./lib/superstar";
 import ImportPanel from "./components/ImportPanel";
 import PlayAssistPanel from "./components/PlayAssistantPanel";
+import SystemsPanel from "./components/SystemsPanel";
+import AuditPanel from "./components/AuditPanel";
+import OverlapPanel from "./components/OverlapPanel";
 import Onboarding, { shouldShowOnboarding } from "./components/Onboarding";
 
-type Tab = "generate" | "stats" | "validate" | "prizes" | "play" | "settings";
+type Tab =
+  | "generate"
+  | "stats"
+  | "validate"
+  | "prizes"
+  | "play"
+  | "systems"
+  | "settings";
 
 type ValidationRow = {
   key: string;
+  rank: number | null;
   nums: number[];
   hits: number;
   hitNums: number[];
   frozen: boolean;
   jollyHit: boolean;
+  // SuperStar giocato sulla schedina e uguale a quello estratto
+  superstar?: number;
   superstarHit: boolean;
+  starCategory: SuperstarCategory | null;
+  // già uscita (o con 5 numeri di un'estrazione passata), se l'archivio c'è
+  history: HistoryMatch | null;
 };
 
 type PrizeCounts = Record<
@@ -39,12 +165,17 @@ type ValidationResult = {
   groupId: string;
   groupName: string;
   draw: number[];
+  drawRank: number;
+  drawHistory: HistoryMatch | null;
   jolly?: number;
   superstar?: number;
   counts: Record<number, number>;
   rows: ValidationRow[];
 
   prizeCounts: PrizeCounts;
+  // schedine con il SuperStar indovinato: contano qui e non nelle categorie base
+  starCounts: Record<SuperstarCategory, number>;
+  starred: number; // sestine con un SuperStar giocato
   estimatedTotalEuro: number;
 };
 
@@ -68,6 +199,9 @@ type PrizeRow = {
   isJackpot?: boolean;
 };
 
+// pausa nelle modifiche dei vincoli prima del conteggio esatto (DP nel worker)
+const COUNT_DEBOUNCE_MS = 400;
+
 const PRIZE_TABLE: PrizeRow[] = [
   {
     label: "6",
@@ -194,8 +328,100 @@ function atLeastDistribution(kTickets: number): { m: number; p: number }[] {
   return out.sort((a, b) => b.m - a.m);
 }
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
+// riprende la permutazione dall'ultimo evento dello stesso gruppo con lo
+// stesso seed e gli stessi vincoli (il dominio è lo spazio che ammettono)
+function permutationStart(
+  g: Group,
+  seed: string | undefined,
+  constraints: Constraints,
+): { key: number; start: number } {
+  const sig = constraintSignature(constraints);
+  for (const ev of g.events) {
+    if (ev.type !== "generate" || !ev.permutation) continue;
+    if (ev.seed !== seed) continue;
+    const r = ev.recipe;
+    if (r?.mode !== "permutation" || r.version !== RECIPE_VERSION) continue;
+    if (constraintSignature(r.constraints) !== sig) continue;
+    return { key: ev.permutation.key, start: ev.permutation.end };
+  }
+  const key =
+    seed !== undefined
+      ? hashSeed(`${seed}::${g.id}::perm`)
+      : crypto.getRandomValues(new Uint32Array(1))[0] >>> 0;
+  return { key, start: 0 };
+}
+
+function ranksOf(list: Sestina[]): number[] {
+  return list
+    .filter((x) => isSestinaNums(x.nums))
+    .map((x) => sestinaRank(x.nums));
+}
+
+// limite di sovrapposizione del prossimo run, contro le sestine che restano
+function distanceRule(s: Settings, base: Sestina[]): DistanceRule | undefined {
+  if (s.maxShared === undefined) return undefined;
+  return { maxShared: s.maxShared, baseRanks: ranksOf(base) };
+}
+
+// SuperStar delle sestine appena generate: il seed del flusso rende
+// ripetibile anche quello casuale
+function withSuperstar(
+  sestine: Sestina[],
+  rule: SuperstarRule | undefined,
+  stream: RecipeStream,
+): Sestina[] {
+  if (!rule) return sestine;
+  const seed =
+    stream.mode === "permutation" ? `perm:${stream.key}` : stream.seed;
+  return assignSuperstar(sestine, rule, seed);
+}
+
+// flusso della prossima generazione: con seed riprende da dove si è fermata
+// l'ultima generazione del gruppo con lo stesso seed, senza dipendere dagli
+// altri gruppi; senza seed ne estrae uno a caso (salvato nella ricetta).
+// `base` = sestine che restano nel gruppo (punto di partenza del bilanciamento)
+function nextStream(
+  g: Group,
+  s: Settings,
+  constraints: Constraints,
+  base: Sestina[] = g.sestine,
+): { stream: RecipeStream; start: number } {
+  const seed = s.seedEnabled ? s.seedValue.trim() : undefined;
+
+  if (s.generationMode === "permutation") {
+    const { key, start } = permutationStart(g, seed, constraints);
+    return { stream: { mode: "permutation", key }, start };
+  }
+
+  const rng = rngRef(s.rngAlgorithm);
+  const random = crypto.getRandomValues(new Uint32Array(2));
+  const source = {
+    seed: seed ?? `${random[0].toString(16)}${random[1].toString(16)}`,
+    salt: g.id,
+    rng,
+  };
+  const stream: RecipeStream =
+    s.generationMode === "balanced"
+      ? {
+          mode: "balanced",
+          ...source,
+          candidates: BALANCED_CANDIDATES,
+          baseRanks: ranksOf(base),
+        }
+      : s.generationMode === "partition"
+        ? { mode: "partition", ...source }
+        : { mode: "random", ...source };
+  if (seed === undefined) return { stream, start: 0 };
+
+  for (const ev of g.events) {
+    if (ev.type !== "generate" || !ev.recipe) continue;
+    const r = ev.recipe;
+    if (r.mode === "permutation" || r.mode !== stream.mode) continue;
+    if (r.seed !== seed || r.salt !== g.id) continue;
+    if (r.rng.id !== rng.id || r.rng.version !== rng.version) continue;
+    return { stream, start: r.next };
+  }
+  return { stream, start: 0 };
 }
 
 function birthDateToLucky(date?: string): number[] {
@@ -459,6 +685,294 @@ function Toggle({
   return <div>{control}</div>;
 }
 
+function parseOptionalInt(raw: string): number | undefined {
+  if (raw.trim() === "") return undefined;
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function RangeField({
+  label,
+  value,
+  lo,
+  hi,
+  onChange,
+}: {
+  label: string;
+  value?: NumRange;
+  lo: number;
+  hi: number;
+  onChange: (r: NumRange | undefined) => void;
+}) {
+  // un estremo vuoto = limite naturale (lo/hi); entrambi vuoti = regola spenta
+  function update(which: "min" | "max", raw: string) {
+    const v = parseOptionalInt(raw);
+    const next = {
+      min: value?.min,
+      max: value?.max,
+      [which]: v === undefined ? undefined : Math.min(hi, Math.max(lo, v)),
+    };
+    if (next.min === undefined && next.max === undefined) onChange(undefined);
+    else onChange({ min: next.min ?? lo, max: next.max ?? hi });
+  }
+
+  return (
+    <div className="grid grid-cols-[1fr_90px_90px] gap-2 items-center">
+      <span className="text-sm font-bold text-black/80">{label}</span>
+      <Input
+        type="number"
+        value={value?.min ?? ""}
+        onChange={(e) => update("min", e.target.value)}
+        placeholder={`min ${lo}`}
+      />
+      <Input
+        type="number"
+        value={value?.max ?? ""}
+        onChange={(e) => update("max", e.target.value)}
+        placeholder={`max ${hi}`}
+      />
+    </div>
+  );
+}
+
+function ConstraintAnalysisBox({ analysis }: { analysis: ConstraintAnalysis }) {
+  const pct =
+    analysis.total === null ? null : (analysis.total / TOTAL_SESTINE) * 100;
+  return (
+    <div className="rounded-3xl border border-black/10 bg-neutral-50 p-3 text-sm">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-black/70">
+        <span>
+          Ammesse:{" "}
+          <b className="text-black">
+            {analysis.total === null
+              ? "calcolo…"
+              : analysis.total.toLocaleString("it-IT")}
+          </b>
+          {pct !== null && (
+            <span className="text-black/50">
+              {" "}
+              ({pct.toFixed(pct < 0.01 ? 5 : 2)}%)
+            </span>
+          )}
+        </span>
+        <span>
+          Già usate: <b className="text-black">{analysis.used}</b>
+        </span>
+        <span>
+          Disponibili:{" "}
+          <b className="text-black">
+            {analysis.remaining === null
+              ? "—"
+              : analysis.remaining.toLocaleString("it-IT")}
+          </b>
+        </span>
+      </div>
+
+      {analysis.issues.length > 0 && (
+        <div className="mt-2 flex flex-col gap-1">
+          {analysis.issues.map((i) => (
+            <div
+              key={i.message}
+              className={cn(
+                "rounded-2xl border px-3 py-2 text-xs font-bold",
+                i.level === "error"
+                  ? "border-red-200 bg-red-50 text-red-800"
+                  : "border-yellow-200 bg-yellow-50 text-black/80",
+              )}
+            >
+              {i.level === "error" ? "⛔ " : "⚠️ "}
+              {i.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeHistoryMatch(m: HistoryMatch): string {
+  const date = new Date(m.draw.date).toLocaleDateString("it-IT");
+  return m.shared === 6
+    ? `Già uscita il ${date}`
+    : `5 numeri dell'estrazione del ${date}`;
+}
+
+function describeSpread(sp: FrequencySpread): string {
+  return `frequenze ${sp.min}–${sp.max} su ${sp.numbers} numeri (media ${sp.mean.toFixed(1)}, dev. std ${sp.stdev.toFixed(2)}) · coppie coperte ${sp.pairsCovered.toLocaleString("it-IT")}/${sp.pairsTotal.toLocaleString("it-IT")}, max ${sp.pairMax} volte`;
+}
+
+function replayKey(groupId: string, r: GenerationRecipe) {
+  return `${groupId}::${r.nonceBase}::${r.outputDigest}`;
+}
+
+function RecipeBox({
+  recipe,
+  replay,
+  disabled,
+  onReplay,
+}: {
+  recipe: GenerationRecipe;
+  replay?: "running" | ReplayReport | { error: string };
+  disabled: boolean;
+  onReplay: () => void;
+}) {
+  const replayable = isReplayable(recipe);
+  return (
+    <div className="mt-2 rounded-2xl border border-black/10 bg-neutral-50 p-2 text-xs text-black/60">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          Ricetta v{recipe.version} ·{" "}
+          {recipe.mode === "permutation"
+            ? `chiave ${recipe.key} · indici`
+            : `seed="${recipe.seed}" · ${recipe.rng.id} v${recipe.rng.version} · ${recipe.mode === "balanced" ? `bilanciata (${recipe.candidates} candidati, base ${recipe.baseRanks.length}) · ` : ""}${recipe.mode === "partition" ? "partizione · blocchi" : "tentativi"}`}{" "}
+          {recipe.nonceBase}→{recipe.next} · esclusione{" "}
+          {recipe.exclusion.size.toLocaleString("it-IT")} (
+          {recipe.exclusion.fingerprint}) · scarti {recipe.skipped.length} ·
+          digest {recipe.outputDigest}
+          {recipe.distance &&
+            ` · max ${recipe.distance.maxShared} in comune (base ${recipe.distance.baseRanks.length})`}
+        </span>
+        <button
+          onClick={onReplay}
+          disabled={disabled || !replayable || replay === "running"}
+          className={cn(
+            "px-2 py-1 rounded-xl border font-extrabold",
+            disabled || !replayable || replay === "running"
+              ? "border-black/10 bg-black/5 text-black/40 cursor-not-allowed"
+              : "border-black/10 bg-white text-black/80 hover:bg-black/[0.03]",
+          )}
+          title={
+            replayable
+              ? "Rigenera le sestine dalla ricetta e confronta il digest"
+              : "Algoritmo non riproducibile (senza seed)"
+          }
+        >
+          {replay === "running" ? "Replay…" : "Replay & verifica"}
+        </button>
+      </div>
+
+      {replay && replay !== "running" && (
+        <div
+          className={cn(
+            "mt-2 rounded-xl border px-2 py-1 font-bold",
+            "error" in replay || !replay.ok
+              ? "border-red-200 bg-red-50 text-red-800"
+              : "border-emerald-200 bg-emerald-50 text-emerald-900",
+          )}
+        >
+          {"error" in replay
+            ? `⛔ ${replay.error}`
+            : replay.ok
+              ? `✅ Replay identico: ${replay.count} sestine, digest ${replay.digest}.`
+              : `⛔ Divergenza: ${replay.count}/${recipe.count} sestine, digest ${replay.digest} invece di ${replay.expectedDigest}${replay.nextMatches ? "" : ", cursore finale diverso"}.`}
+          {"error" in replay || replay.missingInGroup === 0
+            ? ""
+            : ` ${replay.missingInGroup} non sono più nel gruppo (la prima è la n° ${(replay.firstMissing ?? 0) + 1} del run).`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChainBadge({ status }: { status: ChainStatus }) {
+  if (status.status === "empty") return null;
+  const broken = status.status === "broken";
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border px-3 py-2 text-xs font-bold",
+        broken
+          ? "border-red-200 bg-red-50 text-red-800"
+          : status.status === "intact"
+            ? "border-emerald-200 bg-emerald-50 text-emerald-900"
+            : "border-black/10 bg-neutral-50 text-black/60",
+      )}
+    >
+      {status.status === "broken"
+        ? `⛔ Storia manomessa: ${status.reason} (evento n° ${status.index + 1} dal più recente).`
+        : status.status === "intact"
+          ? `🔗 Storia integra: ${status.chained} eventi concatenati${status.legacy ? ` (+${status.legacy} precedenti, non verificabili)` : ""}.`
+          : `Eventi precedenti alla catena (${status.events}): non verificabili.`}
+    </div>
+  );
+}
+
+function CommitBox({
+  check,
+  disabled,
+  onCommit,
+}: {
+  check: CommitCheck;
+  disabled: boolean;
+  onCommit: () => void;
+}) {
+  const [code, setCode] = useState("");
+
+  if (check.status === "none") {
+    return (
+      <div className="rounded-3xl border border-black/10 bg-neutral-50 p-3 text-sm flex flex-wrap items-center justify-between gap-2">
+        <span className="text-black/70">
+          Pronto da giocare? Il commit SHA-256 delle sestine prova che non sono
+          state cambiate dopo l'estrazione: condividi il codice prima.
+        </span>
+        <Button onClick={onCommit} disabled={disabled}>
+          🔒 Pronto da giocare
+        </Button>
+      </div>
+    );
+  }
+
+  const { event } = check;
+  const ok = check.status === "ok";
+  const typed = code.trim();
+  return (
+    <div
+      className={cn(
+        "rounded-3xl border p-3 text-sm",
+        ok ? "border-emerald-200 bg-emerald-50" : "border-red-200 bg-red-50",
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className={ok ? "text-emerald-900" : "text-red-800"}>
+          <div className="font-extrabold">
+            {ok
+              ? "🔒 Pronto da giocare"
+              : "⛔ Sestine modificate dopo il commit"}{" "}
+            · codice <span className="font-mono">{shortCode(event.hash)}</span>
+          </div>
+          <div className="text-xs opacity-70">
+            {new Date(event.at).toLocaleString()} · {event.count} sestine ·
+            seed="{event.seed}"
+          </div>
+        </div>
+        {!ok && (
+          <Button onClick={onCommit} disabled={disabled}>
+            Nuovo commit
+          </Button>
+        )}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Codice condiviso prima dell'estrazione"
+          className="min-w-0 flex-1 px-3 py-2 rounded-2xl border border-black/10 bg-white font-mono outline-none"
+        />
+        {typed && (
+          <span className="font-bold">
+            {!ok
+              ? "⛔ le sestine attuali non corrispondono"
+              : matchesCode(event.hash, typed)
+                ? "✅ corrisponde alle sestine attuali"
+                : "⛔ codice diverso"}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function Bar({ value, max }: { value: number; max: number }) {
   const pct = max === 0 ? 0 : Math.round((value / max) * 100);
   return (
@@ -516,7 +1030,9 @@ function SestineVirtualList({
     nums: number[];
     frozen: boolean;
     createdAt: string;
+    superstar?: number;
     meta?: { seed?: string };
+    popularity?: Popularity;
   }>;
   evenOdd: boolean;
   lowHigh: boolean;
@@ -565,15 +1081,40 @@ function SestineVirtualList({
                   Sestina corrotta (nums non valido)
                 </span>
               )}
+              {s.superstar !== undefined && (
+                <span
+                  className="inline-flex items-center justify-center h-8 px-3 rounded-full border border-amber-300 bg-amber-50 text-sm font-black text-amber-900"
+                  title="SuperStar giocato"
+                >
+                  ★ {s.superstar}
+                </span>
+              )}
             </div>
 
             <div className="mt-2 text-xs text-black/55 font-mono break-all">
-              key: {s.key} · {new Date(s.createdAt).toLocaleString()}
+              key: {s.key}
+              {isSestinaNums(s.nums) ? ` · #${sestinaRank(s.nums)}` : ""} ·{" "}
+              {new Date(s.createdAt).toLocaleString()}
               {s.meta?.seed ? ` · seed:${s.meta.seed}` : ""}
             </div>
           </div>
 
-          <div className="flex gap-2 shrink-0">
+          <div className="flex gap-2 shrink-0 items-center">
+            {s.popularity && (
+              <span
+                className={cn(
+                  "w-12 text-center text-xs font-black px-2 py-1 rounded-full border tabular-nums",
+                  s.popularity.score >= 40
+                    ? "border-rose-200 bg-rose-50 text-rose-800"
+                    : s.popularity.score >= 15
+                      ? "border-amber-200 bg-amber-50 text-amber-800"
+                      : "border-black/10 bg-black/5 text-black/60",
+                )}
+                title={`Popolarità stimata: ${describePopularity(s.popularity)}`}
+              >
+                {s.popularity.score}
+              </span>
+            )}
             <Button
               onClick={() => rp.onToggleFreeze(s.key)}
               disabled={rp.isBusy}
@@ -611,7 +1152,19 @@ function SestineVirtualList({
 /* ---------------- App ---------------- */
 
 export default function App() {
-  const [state, setState] = useState<AppState>(() => loadState());
+  const [state, setState] = useState<AppState>(defaultState);
+  // finché lo stato salvato non è caricato non si salva nulla
+  const [storage, setStorage] = useState<
+    | { status: "loading" }
+    | {
+        status: "ready";
+        backend: StorageBackend;
+        error?: string;
+        // dati non caricati o di uno schema più recente: niente salvataggi
+        readOnly?: string;
+      }
+  >({ status: "loading" });
+  const [loadReport, setLoadReport] = useState<LoadReport | null>(null);
   const [tab, setTab] = useState<Tab>("generate");
   const [showImport, setShowImport] = useState(false);
 
@@ -638,6 +1191,33 @@ export default function App() {
     done: number;
   }>(null);
   const [wide, setWide] = useState(false);
+  // ordine della lista sestine: inserimento o popolarità stimata
+  const [listOrder, setListOrder] = useState<
+    "default" | "popularityDesc" | "popularityAsc"
+  >("default");
+  // ultima estrazione dell'archivio: serve al modello di popolarità
+  const [latestDraw, setLatestDraw] = useState<HistoricalDraw | null>(null);
+  const [uniformity, setUniformity] = useState<{
+    running: boolean;
+    report: UniformityReport | null;
+    error: string | null;
+  }>({ running: false, report: null, error: null });
+  // archivio storico: caricato alla prima necessità (esclusione, stats, validatore)
+  const [history, setHistory] = useState<
+    | { status: "idle" | "loading" }
+    | { status: "error"; message: string }
+    | {
+        status: "ready";
+        draws: HistoricalDraw[];
+        ranks: number[];
+        index: HistoryIndex;
+      }
+  >({ status: "idle" });
+  const historyIndex = history.status === "ready" ? history.index : null;
+  // replay delle ricette, per evento (gruppo + timestamp)
+  const [replays, setReplays] = useState<
+    Record<string, "running" | ReplayReport | { error: string }>
+  >({});
 
   // Pagination UI
   const [pageSize, setPageSize] = useState<number>(200);
@@ -663,17 +1243,105 @@ export default function App() {
     setShowOnboarding(true);
   }
 
+  useEffect(() => {
+    const ctrl = new AbortController();
+    loadLatestDraw(ctrl.signal)
+      .then(setLatestDraw)
+      .catch(() => {
+        // senza archivio la popolarità ignora l'ultima estrazione
+      });
+    return () => ctrl.abort();
+  }, []);
+
+  const needHistory =
+    !!state.settings.excludeHistory || tab === "stats" || tab === "validate";
+  useEffect(() => {
+    if (!needHistory || history.status !== "idle") return;
+    setHistory({ status: "loading" });
+    loadHistory()
+      .then((draws) => {
+        const index = createHistoryIndex(draws);
+        setHistory({
+          status: "ready",
+          draws,
+          ranks: [...index.byRank.keys()],
+          index,
+        });
+      })
+      .catch((e) =>
+        setHistory({
+          status: "error",
+          message:
+            e instanceof Error
+              ? e.message
+              : "Archivio storico non disponibile.",
+        }),
+      );
+  }, [needHistory, history.status]);
+
   useEffect(() => {
     localStorage.setItem("superenalotto_jackpot_eur", String(jackpotEuro));
   }, [jackpotEuro]);
 
-  const genAbortRef = React.useRef(false);
+  const generatorRef = React.useRef<GeneratorClient | null>(null);
 
   useEffect(() => {
-    if (isGenerating) return;
-    const t = setTimeout(() => saveState(state), 800);
+    return () => {
+      generatorRef.current?.dispose();
+      generatorRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    let stale = false;
+    loadState()
+      .then((loaded) => {
+        if (stale) return;
+        setState(loaded.state);
+        setLoadReport(loaded.report);
+        setStorage({
+          status: "ready",
+          backend: storageBackend(),
+          readOnly: loaded.error,
+        });
+      })
+      .catch((e) => {
+        // dati che la migrazione non sa trattare: come una lettura fallita,
+        // restano intatti e non si sovrascrivono
+        if (stale) return;
+        const why = e instanceof Error ? e.message : String(e);
+        setStorage({
+          status: "ready",
+          backend: storageBackend(),
+          readOnly: `Impossibile caricare i dati salvati (${why}): restano intatti e le modifiche di questa scheda non vengono salvate.`,
+        });
+      });
+    return () => {
+      stale = true;
+    };
+  }, []);
+
+  const readOnly = storage.status === "ready" && !!storage.readOnly;
+  useEffect(() => {
+    if (isGenerating || storage.status !== "ready" || readOnly) return;
+    const t = setTimeout(() => {
+      saveState(state).then(
+        () =>
+          setStorage((p) =>
+            p.status === "ready" && p.error
+              ? { status: "ready", backend: p.backend }
+              : p,
+          ),
+        (e) =>
+          setStorage({
+            status: "ready",
+            backend: storageBackend(),
+            error: e instanceof Error ? e.message : "Salvataggio non riuscito.",
+          }),
+      );
+    }, 800);
     return () => clearTimeout(t);
-  }, [state, isGenerating]);
+  }, [state, isGenerating, storage.status, readOnly]);
 
   useEffect(() => {
     if (selectedGroupId && state.groups.some((g) => g.id === selectedGroupId))
@@ -692,6 +1360,29 @@ export default function App() {
 
   const selectedCount = selectedGroup?.sestine.length ?? 0;
 
+  const popularityCtx = useMemo(
+    () => ({ lastDraw: latestDraw?.nums }),
+    [latestDraw],
+  );
+  // punteggi del gruppo selezionato, per ordinare e per la media
+  const avgPopularity = useMemo(
+    () => averagePopularity(selectedGroup?.sestine ?? [], popularityCtx),
+    [selectedGroup, popularityCtx],
+  );
+  const groupPopularity = useMemo(() => {
+    const m = new Map<string, Popularity>();
+    for (const s of selectedGroup?.sestine ?? [])
+      m.set(s.key, popularity(s.nums, popularityCtx));
+    return m;
+  }, [selectedGroup, popularityCtx]);
+  const orderedSestine = useMemo(() => {
+    const list = selectedGroup?.sestine ?? [];
+    if (listOrder === "default") return list;
+    const sign = listOrder === "popularityDesc" ? -1 : 1;
+    const score = (key: string) => groupPopularity.get(key)?.score ?? 0;
+    return [...list].sort((a, b) => sign * (score(a.key) - score(b.key)));
+  }, [selectedGroup, listOrder, groupPopularity]);
+
   const pageCount = useMemo(() => {
     if (selectedCount === 0) return 1;
     return Math.max(1, Math.ceil(selectedCount / pageSize));
@@ -704,23 +1395,29 @@ export default function App() {
   const pageStart = pageIndex * pageSize;
   const pageEnd = Math.min(pageStart + pageSize, selectedCount);
 
-  const pageSestine = useMemo(() => {
-    if (!selectedGroup) return [];
-    return selectedGroup.sestine.slice(pageStart, pageEnd);
-  }, [selectedGroup, pageStart, pageEnd]);
+  const pageSestine = useMemo(
+    () =>
+      orderedSestine
+        .slice(pageStart, pageEnd)
+        .map((s) => ({ ...s, popularity: groupPopularity.get(s.key) })),
+    [orderedSestine, groupPopularity, pageStart, pageEnd],
+  );
 
   const totalSestine = useMemo(
     () => state.groups.reduce((acc, g) => acc + g.sestine.length, 0),
     [state.groups],
   );
 
-  const globalKeys = useMemo(() => {
-    const keys = new Set<string>();
-    for (const g of state.groups) for (const s of g.sestine) keys.add(s.key);
-    return keys;
+  // indice globale per unicità: rank intero calcolato dai numeri (non dalla key)
+  const globalRanks = useMemo(() => {
+    const ranks = new Set<number>();
+    for (const g of state.groups)
+      for (const s of g.sestine)
+        if (isSestinaNums(s.nums)) ranks.add(sestinaRank(s.nums));
+    return ranks;
   }, [state.groups]);
 
-  const constraints = useMemo<Constraints>(() => {
+  const superstition = useMemo(() => {
     const s = state.settings;
 
     const birthLucky = s.superstitionEnabled
@@ -730,6 +1427,12 @@ export default function App() {
       ? Array.from(new Set([...s.luckyNumbers, ...birthLucky]))
       : [];
     const unlucky = s.superstitionEnabled ? s.unluckyNumbers : [];
+    return { lucky, unlucky };
+  }, [state.settings]);
+
+  const constraints = useMemo<Constraints>(() => {
+    const s = state.settings;
+    const { lucky, unlucky } = superstition;
 
     const exclude = Array.from(new Set([...s.exclude, ...unlucky])).sort(
       (a, b) => a - b,
@@ -739,8 +1442,81 @@ export default function App() {
       new Set([...s.mustIncludeAnyOf, ...(lucky.length ? lucky : [])]),
     ).sort((a, b) => a - b);
 
-    return { exclude, mustInclude, mustIncludeAnyOf };
-  }, [state.settings]);
+    return { ...s.structural, exclude, mustInclude, mustIncludeAnyOf };
+  }, [state.settings, superstition]);
+
+  // conteggio esatto dello spazio ammesso (worker, può richiedere qualche secondo)
+  const [spaceCount, setSpaceCount] = useState<{
+    constraints: Constraints;
+    total: number;
+  } | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    // si conta solo quando i vincoli smettono di cambiare per un attimo
+    const t = setTimeout(() => {
+      countMatchingInWorker(constraints)
+        .then((total) => {
+          if (!stale) setSpaceCount({ constraints, total });
+        })
+        .catch(() => {
+          if (!stale) setSpaceCount(null);
+        });
+    }, COUNT_DEBOUNCE_MS);
+    return () => {
+      stale = true;
+      clearTimeout(t);
+    };
+  }, [constraints]);
+
+  const usedMatching = useMemo(() => {
+    let used = 0;
+    for (const g of state.groups)
+      for (const s of g.sestine)
+        if (isSestinaNums(s.nums) && isValidSestina(s.nums, constraints))
+          used++;
+    return used;
+  }, [state.groups, constraints]);
+
+  const constraintAnalysis = useMemo(
+    () =>
+      analyzeConstraints(constraints, {
+        total:
+          spaceCount?.constraints === constraints ? spaceCount.total : null,
+        used: usedMatching,
+        requested: Math.max(1, Math.floor(countToGenerate || 1)),
+        lucky: superstition.lucky,
+        unlucky: superstition.unlucky,
+      }),
+    [constraints, spaceCount, usedMatching, countToGenerate, superstition],
+  );
+
+  const constraintError =
+    constraintAnalysis.issues.find((i) => i.level === "error") ?? null;
+
+  async function runUniformityCheck() {
+    setUniformity({ running: true, report: null, error: null });
+    try {
+      const report = await uniformitySelfCheckInWorker();
+      setUniformity({ running: false, report, error: null });
+    } catch (e) {
+      setUniformity({
+        running: false,
+        report: null,
+        error: e instanceof Error ? e.message : "Verifica non riuscita.",
+      });
+    }
+  }
+
+  function setStructural(patch: Partial<StructuralConstraints>) {
+    setState((p) => ({
+      ...p,
+      settings: {
+        ...p.settings,
+        structural: { ...p.settings.structural, ...patch },
+      },
+    }));
+  }
 
   function addGroup() {
     const name = newGroupName.trim() || `Gruppo ${state.groups.length + 1}`;
@@ -777,7 +1553,44 @@ export default function App() {
     setState((prev) => ({
       ...prev,
       groups: prev.groups.map((g) =>
-        g.id === groupId ? { ...g, sestine: [], events: g.events } : g,
+        g.id === groupId && g.sestine.length > 0
+          ? appendEvent(
+              { ...g, sestine: [] },
+              {
+                type: "edit",
+                at: new Date().toISOString(),
+                action: "clear",
+                count: g.sestine.length,
+              },
+            )
+          : g,
+      ),
+    }));
+  }
+
+  function commitSelectedGroup() {
+    if (!selectedGroup || selectedGroup.sestine.length === 0) return;
+    // il seed fa da sale: senza seed impostato se ne estrae uno a caso
+    const configured = state.settings.seedEnabled
+      ? state.settings.seedValue.trim()
+      : "";
+    const random = crypto.getRandomValues(new Uint32Array(2));
+    const seed =
+      configured ||
+      `${random[0].toString(16).padStart(8, "0")}${random[1].toString(16).padStart(8, "0")}`;
+
+    const event = {
+      type: "commit" as const,
+      at: new Date().toISOString(),
+      version: COMMIT_VERSION,
+      seed,
+      count: selectedGroup.sestine.length,
+      hash: computeCommitment(selectedGroup.sestine, seed),
+    };
+    setState((prev) => ({
+      ...prev,
+      groups: prev.groups.map((g) =>
+        g.id === selectedGroup.id ? appendEvent(g, event) : g,
       ),
     }));
   }
@@ -801,77 +1614,103 @@ export default function App() {
     setState((prev) => ({
       ...prev,
       groups: prev.groups.map((g) =>
-        g.id === groupId
-          ? { ...g, sestine: g.sestine.filter((s) => s.key !== key) }
+        g.id === groupId && g.sestine.some((s) => s.key === key)
+          ? appendEvent(
+              { ...g, sestine: g.sestine.filter((s) => s.key !== key) },
+              {
+                type: "edit",
+                at: new Date().toISOString(),
+                action: "remove",
+                count: 1,
+              },
+            )
           : g,
       ),
     }));
   }
 
+  function getGenerator() {
+    if (!generatorRef.current) generatorRef.current = createGeneratorClient();
+    return generatorRef.current;
+  }
+
+  // esclusione storica del prossimo run: null se serve ma non è ancora pronta
+  function historyRule():
+    { level: HistoryLevel; draws: number } | undefined | null {
+    const level = state.settings.excludeHistory;
+    if (!level) return undefined;
+    if (history.status !== "ready") return null;
+    getGenerator().syncHistory(history.ranks);
+    return { level, draws: history.draws.length };
+  }
+
   async function generateForSelectedGroup() {
-    if (!selectedGroup) return;
+    if (!selectedGroup || isGenerating) return;
+    if (constraintError) {
+      alert(constraintError.message);
+      return;
+    }
 
-    const n = Math.max(1, Math.floor(countToGenerate || 1));
-    const keys = new Set(globalKeys);
+    let n = Math.max(1, Math.floor(countToGenerate || 1));
+    // in partizione il numero indica i blocchi
+    if (state.settings.generationMode === "partition") {
+      try {
+        n *= partitionPlan(constraints).tickets;
+      } catch (e) {
+        alert(e instanceof Error ? e.message : "Partizione non valida.");
+        return;
+      }
+    }
 
     const seedEnabled = state.settings.seedEnabled;
     const seed = seedEnabled ? state.settings.seedValue.trim() : "";
+    const { stream, start } = nextStream(
+      selectedGroup,
+      state.settings,
+      constraints,
+    );
+    const distance = distanceRule(state.settings, selectedGroup.sestine);
+    const historyUse = historyRule();
+    const popularityRule =
+      state.settings.maxPopularity !== undefined
+        ? { max: state.settings.maxPopularity, lastDraw: latestDraw?.nums }
+        : undefined;
+    if (historyUse === null) {
+      alert(
+        "Archivio storico non ancora caricato: riprova tra qualche secondo.",
+      );
+      return;
+    }
 
-    const baseRng = seedEnabled
-      ? rngFromSeed(`${seed}::${selectedGroup.id}::base`)
-      : mulberry32(crypto.getRandomValues(new Uint32Array(1))[0] >>> 0);
-
-    const baseSeedNum = Math.floor(baseRng() * 2 ** 32) >>> 0;
-
-    const CHUNK = n >= 5000 ? 250 : n >= 1000 ? 200 : n >= 200 ? 100 : 50;
+    const generator = getGenerator();
+    generator.syncRanks(globalRanks);
 
     setIsGenerating(true);
     setGenModal({ groupName: selectedGroup.name, total: n, done: 0 });
-    genAbortRef.current = false;
 
     try {
-      let produced = 0;
-      let nonceBase = 0;
-      const allGenerated: any[] = [];
-
-      while (produced < n) {
-        if (genAbortRef.current) break;
-
-        const take = Math.min(CHUNK, n - produced);
-
-        const rngFactory = (nonce: number) => {
-          const nn = nonceBase + nonce;
-          if (seedEnabled)
-            return rngFromSeed(
-              `${seed}::${selectedGroup.id}::${totalSestine}::${nn}`,
-            );
-          return mulberry32((baseSeedNum + nn * 1013904223) >>> 0);
-        };
-
-        const chunk = generateUniqueSestine(
-          take,
-          keys,
-          rngFactory,
+      const { sestine, aborted, trace } = await generator.run(
+        {
+          count: n,
           constraints,
-          {
+          stream,
+          start,
+          distance,
+          history: historyUse?.level,
+          popularity: popularityRule,
+          options: {
             seed: seedEnabled ? seed : undefined,
             superstitionMode: state.settings.superstitionEnabled,
           },
-        );
+        },
+        ({ done, total }) =>
+          setGenModal({ groupName: selectedGroup.name, total, done }),
+      );
 
-        allGenerated.push(...chunk);
-        produced += chunk.length;
-        nonceBase += take * 3;
+      const superstar = state.settings.superstar;
+      const generated = withSuperstar(sestine, superstar, stream);
 
-        setGenModal({
-          groupName: selectedGroup.name,
-          total: n,
-          done: produced,
-        });
-        await sleep(0);
-      }
-
-      if (!genAbortRef.current) {
+      if (generated.length > 0) {
         setState((prev) => ({
           ...prev,
           groups: prev.groups.map((g) => {
@@ -879,77 +1718,322 @@ export default function App() {
             const event = {
               type: "generate" as const,
               at: new Date().toISOString(),
-              count: n,
+              count: generated.length,
               seed: seedEnabled ? seed : undefined,
               constraintsSnapshot: constraints,
+              partial: aborted || undefined,
+              rng: stream.mode !== "permutation" ? stream.rng : undefined,
+              permutation:
+                stream.mode === "permutation"
+                  ? { key: stream.key, start, end: trace.next }
+                  : undefined,
+              recipe: createRecipe(
+                stream,
+                constraints,
+                generated.length,
+                trace,
+                {
+                  distance,
+                  history: historyUse,
+                  popularity: popularityRule,
+                },
+              ),
+              superstar,
             };
-            return {
-              ...g,
-              sestine: [...allGenerated, ...g.sestine],
-              events: [event, ...g.events],
-            };
+            const next = [...generated, ...g.sestine];
+            return appendEvent(
+              { ...g, sestine: next },
+              stream.mode === "balanced"
+                ? {
+                    ...event,
+                    spread: frequencySpread(next, balancePool(constraints)),
+                  }
+                : event,
+            );
           }),
         }));
       }
-    } catch (e: any) {
-      alert(e?.message ?? "Errore durante la generazione.");
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Errore durante la generazione.");
     } finally {
       setIsGenerating(false);
       setGenModal(null);
-      genAbortRef.current = false;
     }
   }
 
-  function regenerateNonFrozenInGroup(groupId: string) {
+  async function replayGeneration(g: Group, recipe: GenerationRecipe) {
+    const key = replayKey(g.id, recipe);
+    setReplays((p) => ({ ...p, [key]: "running" }));
+    try {
+      const res = await getGenerator().replay(recipe);
+      const groupRanks = new Set(
+        g.sestine
+          .filter((s) => isSestinaNums(s.nums))
+          .map((s) => sestinaRank(s.nums)),
+      );
+      const report = compareReplay(recipe, res, groupRanks);
+      setReplays((p) => ({ ...p, [key]: report }));
+    } catch (e) {
+      const error =
+        e instanceof Error ? e.message : "Errore durante il replay.";
+      setReplays((p) => ({ ...p, [key]: { error } }));
+    }
+  }
+
+  // aggiunge le sestine di un sistema al gruppo selezionato, tutto o niente
+  function addSystemToSelectedGroup(
+    tickets: SestinaNums[],
+    event: Extract<GroupEvent, { type: "system" }>,
+  ): boolean {
+    if (!selectedGroup) return false;
+
+    // unicità globale: il sistema si gioca tutto o niente
+    const collisions = findSystemCollisions(tickets, globalRanks);
+    if (collisions.length > 0) {
+      alert(
+        `Sistema rifiutato: ${collisions.length} sestine esistono già (es. ${collisions[0].join("-")}).`,
+      );
+      return false;
+    }
+
+    const now = Date.parse(event.at);
+    const sestine: Sestina[] = tickets.map((nums, i) => ({
+      nums,
+      key: sestinaKey(nums),
+      createdAt: new Date(now + i).toISOString(),
+      frozen: false,
+    }));
+
+    setState((prev) => ({
+      ...prev,
+      groups: prev.groups.map((g) =>
+        g.id === selectedGroup.id
+          ? appendEvent({ ...g, sestine: [...sestine, ...g.sestine] }, event)
+          : g,
+      ),
+    }));
+    setTab("generate");
+    return true;
+  }
+
+  function createFullSystem(pool: number[]) {
+    if (!selectedGroup || isGenerating) return;
+
+    let tickets: SestinaNums[];
+    try {
+      tickets = expandFullSystem(pool);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Sistema non valido.");
+      return;
+    }
+
+    addSystemToSelectedGroup(tickets, {
+      type: "system",
+      at: new Date().toISOString(),
+      kind: "full",
+      pool: normalizePool(pool),
+      tickets: tickets.length,
+    });
+  }
+
+  function createReducedSystem(
+    pool: number[],
+    guarantee: Guarantee,
+    result: ReducedResult,
+  ) {
+    if (!selectedGroup || isGenerating) return;
+
+    // il certificato si ricalcola qui: non ci si fida del worker
+    const check = verifyCovering(result.tickets, pool, guarantee);
+    if (!check.ok) {
+      alert(
+        `Garanzia non rispettata: ${check.uncovered} casi scoperti (es. ${check.counterexample?.join(" ")}).`,
+      );
+      return;
+    }
+
+    const at = new Date().toISOString();
+    addSystemToSelectedGroup(result.tickets, {
+      type: "system",
+      at,
+      kind: "reduced",
+      pool: normalizePool(pool),
+      tickets: result.tickets.length,
+      certificate: {
+        ...guarantee,
+        statement: guaranteeStatement(pool, guarantee, result.tickets.length),
+        targets: check.targets,
+        ticketRanks: result.tickets.map((t) => sestinaRank(t)),
+        verifiedAt: at,
+      },
+    });
+  }
+
+  function createBasesSystem(bases: number[], pool: number[], count: number) {
+    if (!selectedGroup || isGenerating) return;
+
+    // si ricalcola qui sulle sestine attuali: le esistenti restano escluse
+    let layout: ReturnType<typeof buildBasesSystem>;
+    try {
+      layout = buildBasesSystem(bases, pool, count, globalRanks);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Schema non valido.");
+      return;
+    }
+    if (layout.tickets.length === 0) {
+      alert("Nessuna sestina nuova possibile con queste basi e questo pool.");
+      return;
+    }
+
+    addSystemToSelectedGroup(layout.tickets, {
+      type: "system",
+      at: new Date().toISOString(),
+      kind: "bases",
+      bases: layout.bases,
+      pool: layout.pool,
+      tickets: layout.tickets.length,
+      rotations: layout.rotations,
+    });
+  }
+
+  async function regenerateNonFrozenInGroup(groupId: string) {
+    if (isGenerating) return;
+    if (constraintError) {
+      alert(constraintError.message);
+      return;
+    }
     const g = state.groups.find((x) => x.id === groupId);
     if (!g) return;
 
     const frozen = g.sestine.filter((s) => s.frozen);
-    const toRegenCount = g.sestine.length - frozen.length;
+    const unfrozen = g.sestine.filter((s) => !s.frozen);
+    let toRegenCount = unfrozen.length;
     if (toRegenCount <= 0) return;
-
-    const keys = new Set(globalKeys);
-    for (const s of g.sestine) if (!s.frozen) keys.delete(s.key);
+    // in partizione si rigenerano blocchi interi
+    if (state.settings.generationMode === "partition") {
+      try {
+        const { tickets } = partitionPlan(constraints);
+        toRegenCount = Math.ceil(toRegenCount / tickets) * tickets;
+      } catch (e) {
+        alert(e instanceof Error ? e.message : "Partizione non valida.");
+        return;
+      }
+    }
 
     const seedEnabled = state.settings.seedEnabled;
     const seed = seedEnabled ? state.settings.seedValue.trim() : "";
-
-    const rngFactory = (nonce: number) =>
-      seedEnabled
-        ? rngFromSeed(`${seed}::${g.id}::regen::${nonce}`)
-        : mulberry32(
-            (crypto.getRandomValues(new Uint32Array(1))[0] + nonce) >>> 0,
-          );
-
-    const regenerated = generateUniqueSestine(
-      toRegenCount,
-      keys,
-      rngFactory,
+    // stesso schema della generazione: il flusso riprende dopo l'ultimo run
+    const { stream, start } = nextStream(
+      g,
+      state.settings,
       constraints,
-      {
-        seed: seedEnabled ? seed : undefined,
-        superstitionMode: state.settings.superstitionEnabled,
-      },
+      frozen,
     );
+    const distance = distanceRule(state.settings, frozen);
+    const historyUse = historyRule();
+    const popularityRule =
+      state.settings.maxPopularity !== undefined
+        ? { max: state.settings.maxPopularity, lastDraw: latestDraw?.nums }
+        : undefined;
+    if (historyUse === null) {
+      alert(
+        "Archivio storico non ancora caricato: riprova tra qualche secondo.",
+      );
+      return;
+    }
 
-    setState((prev) => ({
-      ...prev,
-      groups: prev.groups.map((x) => {
-        if (x.id !== g.id) return x;
-        const event = {
-          type: "generate" as const,
-          at: new Date().toISOString(),
+    const generator = getGenerator();
+    generator.syncRanks(globalRanks);
+
+    setIsGenerating(true);
+    setGenModal({ groupName: g.name, total: toRegenCount, done: 0 });
+
+    try {
+      const {
+        sestine: regenerated,
+        aborted,
+        trace,
+      } = await generator.run(
+        {
           count: toRegenCount,
-          seed: seedEnabled ? seed : undefined,
-          constraintsSnapshot: constraints,
-        };
-        return {
-          ...x,
-          sestine: [...frozen, ...regenerated],
-          events: [event, ...x.events],
-        };
-      }),
-    }));
+          constraints,
+          stream,
+          start,
+          distance,
+          history: historyUse?.level,
+          popularity: popularityRule,
+          release: unfrozen
+            .filter((s) => isSestinaNums(s.nums))
+            .map((s) => sestinaRank(s.nums)),
+          options: {
+            seed: seedEnabled ? seed : undefined,
+            superstitionMode: state.settings.superstitionEnabled,
+          },
+        },
+        ({ done, total }) => setGenModal({ groupName: g.name, total, done }),
+      );
+
+      const superstar = state.settings.superstar;
+      const replaced = withSuperstar(regenerated, superstar, stream);
+
+      if (replaced.length > 0) {
+        setState((prev) => ({
+          ...prev,
+          groups: prev.groups.map((x) => {
+            if (x.id !== g.id) return x;
+            const event = {
+              type: "generate" as const,
+              at: new Date().toISOString(),
+              count: replaced.length,
+              seed: seedEnabled ? seed : undefined,
+              constraintsSnapshot: constraints,
+              partial: aborted || undefined,
+              rng: stream.mode !== "permutation" ? stream.rng : undefined,
+              permutation:
+                stream.mode === "permutation"
+                  ? { key: stream.key, start, end: trace.next }
+                  : undefined,
+              recipe: createRecipe(
+                stream,
+                constraints,
+                replaced.length,
+                trace,
+                { distance, history: historyUse, popularity: popularityRule },
+              ),
+              superstar,
+            };
+            // se interrotta e tenuta: le vecchie non ancora sostituite
+            // restano, tranne quelle appena rigenerate (il worker aveva
+            // liberato i rank di tutte le non bloccate); le rimaste tornano
+            // riservate al prossimo syncRanks, con il nuovo globalRanks
+            const fresh = new Set(replaced.map((s) => sestinaRank(s.nums)));
+            const kept = unfrozen
+              .slice(replaced.length)
+              .filter(
+                (s) =>
+                  !isSestinaNums(s.nums) || !fresh.has(sestinaRank(s.nums)),
+              );
+            const next = [...frozen, ...replaced, ...kept];
+            return appendEvent(
+              { ...x, sestine: next },
+              stream.mode === "balanced"
+                ? {
+                    ...event,
+                    spread: frequencySpread(next, balancePool(constraints)),
+                  }
+                : event,
+            );
+          }),
+        }));
+      }
+    } catch (e) {
+      alert(
+        e instanceof Error ? e.message : "Errore durante la rigenerazione.",
+      );
+    } finally {
+      setIsGenerating(false);
+      setGenModal(null);
+    }
   }
 
   function exportCSV() {
@@ -958,6 +2042,15 @@ export default function App() {
     downloadTextFile(`sestine_${ts}.csv`, csv, "text/csv;charset=utf-8");
   }
 
+  function exportBinary() {
+    const ts = new Date().toISOString().replaceAll(":", "-");
+    downloadTextFile(
+      `sestine_${ts}.${SESTINE_FILE_EXTENSION}`,
+      encodeStateFile(state),
+      SESTINE_FILE_MIME,
+    );
+  }
+
   function exportJSON() {
     const ts = new Date().toISOString().replaceAll(":", "-");
     downloadTextFile(
@@ -978,6 +2071,18 @@ export default function App() {
     return atLeastDistribution(k);
   }, [selectedGroup?.sestine.length]);
 
+  const chainStatus = useMemo<ChainStatus>(
+    () => (selectedGroup ? verifyChain(selectedGroup) : { status: "empty" }),
+    [selectedGroup],
+  );
+
+  // ricalcolato solo se il gruppo ha un commit (e cambia)
+  const commitCheck = useMemo<CommitCheck>(
+    () =>
+      selectedGroup ? verifyGroupCommitment(selectedGroup) : { status: "none" },
+    [selectedGroup],
+  );
+
   const statsScopeSestine = useMemo(
     () => selectedGroup?.sestine ?? [],
     [selectedGroup],
@@ -989,6 +2094,21 @@ export default function App() {
   const top10 = useMemo(() => topNumbers(freq, 10), [freq]);
   const missing = useMemo(() => missingNumbers(freq), [freq]);
   const maxFreq = useMemo(() => Math.max(0, ...freq), [freq]);
+  const uniform = useMemo(() => uniformFrequency(freq), [freq]);
+  const spread = useMemo(
+    () => frequencySpread(statsScopeSestine),
+    [statsScopeSestine],
+  );
+  const historyHits = useMemo(
+    () =>
+      historyIndex
+        ? statsScopeSestine.flatMap((s) => {
+            const match = matchHistory(historyIndex, s.nums);
+            return match ? [{ key: s.key, nums: s.nums, match }] : [];
+          })
+        : null,
+    [historyIndex, statsScopeSestine],
+  );
 
   function validateAgainstGroup() {
     if (!selectedGroup) return;
@@ -1009,14 +2129,20 @@ export default function App() {
     const rows: ValidationRow[] = selectedGroup.sestine.map((s) => {
       const hitNums = s.nums.filter((n) => drawSet.has(n));
       const hits = hitNums.length;
+      const jollyHit = jolly ? s.nums.includes(jolly) : false;
+      const starHit = superstar !== undefined && s.superstar === superstar;
       return {
         key: s.key,
+        rank: isSestinaNums(s.nums) ? sestinaRank(s.nums) : null,
         nums: s.nums,
         hits,
         hitNums,
         frozen: s.frozen,
-        jollyHit: jolly ? s.nums.includes(jolly) : false,
-        superstarHit: superstar ? s.nums.includes(superstar) : false,
+        jollyHit,
+        superstar: s.superstar,
+        superstarHit: starHit,
+        starCategory: superstarCategory(hits, jollyHit, starHit),
+        history: historyIndex ? matchHistory(historyIndex, s.nums) : null,
       };
     });
 
@@ -1029,10 +2155,18 @@ export default function App() {
       "2": 0,
       other: 0,
     };
+    const starCounts = Object.fromEntries(
+      SUPERSTAR_CATEGORIES.map((c) => [c, 0]),
+    ) as Record<SuperstarCategory, number>;
     let estimatedTotalEuro = 0;
 
     for (const r of rows) {
       const eur = estimateTicketWinEUR(r.hits, r.jollyHit, jackpotEuro);
+      if (r.starCategory) {
+        estimatedTotalEuro += superstarQuota(r.starCategory, eur);
+        starCounts[r.starCategory]++;
+        continue;
+      }
       estimatedTotalEuro += eur;
 
       if (r.hits === 6) prizeCounts["6"]++;
@@ -1067,11 +2201,15 @@ export default function App() {
       groupId: selectedGroup.id,
       groupName: selectedGroup.name,
       draw,
+      drawRank: sestinaRank(draw),
+      drawHistory: historyIndex ? matchHistory(historyIndex, draw) : null,
       jolly,
       superstar,
       counts,
       rows,
       prizeCounts,
+      starCounts,
+      starred: rows.filter((r) => r.superstar !== undefined).length,
       estimatedTotalEuro,
     };
 
@@ -1088,7 +2226,7 @@ export default function App() {
           jolly,
           superstar,
         };
-        return { ...g, events: [ev, ...g.events] };
+        return appendEvent(g, ev);
       }),
     }));
   }
@@ -1096,6 +2234,13 @@ export default function App() {
   const evenOdd = state.settings.highlightEvenOdd;
   const lowHigh = state.settings.highlightLowHigh;
 
+  if (storage.status === "loading")
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-50 text-sm font-bold text-black/60">
+        Caricamento dei gruppi salvati…
+      </div>
+    );
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-emerald-50 via-neutral-50 to-neutral-50">
       {/* soft background decor */}
@@ -1196,6 +2341,13 @@ export default function App() {
               🎮​ Gioca
             </TabButton>
 
+            <TabButton
+              active={tab === "systems"}
+              onClick={() => setTab("systems")}
+            >
+              🧮 Sistemi
+            </TabButton>
+
             <TabButton
               active={tab === "settings"}
               onClick={() => setTab("settings")}
@@ -1204,7 +2356,63 @@ export default function App() {
               ⚙️ Impostazioni
             </TabButton>
           </div>
-        </header>
+        </header>
+
+        {storage.error && (
+          <div className="mt-5 rounded-3xl border border-red-200 bg-red-50 p-4 text-sm font-bold text-red-800">
+            ⛔ Salvataggio non riuscito: {storage.error} Le modifiche restano
+            solo in questa scheda finché il salvataggio non torna a funzionare.
+          </div>
+        )}
+
+        {storage.readOnly && (
+          <div className="mt-5 rounded-3xl border border-red-200 bg-red-50 p-4 text-sm font-bold text-red-800">
+            ⛔ {storage.readOnly}
+          </div>
+        )}
+
+        {loadReport && (
+          <div className="mt-5 rounded-3xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+            <div className="flex items-start justify-between gap-3">
+              <div className="font-extrabold">
+                {loadReport.migration
+                  ? `🔄 Dati aggiornati dallo schema v${loadReport.migration.from} alla v${loadReport.migration.to}`
+                  : "🩹 Dati salvati riparati al caricamento"}
+              </div>
+              <Button onClick={() => setLoadReport(null)}>Chiudi</Button>
+            </div>
+            <ul className="mt-2 list-disc pl-5 text-xs">
+              {[
+                ...(loadReport.migration
+                  ? describeMigration(loadReport.migration)
+                  : []),
+                ...(loadReport.repair
+                  ? describeValidation(loadReport.repair)
+                  : []),
+              ].map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs font-bold">
+              {loadReport.backup
+                ? `Copia dei dati originali: ${loadReport.backup}.`
+                : "⚠️ Copia dei dati originali non riuscita (spazio esaurito?)."}
+              {!!loadReport.repair?.quarantined.length && (
+                <Button
+                  onClick={() =>
+                    downloadTextFile(
+                      `quarantena_${new Date().toISOString().slice(0, 10)}.json`,
+                      JSON.stringify(loadReport.repair?.quarantined, null, 2),
+                      "application/json",
+                    )
+                  }
+                >
+                  Scarica la quarantena ({loadReport.repair.quarantined.length})
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
 
         {/* BANNER */}
         {state.settings.showOddsBanner && (
@@ -1327,7 +2535,7 @@ export default function App() {
 
                 <SectionTitle
                   title="Export"
-                  subtitle="CSV per Excel, JSON per backup completo, TXT per condivisione rapida."
+                  subtitle="CSV per Excel, JSON per backup completo, .sestine per backup compatto (binario), TXT per condivisione rapida."
                 />
 
                 <div className="mt-2 flex flex-wrap gap-2">
@@ -1342,6 +2550,13 @@ export default function App() {
                     Scarica JSON
                   </Button>
 
+                  <Button
+                    onClick={exportBinary}
+                    disabled={state.groups.length === 0}
+                  >
+                    Scarica .sestine
+                  </Button>
+
                   <Button
                     disabled={state.groups.length === 0}
                     onClick={() => {
@@ -1407,6 +2622,15 @@ export default function App() {
                           {constraints.mustIncludeAnyOf.length}
                         </span>
 
+                        {describeStructure(constraints).length > 0 && (
+                          <>
+                            <span className="mx-2 text-black/30">•</span>
+                            <span className="font-bold">
+                              {describeStructure(constraints).join(", ")}
+                            </span>
+                          </>
+                        )}
+
                         <span className="mx-2 text-black/30">•</span>
 
                         <span className="font-bold">
@@ -1415,6 +2639,27 @@ export default function App() {
                             : "seed OFF"}
                         </span>
 
+                        <span className="mx-2 text-black/30">•</span>
+
+                        <span className="font-bold">
+                          {state.settings.generationMode === "permutation"
+                            ? "permutazione"
+                            : state.settings.generationMode === "balanced"
+                              ? "bilanciata"
+                              : state.settings.generationMode === "partition"
+                                ? "partizione (blocchi da 15)"
+                                : "random"}
+                        </span>
+
+                        {state.settings.maxShared !== undefined && (
+                          <>
+                            <span className="mx-2 text-black/30">•</span>
+                            <span className="font-bold">
+                              max {state.settings.maxShared} in comune
+                            </span>
+                          </>
+                        )}
+
                         {state.settings.superstitionEnabled && (
                           <>
                             <span className="mx-2 text-black/30">•</span>
@@ -1428,6 +2673,10 @@ export default function App() {
                   />
                 </div>
 
+                <div className="mt-3">
+                  <ConstraintAnalysisBox analysis={constraintAnalysis} />
+                </div>
+
                 <div className="mt-3 grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-center">
                   <input
                     defaultValue={selectedGroup.name}
@@ -1455,13 +2704,18 @@ export default function App() {
                   <PrimaryButton
                     onClick={generateForSelectedGroup}
                     loading={isGenerating}
+                    disabled={!!constraintError}
                   >
-                    Genera
+                    {state.settings.generationMode === "partition"
+                      ? "Genera blocchi"
+                      : "Genera"}
                   </PrimaryButton>
 
                   <Button
                     onClick={() => regenerateNonFrozenInGroup(selectedGroup.id)}
-                    disabled={selectedGroup.sestine.length === 0}
+                    disabled={
+                      selectedGroup.sestine.length === 0 || !!constraintError
+                    }
                     loading={isGenerating}
                   >
                     Rigenera NON bloccate
@@ -1478,6 +2732,17 @@ export default function App() {
                   </Button>
                 </div>
 
+                <div className="mt-3">
+                  <CommitBox
+                    key={selectedGroup.id}
+                    check={commitCheck}
+                    disabled={
+                      isGenerating || selectedGroup.sestine.length === 0
+                    }
+                    onCommit={commitSelectedGroup}
+                  />
+                </div>
+
                 {selectedGroup.sestine.length > 0 && groupBestDist && (
                   <div className="mt-4 rounded-3xl border border-black/10 bg-white p-4 animate-fadeUp">
                     <div className="flex items-baseline justify-between gap-3">
@@ -1551,9 +2816,39 @@ export default function App() {
                             Pagina <b className="text-black">{pageIndex + 1}</b>{" "}
                             / <b className="text-black">{pageCount}</b>
                           </span>
+                          <span className="text-black/50">·</span>
+                          <span
+                            title={
+                              latestDraw
+                                ? `Compleanni, progressioni, linee sulla schedina, ultima estrazione (${latestDraw.date}).`
+                                : "Compleanni, progressioni, linee sulla schedina (ultima estrazione non disponibile)."
+                            }
+                          >
+                            Popolarità media{" "}
+                            <b className="text-black">
+                              {avgPopularity.toFixed(1)}
+                            </b>
+                            /100
+                          </span>
                         </div>
 
                         <div className="flex flex-wrap items-center gap-2">
+                          <select
+                            value={listOrder}
+                            onChange={(e) =>
+                              setListOrder(e.target.value as typeof listOrder)
+                            }
+                            className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                          >
+                            <option value="default">Ordine: inserimento</option>
+                            <option value="popularityDesc">
+                              Popolarità: più giocate prima
+                            </option>
+                            <option value="popularityAsc">
+                              Popolarità: meno giocate prima
+                            </option>
+                          </select>
+
                           <select
                             value={pageSize}
                             onChange={(e) =>
@@ -1634,6 +2929,9 @@ export default function App() {
                     title="Timeline"
                     subtitle="Cronologia operazioni (ultimi 20). Utile per capire cosa hai generato e con quali impostazioni."
                   />
+                  <div className="mt-2">
+                    <ChainBadge status={chainStatus} />
+                  </div>
                   <div className="mt-2 flex flex-col gap-2">
                     {selectedGroup.events.length === 0 ? (
                       <div className="text-sm text-black/60">
@@ -1643,15 +2941,94 @@ export default function App() {
                       selectedGroup.events.slice(0, 20).map((ev, idx) => (
                         <div
                           key={idx}
-                          className="rounded-3xl border border-black/10 bg-white p-3 animate-fadeUp"
+                          className={cn(
+                            "rounded-3xl border bg-white p-3 animate-fadeUp",
+                            chainStatus.status === "broken" &&
+                              chainStatus.index === idx
+                              ? "border-red-300 ring-2 ring-red-100"
+                              : "border-black/10",
+                          )}
                         >
                           <div className="text-xs text-black/60">
                             {new Date(ev.at).toLocaleString()}
                           </div>
                           {ev.type === "generate" ? (
+                            <>
+                              <div className="text-sm font-bold text-black/80">
+                                Generazione: +{ev.count}{" "}
+                                {ev.seed ? `(seed="${ev.seed}")` : ""}
+                                {ev.partial ? " · interrotta" : ""}
+                                {ev.rng
+                                  ? ` · ${ev.rng.id} v${ev.rng.version}`
+                                  : ""}
+                                {ev.permutation
+                                  ? ` · permutazione #${ev.permutation.start}→${ev.permutation.end}`
+                                  : ""}
+                                {ev.superstar
+                                  ? ` · SuperStar ${ev.superstar.mode === "fixed" ? ev.superstar.value : "casuale"}`
+                                  : ""}
+                                {ev.constraintsSnapshot &&
+                                describeStructure(ev.constraintsSnapshot).length
+                                  ? ` · ${describeStructure(ev.constraintsSnapshot).join(", ")}`
+                                  : ""}
+                              </div>
+                              {ev.spread && (
+                                <div className="text-xs font-bold text-emerald-800">
+                                  ⚖️ Bilanciata: {describeSpread(ev.spread)}
+                                </div>
+                              )}
+                              {ev.recipe && (
+                                <RecipeBox
+                                  recipe={ev.recipe}
+                                  replay={
+                                    replays[
+                                      replayKey(selectedGroup.id, ev.recipe)
+                                    ]
+                                  }
+                                  disabled={isGenerating}
+                                  onReplay={() =>
+                                    ev.recipe &&
+                                    replayGeneration(selectedGroup, ev.recipe)
+                                  }
+                                />
+                              )}
+                            </>
+                          ) : ev.type === "system" ? (
+                            <div className="text-sm font-bold text-black/80">
+                              {ev.kind === "full"
+                                ? "Sistema integrale"
+                                : ev.kind === "bases"
+                                  ? `Basi fisse ${ev.bases.join(" ")}`
+                                  : "Sistema ridotto"}
+                              : +{ev.tickets} · pool {ev.pool.join(" ")}
+                              {ev.kind === "reduced" && (
+                                <div className="mt-1 text-xs font-normal text-black/60">
+                                  🔒 {ev.certificate.statement} (
+                                  {ev.certificate.targets} casi verificati)
+                                </div>
+                              )}
+                            </div>
+                          ) : ev.type === "commit" ? (
+                            <div className="text-sm font-bold text-black/80">
+                              🔒 Pronto da giocare: {ev.count} sestine · codice{" "}
+                              {shortCode(ev.hash)}
+                              <div className="mt-1 text-xs font-normal text-black/60 break-all">
+                                SHA-256 {ev.hash} · seed="{ev.seed}"
+                              </div>
+                            </div>
+                          ) : ev.type === "import" ? (
+                            <div className="text-sm font-bold text-black/80">
+                              Import: +{ev.count} ({ev.mode})
+                            </div>
+                          ) : ev.type === "edit" ? (
                             <div className="text-sm font-bold text-black/80">
-                              Generazione: +{ev.count}{" "}
-                              {ev.seed ? `(seed="${ev.seed}")` : ""}
+                              {ev.action === "clear"
+                                ? `Gruppo svuotato: −${ev.count}`
+                                : ev.action === "moveOut"
+                                  ? `Spostate da un import: −${ev.count}`
+                                  : ev.action === "repair"
+                                    ? `Riparate o in quarantena al caricamento: ${ev.count}`
+                                    : `Sestina rimossa: −${ev.count}`}
                             </div>
                           ) : (
                             <div className="text-sm font-bold text-black/80">
@@ -1684,6 +3061,34 @@ export default function App() {
                   </p>
                 ) : (
                   <>
+                    <div className="mt-4 rounded-2xl border border-black/10 bg-neutral-50 p-3 text-sm">
+                      <div className="font-extrabold text-black/80">
+                        Distribuzione: {spread.max - spread.min} di scarto tra
+                        il numero più e meno frequente
+                      </div>
+                      <div className="mt-1 text-xs text-black/60">
+                        {describeSpread(spread)}. La modalità “Bilanciata” tiene
+                        lo scarto al minimo.
+                      </div>
+                      {uniform && (
+                        <div className="mt-1 text-xs font-bold text-emerald-800">
+                          ✅ Perfettamente bilanciato: ognuno dei{" "}
+                          {uniform.numbers} numeri usati compare{" "}
+                          {uniform.count === 1
+                            ? "una volta"
+                            : `${uniform.count} volte`}
+                          {uniform.numbers === MAX_NUM
+                            ? " (copertura completa 1–90)"
+                            : ""}
+                          .
+                        </div>
+                      )}
+                      <div className="mt-1 text-xs text-black/60">
+                        Popolarità media stimata: {avgPopularity.toFixed(1)}
+                        /100 (più è bassa, meno si divide un eventuale premio).
+                      </div>
+                    </div>
+
                     <div className="mt-4">
                       <SectionTitle
                         title="Top 10 numeri"
@@ -1721,8 +3126,64 @@ export default function App() {
                         ))}
                       </div>
                     </div>
+
+                    <div className="mt-6">
+                      <SectionTitle
+                        title="Già uscite in passato"
+                        subtitle="Sestine del gruppo uguali a un'estrazione storica o con 5 numeri in comune con una."
+                      />
+                      <div className="mt-3 text-sm text-black/70">
+                        {history.status === "error" ? (
+                          <span className="font-bold text-red-800">
+                            {history.message}
+                          </span>
+                        ) : !historyHits ? (
+                          "Caricamento archivio storico…"
+                        ) : historyHits.length === 0 ? (
+                          "Nessuna: nessuna sestina del gruppo è già uscita né ha 5 numeri di un'estrazione passata."
+                        ) : (
+                          <div className="flex flex-col gap-1">
+                            <div className="font-bold">
+                              {
+                                historyHits.filter((h) => h.match.shared === 6)
+                                  .length
+                              }{" "}
+                              già uscite ·{" "}
+                              {
+                                historyHits.filter((h) => h.match.shared === 5)
+                                  .length
+                              }{" "}
+                              con 5 numeri
+                            </div>
+                            {historyHits.slice(0, 50).map((h) => (
+                              <div key={h.key} className="text-xs">
+                                <span className="font-mono">
+                                  {h.nums.join("-")}
+                                </span>{" "}
+                                · {describeHistoryMatch(h.match)} (
+                                {h.match.draw.nums.join("-")})
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
                   </>
                 )}
+
+                <div className="mt-6">
+                  <SectionTitle
+                    title="Sovrapposizioni"
+                    subtitle="Quanti numeri hanno in comune le sestine più vicine: coppie quasi uguali giocano quasi la stessa cosa."
+                  />
+                  <div className="mt-3">
+                    <OverlapPanel
+                      groups={state.groups}
+                      selectedGroupId={selectedGroupId}
+                      maxShared={state.settings.maxShared}
+                    />
+                  </div>
+                </div>
               </>
             ) : tab === "prizes" ? (
               <>
@@ -1804,7 +3265,8 @@ export default function App() {
                   subtitle={
                     <>
                       Inserisci i <b>6 numeri estratti</b>. Jolly e SuperStar
-                      opzionali. Ottieni un report dettagliato (modal).
+                      opzionali: il SuperStar vale per le sestine che lo
+                      giocano. Ottieni un report dettagliato (modal).
                     </>
                   }
                 />
@@ -1864,6 +3326,16 @@ export default function App() {
                 groups={state.groups as any}
                 defaultGroupId={selectedGroupId}
               />
+            ) : tab === "systems" ? (
+              <SystemsPanel
+                groups={state.groups}
+                defaultGroupId={selectedGroupId}
+                groupName={selectedGroup?.name ?? null}
+                existingRanks={globalRanks}
+                onCreate={createFullSystem}
+                onCreateReduced={createReducedSystem}
+                onCreateBases={createBasesSystem}
+              />
             ) : (
               <>
                 <SectionTitle
@@ -1902,6 +3374,113 @@ export default function App() {
                       placeholder="Seed (stringa)"
                       disabled={!state.settings.seedEnabled}
                     />
+                    <label className="flex flex-col gap-1 text-xs font-bold text-black/60">
+                      Algoritmo RNG (modalità random)
+                      <select
+                        value={state.settings.rngAlgorithm}
+                        onChange={(e) =>
+                          setState((p) => ({
+                            ...p,
+                            settings: {
+                              ...p.settings,
+                              rngAlgorithm: e.target.value as RngAlgorithmId,
+                            },
+                          }))
+                        }
+                        className="w-full px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                      >
+                        {Object.values(RNG_ALGORITHMS).map((a) => (
+                          <option key={a.id} value={a.id}>
+                            {a.label} · v{a.version}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {state.settings.seedEnabled &&
+                      !RNG_ALGORITHMS[state.settings.rngAlgorithm].seedable && (
+                        <div className="rounded-2xl border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs font-bold text-black/80">
+                          ⚠️ Questo algoritmo ignora il seed: le generazioni non
+                          saranno ripetibili.
+                        </div>
+                      )}
+                  </div>
+                </div>
+
+                <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
+                  <SectionTitle
+                    title="Modalità generazione"
+                    subtitle="Random: estrazione esattamente uniforme tra le sestine ammesse dai vincoli, con retry solo sui duplicati. Permutazione: percorre una permutazione con chiave delle sestine ammesse dai vincoli (fino a 622.614.630), senza duplicati né retry, e riprende da dove si era fermata. Bilanciata: tra più sestine ammesse sceglie quella che rende più uniformi le frequenze dei numeri (e delle coppie) nel gruppo. Partizione: genera blocchi di 15 sestine che usano ogni numero da 1 a 90 una volta sola (gli esclusi restano fuori; regole strutturali non ammesse)."
+                  />
+                  <div className="mt-3">
+                    <select
+                      value={state.settings.generationMode}
+                      onChange={(e) =>
+                        setState((p) => ({
+                          ...p,
+                          settings: {
+                            ...p.settings,
+                            generationMode: e.target.value as GenerationMode,
+                          },
+                        }))
+                      }
+                      className="w-full px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                    >
+                      <option value="random">Random (uniforme)</option>
+                      <option value="permutation">
+                        Permutazione (Feistel, senza duplicati)
+                      </option>
+                      <option value="balanced">
+                        Bilanciata (copertura uniforme dei numeri)
+                      </option>
+                      <option value="partition">
+                        Partizione (15 sestine con tutti i 90 numeri)
+                      </option>
+                    </select>
+                  </div>
+
+                  <div className="mt-3 flex flex-col gap-2">
+                    <Button
+                      onClick={runUniformityCheck}
+                      loading={uniformity.running}
+                      className="w-full"
+                    >
+                      Verifica uniformità del campionatore
+                    </Button>
+                    {uniformity.error && (
+                      <div className="rounded-2xl border border-red-200 bg-red-50 px-3 py-2 text-xs font-bold text-red-800">
+                        {uniformity.error}
+                      </div>
+                    )}
+                    {uniformity.report && (
+                      <div
+                        className={cn(
+                          "rounded-2xl border px-3 py-2 text-xs",
+                          uniformity.report.ok
+                            ? "border-emerald-200 bg-emerald-50"
+                            : "border-red-200 bg-red-50",
+                        )}
+                      >
+                        <div className="font-extrabold">
+                          {uniformity.report.ok
+                            ? "✅ Distribuzione uniforme"
+                            : "⛔ Test non superato"}{" "}
+                          <span className="font-normal text-black/50">
+                            (seed {uniformity.report.seed})
+                          </span>
+                        </div>
+                        {uniformity.report.checks.map((c) => (
+                          <div key={c.label} className="mt-1 text-black/70">
+                            {c.ok ? "✓" : "✗"} {c.label}: {c.total} ammesse
+                            {c.total !== c.enumerated &&
+                              ` (attese ${c.enumerated})`}
+                            , {c.samples.toLocaleString("it-IT")} estrazioni,
+                            χ²={c.chi2.toFixed(1)} (df {c.df}), p=
+                            {c.pValue.toFixed(3)}
+                            {c.invalid > 0 && `, ${c.invalid} non valide`}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -1911,6 +3490,7 @@ export default function App() {
                     subtitle="I vincoli filtrano le sestine. Troppi vincoli possono rendere la generazione impossibile."
                   />
                   <div className="mt-3 flex flex-col gap-2">
+                    <ConstraintAnalysisBox analysis={constraintAnalysis} />
                     <Input
                       value={state.settings.exclude.join(",")}
                       onChange={(e) =>
@@ -1956,6 +3536,268 @@ export default function App() {
                   </div>
                 </div>
 
+                <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
+                  <SectionTitle
+                    title="Vincoli strutturali"
+                    subtitle="Filtrano per forma della sestina (stesse grandezze delle statistiche storiche). Campo vuoto = nessun limite."
+                  />
+                  <div className="mt-3 flex flex-col gap-2">
+                    <RangeField
+                      label="Somma"
+                      value={state.settings.structural.sum}
+                      lo={21}
+                      hi={525}
+                      onChange={(sum) => setStructural({ sum })}
+                    />
+                    <RangeField
+                      label="Numeri pari"
+                      value={state.settings.structural.evenCount}
+                      lo={0}
+                      hi={6}
+                      onChange={(evenCount) => setStructural({ evenCount })}
+                    />
+                    <RangeField
+                      label="Numeri bassi (≤45)"
+                      value={state.settings.structural.lowCount}
+                      lo={0}
+                      hi={6}
+                      onChange={(lowCount) => setStructural({ lowCount })}
+                    />
+                    <div className="grid grid-cols-[1fr_90px] gap-2 items-center">
+                      <span className="text-sm font-bold text-black/80">
+                        Max numeri per decina
+                      </span>
+                      <Input
+                        type="number"
+                        value={state.settings.structural.maxPerDecade ?? ""}
+                        onChange={(e) => {
+                          const v = parseOptionalInt(e.target.value);
+                          setStructural({
+                            maxPerDecade:
+                              v === undefined
+                                ? undefined
+                                : Math.min(6, Math.max(1, v)),
+                          });
+                        }}
+                        placeholder="—"
+                      />
+                    </div>
+                    <div className="grid grid-cols-[1fr_90px] gap-2 items-center">
+                      <span className="text-sm font-bold text-black/80">
+                        Max numeri consecutivi
+                      </span>
+                      <Input
+                        type="number"
+                        value={state.settings.structural.maxConsecutive ?? ""}
+                        onChange={(e) => {
+                          const v = parseOptionalInt(e.target.value);
+                          setStructural({
+                            maxConsecutive:
+                              v === undefined
+                                ? undefined
+                                : Math.min(6, Math.max(1, v)),
+                          });
+                        }}
+                        placeholder="—"
+                      />
+                    </div>
+                    <Toggle
+                      checked={!!state.settings.structural.distinctFinalDigits}
+                      onChange={(v) =>
+                        setStructural({ distinctFinalDigits: v || undefined })
+                      }
+                      label="Cifre finali tutte diverse"
+                    />
+                    <div className="text-xs text-black/60">
+                      Decine: 1–9, 10–19, …, 80–89, 90. Consecutivi: 1 = nessuna
+                      coppia di numeri adiacenti.
+                    </div>
+                  </div>
+                </div>
+
+                <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
+                  <SectionTitle
+                    title="Distanza minima nel gruppo"
+                    subtitle="Nessuna coppia di sestine dello stesso gruppo condivide più numeri di così: niente quasi-doppioni. Vale per le nuove generazioni, contro tutte le sestine già nel gruppo."
+                  />
+                  <div className="mt-3">
+                    <select
+                      value={state.settings.maxShared ?? ""}
+                      onChange={(e) =>
+                        setState((p) => ({
+                          ...p,
+                          settings: {
+                            ...p.settings,
+                            maxShared:
+                              e.target.value === ""
+                                ? undefined
+                                : Number(e.target.value),
+                          },
+                        }))
+                      }
+                      className="w-full px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                    >
+                      <option value="">Nessun limite</option>
+                      {MAX_SHARED_OPTIONS.map((n) => (
+                        <option key={n} value={n}>
+                          Al massimo {n} numeri in comune
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="mt-2 text-xs text-black/60">
+                    Più il limite è basso, meno sestine entrano in un gruppo e
+                    più tentativi servono per trovarle. L'analisi dei gruppi
+                    esistenti è nel tab statistiche.
+                  </div>
+                </div>
+
+                <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
+                  <SectionTitle
+                    title="Evita le combinazioni popolari"
+                    subtitle="Scarta in generazione le sestine che molti giocano (compleanni, progressioni, linee sulla schedina, ultima estrazione): se vincono, il premio si divide con meno persone. Le probabilità di vincere non cambiano."
+                  />
+                  <div className="mt-3">
+                    <select
+                      value={state.settings.maxPopularity ?? ""}
+                      onChange={(e) =>
+                        setState((p) => ({
+                          ...p,
+                          settings: {
+                            ...p.settings,
+                            maxPopularity:
+                              e.target.value === ""
+                                ? undefined
+                                : Number(e.target.value),
+                          },
+                        }))
+                      }
+                      className="w-full px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                    >
+                      <option value="">Nessun limite</option>
+                      {POPULARITY_THRESHOLDS.map((n) => (
+                        <option key={n} value={n}>
+                          Scarta sopra {n}/100
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="mt-2 text-xs text-black/60">
+                    Il punteggio di ogni sestina è nella lista del gruppo, con
+                    ordinamento e media. Il modello è un'euristica documentata
+                    in src/lib/popularity.ts.
+                  </div>
+                </div>
+
+                <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
+                  <SectionTitle
+                    title="Estrazioni storiche"
+                    subtitle="Scarta in generazione le combinazioni già uscite nell'archivio (public/data). Non cambia le probabilità: serve solo a non rigiocare il passato."
+                  />
+                  <div className="mt-3">
+                    <select
+                      value={state.settings.excludeHistory ?? ""}
+                      onChange={(e) =>
+                        setState((p) => ({
+                          ...p,
+                          settings: {
+                            ...p.settings,
+                            excludeHistory:
+                              (e.target.value as HistoryLevel) || undefined,
+                          },
+                        }))
+                      }
+                      className="w-full px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                    >
+                      <option value="">Non escludere</option>
+                      <option value="draws">
+                        Escludi le sestine già uscite
+                      </option>
+                      <option value="fives">
+                        Escludi anche quelle con 5 numeri di un'estrazione
+                      </option>
+                    </select>
+                  </div>
+                  <div className="mt-2 text-xs text-black/60">
+                    {history.status === "ready"
+                      ? `Archivio: ${history.draws.length.toLocaleString("it-IT")} estrazioni da 6 numeri (${history.draws[0]?.date ?? "—"} → ${history.draws[history.draws.length - 1]?.date ?? "—"}).`
+                      : history.status === "loading"
+                        ? "Caricamento archivio…"
+                        : history.status === "error"
+                          ? `⛔ ${history.message}`
+                          : "L'archivio si carica quando serve (esclusione, statistiche, validatore)."}
+                  </div>
+                  {history.status === "error" && (
+                    <div className="mt-2">
+                      <Button onClick={() => setHistory({ status: "idle" })}>
+                        Riprova
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
+                  <SectionTitle
+                    title="SuperStar"
+                    subtitle="Numero 1–90 giocato a parte su ogni schedina: le nuove sestine lo ricevono in generazione. Il validatore lo confronta con il SuperStar estratto."
+                  />
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <select
+                      value={state.settings.superstar?.mode ?? ""}
+                      onChange={(e) => {
+                        const mode = e.target.value;
+                        setState((p) => ({
+                          ...p,
+                          settings: {
+                            ...p.settings,
+                            superstar:
+                              mode === "random"
+                                ? { mode: "random" }
+                                : mode === "fixed"
+                                  ? { mode: "fixed", value: 1 }
+                                  : undefined,
+                          },
+                        }));
+                      }}
+                      className="flex-1 px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                    >
+                      <option value="">Non giocato</option>
+                      <option value="random">Casuale per ogni sestina</option>
+                      <option value="fixed">Sempre lo stesso numero</option>
+                    </select>
+                    {state.settings.superstar?.mode === "fixed" && (
+                      <select
+                        value={state.settings.superstar.value}
+                        onChange={(e) =>
+                          setState((p) => ({
+                            ...p,
+                            settings: {
+                              ...p.settings,
+                              superstar: {
+                                mode: "fixed",
+                                value: Number(e.target.value),
+                              },
+                            },
+                          }))
+                        }
+                        className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold focus:ring-2 focus:ring-emerald-200 focus:border-emerald-300"
+                      >
+                        {Array.from({ length: 90 }, (_, i) => i + 1).map(
+                          (n) => (
+                            <option key={n} value={n}>
+                              ★ {n}
+                            </option>
+                          ),
+                        )}
+                      </select>
+                    )}
+                  </div>
+                  <div className="mt-2 text-xs text-black/60">
+                    Con il seed attivo anche il SuperStar casuale si ripete. Le
+                    sestine già nei gruppi restano come sono.
+                  </div>
+                </div>
+
                 <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
                   <SectionTitle
                     title="Modalità superstizione (gimmick)"
@@ -2074,9 +3916,22 @@ export default function App() {
                   </div>
                 </div>
 
+                <div className="mt-3 rounded-3xl border border-black/10 bg-white p-4">
+                  <SectionTitle
+                    title="Audit RNG"
+                    subtitle="Verifica statistica dei generatori, con report esportabile."
+                  />
+                  <div className="mt-3">
+                    <AuditPanel />
+                  </div>
+                </div>
+
                 <div className="mt-3 text-xs text-black/60">
-                  PWA: già ok. Ricorda: offline = asset in cache + dati in
-                  localStorage.
+                  PWA: già ok. Ricorda: offline = asset in cache + dati in{" "}
+                  {storage.backend === "indexeddb"
+                    ? "IndexedDB"
+                    : "localStorage (IndexedDB non disponibile)"}
+                  .
                 </div>
               </>
             )}
@@ -2127,6 +3982,12 @@ export default function App() {
                   </div>
 
                   <div className="mt-3 flex flex-wrap gap-3 text-sm text-black/70">
+                    <span>
+                      Rank:{" "}
+                      <b className="text-black font-mono">
+                        #{validationResult.drawRank}
+                      </b>
+                    </span>
                     <span>
                       Jolly:{" "}
                       <b className="text-black">
@@ -2139,6 +4000,11 @@ export default function App() {
                         {validationResult.superstar ?? "—"}
                       </b>
                     </span>
+                    {validationResult.drawHistory && (
+                      <span className="font-bold text-amber-800">
+                        📜 {describeHistoryMatch(validationResult.drawHistory)}
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -2208,6 +4074,49 @@ export default function App() {
                     })}
                   </div>
 
+                  {validationResult.superstar !== undefined &&
+                    validationResult.starred > 0 && (
+                      <>
+                        <div className="mt-4 text-sm font-extrabold text-black/80">
+                          Categorie SuperStar ★{" "}
+                          <span className="text-xs font-bold text-black/50">
+                            ({validationResult.starred} sestine con SuperStar
+                            giocato)
+                          </span>
+                        </div>
+                        <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                          {SUPERSTAR_CATEGORIES.map((k) => {
+                            const count = validationResult.starCounts[k];
+                            const per = superstarQuota(
+                              k,
+                              estimateTicketWinEUR(
+                                parseInt(k, 10),
+                                k === "5+1★",
+                                jackpotEuro,
+                              ),
+                            );
+                            return (
+                              <div
+                                key={k}
+                                className="rounded-2xl border border-amber-200 bg-amber-50 p-3 flex items-center justify-between"
+                              >
+                                <div className="font-extrabold text-amber-900">
+                                  {k}{" "}
+                                  <span className="text-amber-900/40 font-black">
+                                    ×
+                                  </span>{" "}
+                                  {count}
+                                </div>
+                                <div className="font-black text-amber-900">
+                                  {formatEUR(count * per)}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </>
+                    )}
+
                   <div className="mt-3 rounded-2xl border border-emerald-200 bg-emerald-50 p-3 flex items-center justify-between">
                     <div className="text-sm font-extrabold text-emerald-900">
                       Totale stimato
@@ -2247,9 +4156,17 @@ export default function App() {
                               Jolly
                             </span>
                           )}
-                          {r.superstarHit && (
-                            <span className="text-xs font-black px-2 py-1 rounded-full border border-emerald-500/25 bg-emerald-500/10 text-emerald-900">
-                              SuperStar
+                          {r.superstar !== undefined && (
+                            <span
+                              className={cn(
+                                "text-xs font-black px-2 py-1 rounded-full border",
+                                r.superstarHit
+                                  ? "border-amber-300 bg-amber-100 text-amber-900"
+                                  : "border-black/10 bg-black/5 text-black/60",
+                              )}
+                            >
+                              ★ {r.superstar}
+                              {r.starCategory ? ` · ${r.starCategory}` : ""}
                             </span>
                           )}
                           {r.frozen && (
@@ -2257,8 +4174,14 @@ export default function App() {
                               Bloccata
                             </span>
                           )}
+                          {r.history && (
+                            <span className="text-xs font-black px-2 py-1 rounded-full border border-amber-300 bg-amber-50 text-amber-900">
+                              📜 {describeHistoryMatch(r.history)}
+                            </span>
+                          )}
                           <span className="text-xs text-black/55 font-mono break-all">
                             {r.key}
+                            {r.rank !== null ? ` · #${r.rank}` : ""}
                           </span>
                         </div>
 
@@ -2315,14 +4238,20 @@ export default function App() {
                     Generazione sestine — {genModal.groupName}
                   </div>
                 </div>
-                <Button
-                  variant="danger"
-                  onClick={() => {
-                    genAbortRef.current = true;
-                  }}
-                >
-                  Annulla
-                </Button>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    onClick={() => generatorRef.current?.abort(true)}
+                    disabled={genModal.done === 0}
+                  >
+                    Ferma e tieni
+                  </Button>
+                  <Button
+                    variant="danger"
+                    onClick={() => generatorRef.current?.abort(false)}
+                  >
+                    Annulla
+                  </Button>
+                </div>
               </div>
 
               <div className="mt-4">
@@ -2346,7 +4275,8 @@ export default function App() {
                   />
                 </div>
                 <div className="mt-3 text-xs text-black/60">
-                  Sto generando in blocchi per non bloccare il browser. Attendi…
+                  La generazione gira in un worker dedicato: la pagina resta
+                  reattiva. “Ferma e tieni” conserva le sestine già prodotte.
                 </div>
               </div>
             </div>
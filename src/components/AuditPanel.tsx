@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  AUDIT_FAIL_P,
+  AUDIT_SIZES,
+  AUDIT_WARN_P,
+  type AuditReport,
+  type AuditSize,
+  type AuditVerdict,
+} from "../lib/audit";
+import {
+  createAuditClient,
+  type AuditClient,
+  type AuditProgress,
+} from "../lib/auditClient";
+import { downloadTextFile } from "../lib/exporters";
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function Button({
+  children,
+  onClick,
+  disabled,
+  variant = "default",
+  className,
+}: {
+  children: React.ReactNode;
+  onClick?: () => void;
+  disabled?: boolean;
+  variant?: "default" | "primary";
+  className?: string;
+}) {
+  const styles =
+    variant === "primary"
+      ? disabled
+        ? "border-black/10 bg-black/5 text-black/40 cursor-not-allowed"
+        : "bg-emerald-600 text-white hover:bg-emerald-700 border-emerald-300 shadow-sm"
+      : disabled
+        ? "border-black/10 bg-black/5 text-black/40 cursor-not-allowed"
+        : "border-black/10 bg-white text-black/80 hover:bg-black/[0.03]";
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "px-3 py-2 rounded-2xl border font-extrabold transition select-none inline-flex items-center gap-2 justify-center active:scale-[0.99]",
+        styles,
+        className,
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+const VERDICT_STYLE: Record<AuditVerdict, string> = {
+  pass: "bg-emerald-50 text-emerald-800 border-emerald-200",
+  warn: "bg-amber-50 text-amber-800 border-amber-200",
+  fail: "bg-rose-50 text-rose-800 border-rose-200",
+};
+
+const VERDICT_LABEL: Record<AuditVerdict, string> = {
+  pass: "OK",
+  warn: "Da ricontrollare",
+  fail: "Non superato",
+};
+
+function formatP(p: number) {
+  return p < 1e-4 ? p.toExponential(1) : p.toFixed(4);
+}
+
+function randomAuditSeed() {
+  return crypto.getRandomValues(new Uint32Array(1))[0].toString(16);
+}
+
+export default function AuditPanel() {
+  const [size, setSize] = useState<AuditSize>("standard");
+  const [seed, setSeed] = useState(randomAuditSeed);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<AuditProgress | null>(null);
+  const [report, setReport] = useState<AuditReport | null>(null);
+  const [stopped, setStopped] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const clientRef = useRef<AuditClient | null>(null);
+  useEffect(() => {
+    return () => {
+      clientRef.current?.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  async function run() {
+    if (running || !seed.trim()) return;
+    clientRef.current ??= createAuditClient();
+    setRunning(true);
+    setProgress(null);
+    setError(null);
+    try {
+      const r = await clientRef.current.run(seed.trim(), size, setProgress);
+      setReport(r.report);
+      setStopped(r.stopped);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Errore durante l'audit.");
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  }
+
+  function exportReport() {
+    if (!report) return;
+    const ts = report.createdAt.replaceAll(":", "-");
+    downloadTextFile(
+      `audit_rng_${ts}.json`,
+      JSON.stringify(report, null, 2),
+      "application/json",
+    );
+  }
+
+  const { values, sestine } = AUDIT_SIZES[size];
+
+  return (
+    <div>
+      <div className="text-sm text-black/60">
+        Batteria di test statistici (frequenze, coppie, serie, correlazione
+        seriale) su ogni algoritmo RNG e sul generatore di sestine. Il calcolo
+        gira in un worker: l'app resta usabile.
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs font-bold text-black/60">
+        <label className="flex flex-col gap-1">
+          Dimensione
+          <select
+            value={size}
+            onChange={(e) => setSize(e.target.value as AuditSize)}
+            disabled={running}
+            className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+          >
+            {(Object.keys(AUDIT_SIZES) as AuditSize[]).map((s) => (
+              <option key={s} value={s}>
+                {AUDIT_SIZES[s].label} ·{" "}
+                {AUDIT_SIZES[s].values.toLocaleString("it-IT")} valori
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Seed dell'audit
+          <div className="flex gap-2">
+            <input
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              disabled={running}
+              className="min-w-0 flex-1 px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+            />
+            <Button
+              onClick={() => setSeed(randomAuditSeed())}
+              disabled={running}
+            >
+              🎲
+            </Button>
+          </div>
+        </label>
+      </div>
+
+      <div className="mt-2 text-xs text-black/60">
+        {values.toLocaleString("it-IT")} valori per RNG,{" "}
+        {sestine.toLocaleString("it-IT")} sestine. Soglie sul p-value corretto
+        di Holm, che tiene conto di quanti test si fanno: p &lt; {AUDIT_WARN_P}{" "}
+        da ricontrollare, p &lt; {AUDIT_FAIL_P} non superato. Nel dubbio ripeti
+        con un altro seed.
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Button
+          variant="primary"
+          onClick={run}
+          disabled={running || !seed.trim()}
+        >
+          {running ? "Audit in corso…" : "Avvia audit"}
+        </Button>
+        {running && (
+          <Button onClick={() => clientRef.current?.stop()}>Ferma</Button>
+        )}
+        <Button onClick={exportReport} disabled={!report || running}>
+          Esporta report JSON
+        </Button>
+      </div>
+
+      {progress && (
+        <div className="mt-3 text-xs font-bold text-black/60">
+          {progress.step + 1}/{progress.steps} · {progress.label}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded-2xl border border-rose-200 bg-rose-50 p-3 text-sm font-bold text-rose-800">
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4">
+          <div
+            className={cn(
+              "rounded-2xl border p-3 text-sm font-black",
+              VERDICT_STYLE[report.verdict],
+            )}
+          >
+            Esito complessivo: {VERDICT_LABEL[report.verdict]}
+            {stopped && " (audit fermato: risultati parziali)"}
+            <div className="text-xs font-bold opacity-70">
+              seed="{report.seed}" ·{" "}
+              {new Date(report.createdAt).toLocaleString("it-IT")}
+            </div>
+          </div>
+
+          {report.sections.map((s) => (
+            <div
+              key={s.source}
+              className="mt-3 rounded-2xl border border-black/10 p-3"
+            >
+              <div className="text-sm font-black text-black/80">{s.label}</div>
+              <div className="text-xs text-black/50">
+                {s.source} · {s.samples.toLocaleString("it-IT")} campioni
+              </div>
+              <div className="mt-2 grid gap-1">
+                {s.tests.map((t) => (
+                  <div
+                    key={t.name}
+                    className="flex items-center justify-between gap-2 text-xs"
+                  >
+                    <div className="text-black/70">
+                      {t.name}
+                      <span className="text-black/40">
+                        {" "}
+                        · {t.df !== undefined ? "χ²=" : "z="}
+                        {t.statistic.toFixed(2)}
+                        {t.df !== undefined && ` (gdl ${t.df})`}
+                      </span>
+                    </div>
+                    <span
+                      className={cn(
+                        "px-2 py-0.5 rounded-full border font-black tabular-nums",
+                        VERDICT_STYLE[t.verdict],
+                      )}
+                    >
+                      p={formatP(t.pValue)} · corretto {formatP(t.pAdjusted)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,32 @@
 import React, { useMemo, useRef, useState } from "react";
-import { newId, type AppState, type Group } from "../lib/storage";
+import {
+  defaultState,
+  newId,
+  type AppState,
+  type Group,
+  type GroupEvent,
+} from "../lib/storage";
+import { sestinaKey, sestinaRank } from "../lib/sestine";
+import { SESTINE_FILE_EXTENSION, decodeStateFile } from "../lib/binaryCodec";
+import { verifyGroupCommitment } from "../lib/commitment";
+import {
+  appendEvent,
+  verifyChain,
+  verifyRawChain,
+  type ChainStatus,
+} from "../lib/eventChain";
+import {
+  describeMigration,
+  migrateState,
+  schemaVersion,
+  type MigrationReport,
+} from "../lib/migrations";
+import {
+  describeValidation,
+  isCleanReport,
+  validateState,
+  type ValidationReport,
+} from "../lib/validateState";
 import { createPortal } from "react-dom";
 
 type Sestina = {
@@ -7,6 +34,7 @@ type Sestina = {
   nums: number[];
   createdAt: string;
   frozen: boolean;
+  superstar?: number;
   meta?: any;
 };
 
@@ -23,6 +51,16 @@ type ImportReport = {
   renamedGroups: number;
   duplicateCases: number;
   incomingInternalDuplicates: number;
+  // gruppi del file con un commit "pronto da giocare"
+  commitsOk: number;
+  commitsBroken: string[];
+  // catena degli eventi (gruppi senza catena non contati)
+  chainsIntact: number;
+  chainsBroken: string[];
+  // file di uno schema precedente, aggiornato prima dell'import
+  migration: MigrationReport | null;
+  // riparazioni e quarantena sul contenuto del file (solo stati dell'app)
+  repair: ValidationReport | null;
 };
 
 type ExistingRef = {
@@ -39,14 +77,69 @@ type IncomingRef = {
 
 type DuplicateAction = "skip" | "allow" | "move" | "mark";
 
+// campi della sestina che l'import conserva oltre ai numeri
+type CarriedFields = Pick<Sestina, "superstar" | "meta"> & {
+  frozen?: boolean;
+  createdAt?: string;
+};
+
+type PendingItem = {
+  nums: number[];
+  sig: string;
+  rank: number;
+} & CarriedFields;
+
 type DuplicateCase = {
   sig: string;
+  rank: number;
   nums: number[];
   existing: ExistingRef[];
   incoming: IncomingRef[];
   action: DuplicateAction;
 };
 
+function carriedFields(
+  it: {
+    superstar?: unknown;
+    frozen?: unknown;
+    meta?: unknown;
+    createdAt?: unknown;
+  } | null,
+): CarriedFields {
+  const out: CarriedFields = {};
+  const star = it?.superstar;
+  if (
+    typeof star === "number" &&
+    Number.isInteger(star) &&
+    star >= 1 &&
+    star <= 90
+  )
+    out.superstar = star;
+  if (typeof it?.frozen === "boolean") out.frozen = it.frozen;
+  if (it?.meta && typeof it.meta === "object" && !Array.isArray(it.meta))
+    out.meta = it.meta;
+  // solo un ISO canonico (quello di toISOString): data e ordine restano
+  const at = it?.createdAt;
+  if (typeof at === "string") {
+    const ms = Date.parse(at);
+    if (Number.isFinite(ms) && new Date(ms).toISOString() === at)
+      out.createdAt = at;
+  }
+  return out;
+}
+
+function importedSestina(it: PendingItem, meta?: Sestina["meta"]): Sestina {
+  const s: Sestina = {
+    key: sestinaKey(it.nums),
+    nums: it.nums,
+    frozen: it.frozen ?? false,
+    createdAt: it.createdAt ?? new Date().toISOString(),
+  };
+  if (it.superstar !== undefined) s.superstar = it.superstar;
+  if (it.meta || meta) s.meta = { ...it.meta, ...meta };
+  return s;
+}
+
 function cn(...xs: Array<string | false | null | undefined>) {
   return xs.filter(Boolean).join(" ");
 }
@@ -205,25 +298,27 @@ export default function ImportPanel({
   const [pendingGroups, setPendingGroups] = useState<Group[] | null>(null);
   const [pendingSestineByGroup, setPendingSestineByGroup] = useState<Map<
     string,
-    { nums: number[]; sig: string }[]
+    PendingItem[]
   > | null>(null);
 
   const [report, setReport] = useState<ImportReport | null>(null);
+  // file rifiutato (formato, schema più recente, niente da importare)
+  const [failure, setFailure] = useState<string | null>(null);
 
   const [dupCases, setDupCases] = useState<DuplicateCase[] | null>(null);
   const [showDupModal, setShowDupModal] = useState(false);
 
-  const existingSigIndex = useMemo(() => {
-    // sig -> list of refs (potrebbero già esserci duplicati nel tuo dataset, li supportiamo)
-    const map = new Map<string, ExistingRef[]>();
+  const existingRankIndex = useMemo(() => {
+    // rank -> list of refs (potrebbero già esserci duplicati nel tuo dataset, li supportiamo)
+    const map = new Map<number, ExistingRef[]>();
     for (const g of state.groups) {
       for (const s of g.sestine as any[]) {
         const nums = normalizeNums((s?.nums ?? []) as number[]);
         if (nums.length !== 6) continue;
-        const sig = sigFromNums(nums);
-        const arr = map.get(sig) ?? [];
+        const rank = sestinaRank(nums);
+        const arr = map.get(rank) ?? [];
         arr.push({ groupId: g.id, groupName: g.name, key: String(s.key) });
-        map.set(sig, arr);
+        map.set(rank, arr);
       }
     }
     return map;
@@ -235,6 +330,7 @@ export default function ImportPanel({
     setDupCases(null);
     setShowDupModal(false);
     setReport(null);
+    setFailure(null);
   }
 
   async function handleFile(file: File) {
@@ -245,20 +341,69 @@ export default function ImportPanel({
       const text = await file.text();
       const ext = (file.name.split(".").pop() || "").toLowerCase();
 
-      let extracted: { groupName: string; nums: number[] }[] = [];
+      let extracted: ({
+        groupName: string;
+        nums: number[];
+        // gruppo di provenienza nel file: due gruppi con lo stesso nome restano
+        // separati (e con loro le catene). Senza, si raggruppa per nome (CSV)
+        source?: string;
+      } & CarriedFields)[] = [];
       let invalid = 0;
+      // eventi dei gruppi in formato app, per gruppo di provenienza: la
+      // timeline (e i commit) restano
+      const incomingEvents = new Map<string, GroupEvent[]>();
+      let commitsOk = 0;
+      const commitsBroken: string[] = [];
+      let chainsIntact = 0;
+      const chainsBroken: string[] = [];
+      let migration: MigrationReport | null = null;
+      let repair: ValidationReport | null = null;
 
       if (ext === "csv") {
         const parsed = tryParseCSV(text);
         invalid = parsed.invalid;
         extracted = parsed.groups;
       } else {
-        // JSON
+        // JSON, oppure .sestine (stesso stato, in binario)
+        const binary = ext === SESTINE_FILE_EXTENSION;
         let obj: any;
         try {
-          obj = JSON.parse(text);
-        } catch {
-          throw new Error("JSON non valido.");
+          obj = binary
+            ? decodeStateFile(new Uint8Array(await file.arrayBuffer()))
+            : JSON.parse(text);
+        } catch (e) {
+          throw new Error(
+            binary
+              ? `File .sestine non valido: ${e instanceof Error ? e.message : e}`
+              : "JSON non valido.",
+          );
+        }
+
+        // stato esportato (anche da versioni vecchie): stesse migrazioni del
+        // caricamento; lancia se il file viene da una versione più recente
+        const source =
+          obj && !Array.isArray(obj) && !obj.groups && obj.state
+            ? obj.state
+            : obj;
+        // catene verificate sul file così com'è: la riparazione riordina e
+        // aggiunge un evento, e non deve far passare per integra una modifica
+        // fatta fuori dall'app. Migrazione e validazione tengono l'ordine dei
+        // gruppi leggibili, quindi l'indice resta allineato.
+        let rawChains: ChainStatus[] | null = null;
+        if (schemaVersion(source) !== null) {
+          rawChains = extractGroupsFromJson(source)
+            .groups.filter(
+              (g) => g && typeof g === "object" && !Array.isArray(g),
+            )
+            .map(verifyRawChain);
+          const migrated = migrateState(source);
+          if (migrated.report.steps.length) migration = migrated.report;
+          const checked = validateState(migrated.state, {
+            defaults: defaultState().settings,
+            newGroupId: () => newId("group"),
+          });
+          obj = checked.state;
+          if (!isCleanReport(checked.report)) repair = checked.report;
         }
 
         const { groups } = extractGroupsFromJson(obj);
@@ -270,18 +415,43 @@ export default function ImportPanel({
         // Supporta:
         // - gruppi in formato app (con g.sestine)
         // - oppure {name, nums[]} custom
-        const tmp: {
-          groupName: string;
-          nums: number[];
-          sourceGroupName?: string;
-        }[] = [];
-        for (const g of groups) {
+        const tmp: typeof extracted = [];
+        for (const [gi, g] of groups.entries()) {
           const gName = String(g?.name ?? "Import");
+          const source = `json:${gi}`;
           const list = Array.isArray(g?.sestine)
             ? g.sestine
             : Array.isArray(g?.items)
               ? g.items
               : [];
+          const events = Array.isArray(g?.events)
+            ? g.events.filter(
+                (ev: { type?: unknown; at?: unknown } | null) =>
+                  typeof ev?.type === "string" && typeof ev?.at === "string",
+              )
+            : [];
+          if (events.length > 0) {
+            incomingEvents.set(source, events);
+            // verifiche sul contenuto del file, prima di duplicati e spostamenti
+            const incoming = {
+              events,
+              sestine: Array.isArray(list)
+                ? list.map(
+                    (it: { nums?: number[]; superstar?: number } | null) => ({
+                      nums: normalizeNums(it?.nums ?? []),
+                      superstar: it?.superstar,
+                    }),
+                  )
+                : [],
+            };
+            const check = verifyGroupCommitment(incoming);
+            if (check.status === "ok") commitsOk++;
+            else if (check.status === "changed") commitsBroken.push(gName);
+            const chain = rawChains?.[gi] ?? verifyChain(incoming);
+            if (chain.status === "intact") chainsIntact++;
+            else if (chain.status === "broken") chainsBroken.push(gName);
+          }
+
           if (Array.isArray(list) && list.length > 0) {
             for (const it of list) {
               const nums = normalizeNums(
@@ -291,25 +461,33 @@ export default function ImportPanel({
                 invalid++;
                 continue;
               }
-              tmp.push({ groupName: gName, nums, sourceGroupName: gName });
+              tmp.push({
+                groupName: gName,
+                nums,
+                source,
+                ...carriedFields(it),
+              });
             }
           } else if (Array.isArray(g?.nums)) {
             // singolo gruppo con nums? (raro)
             const nums = normalizeNums(g.nums);
             if (nums.length !== 6) invalid++;
-            else tmp.push({ groupName: gName, nums, sourceGroupName: gName });
+            else tmp.push({ groupName: gName, nums, source });
           }
         }
 
-        extracted = tmp.map((x) => ({ groupName: x.groupName, nums: x.nums }));
+        extracted = tmp;
       }
 
       if (extracted.length === 0) {
         throw new Error("Nessuna sestina importabile trovata nel file.");
       }
 
-      // raggruppa per groupName
-      const byName = new Map<string, { nums: number[]; sig: string }[]>();
+      // raggruppa per gruppo di provenienza (o per nome, se manca)
+      const bySource = new Map<
+        string,
+        { name: string; items: PendingItem[] }
+      >();
       for (const row of extracted) {
         const norm = normalizeNums(row.nums);
         if (norm.length !== 6) {
@@ -317,25 +495,37 @@ export default function ImportPanel({
           continue;
         }
         const sig = sigFromNums(norm);
-        const arr = byName.get(row.groupName) ?? [];
-        arr.push({ nums: norm, sig });
-        byName.set(row.groupName, arr);
+        const source = row.source ?? `name:${row.groupName}`;
+        const entry = bySource.get(source) ?? {
+          name: row.groupName,
+          items: [],
+        };
+        entry.items.push({
+          nums: norm,
+          sig,
+          rank: sestinaRank(norm),
+          superstar: row.superstar,
+          frozen: row.frozen,
+          meta: row.meta,
+          createdAt: row.createdAt,
+        });
+        bySource.set(source, entry);
       }
 
-      // dedupe interno al file: se lo stesso sig appare più volte, tienine 1 (reportiamo quanti scartati)
+      // dedupe interno al file: se lo stesso rank appare più volte, tienine 1 (reportiamo quanti scartati)
       let incomingInternalDuplicates = 0;
-      for (const [name, arr] of byName) {
-        const seen = new Set<string>();
-        const out: typeof arr = [];
-        for (const x of arr) {
-          if (seen.has(x.sig)) {
+      for (const entry of bySource.values()) {
+        const seen = new Set<number>();
+        const out: PendingItem[] = [];
+        for (const x of entry.items) {
+          if (seen.has(x.rank)) {
             incomingInternalDuplicates++;
             continue;
           }
-          seen.add(x.sig);
+          seen.add(x.rank);
           out.push(x);
         }
-        byName.set(name, out);
+        entry.items = out;
       }
 
       // prepara pendingGroups con nomi unici
@@ -343,9 +533,9 @@ export default function ImportPanel({
       let renamedGroups = 0;
 
       const groupsToCreate: Group[] = [];
-      const pending = new Map<string, { nums: number[]; sig: string }[]>();
+      const pending = new Map<string, PendingItem[]>();
 
-      for (const [incomingName, items] of byName) {
+      for (const [source, { name: incomingName, items }] of bySource) {
         const { finalName, renamed } = ensureUniqueGroupName(
           incomingName,
           existingNames,
@@ -359,7 +549,7 @@ export default function ImportPanel({
           name: finalName,
           createdAt: new Date().toISOString(),
           sestine: [],
-          events: [],
+          events: incomingEvents.get(source) ?? [],
         } as any);
 
         pending.set(gid, items);
@@ -369,20 +559,21 @@ export default function ImportPanel({
       setPendingSestineByGroup(pending);
 
       // costruisci duplicate cases
-      const dupMap = new Map<string, DuplicateCase>();
+      const dupMap = new Map<number, DuplicateCase>();
       let totalIncoming = 0;
 
       for (const g of groupsToCreate) {
         const items = pending.get(g.id) ?? [];
         for (const it of items) {
           totalIncoming++;
-          const existing = existingSigIndex.get(it.sig);
+          const existing = existingRankIndex.get(it.rank);
           if (!existing || existing.length === 0) continue;
 
-          const prev = dupMap.get(it.sig);
+          const prev = dupMap.get(it.rank);
           if (!prev) {
-            dupMap.set(it.sig, {
+            dupMap.set(it.rank, {
               sig: it.sig,
+              rank: it.rank,
               nums: it.nums,
               existing,
               incoming: [{ groupName: g.name, tempId: `${g.id}:${it.sig}` }],
@@ -410,6 +601,12 @@ export default function ImportPanel({
         renamedGroups,
         duplicateCases: dupCasesArr.length,
         incomingInternalDuplicates,
+        commitsOk,
+        commitsBroken,
+        chainsIntact,
+        chainsBroken,
+        migration,
+        repair,
       });
 
       if (dupCasesArr.length > 0) {
@@ -420,8 +617,17 @@ export default function ImportPanel({
           skippedInvalid: invalid,
           renamedGroups,
           incomingInternalDuplicates,
+          commitsOk,
+          commitsBroken,
+          chainsIntact,
+          chainsBroken,
+          migration,
+          repair,
         });
       }
+    } catch (e) {
+      resetInternal();
+      setFailure(e instanceof Error ? e.message : "Import non riuscito.");
     } finally {
       setLoading(false);
       if (fileRef.current) fileRef.current.value = "";
@@ -430,18 +636,24 @@ export default function ImportPanel({
 
   function applyImport(
     groupsToCreate: Group[],
-    pending: Map<string, { nums: number[]; sig: string }[]>,
+    pending: Map<string, PendingItem[]>,
     dupCasesResolved: DuplicateCase[],
     importMode: ImportMode,
     carry: {
       skippedInvalid: number;
       renamedGroups: number;
       incomingInternalDuplicates: number;
+      commitsOk: number;
+      commitsBroken: string[];
+      chainsIntact: number;
+      chainsBroken: string[];
+      migration: MigrationReport | null;
+      repair: ValidationReport | null;
     },
   ) {
-    // prepara decisioni per sig
-    const actionBySig = new Map<string, DuplicateAction>();
-    for (const c of dupCasesResolved) actionBySig.set(c.sig, c.action);
+    // prepara decisioni per rank
+    const actionByRank = new Map<number, DuplicateAction>();
+    for (const c of dupCasesResolved) actionByRank.set(c.rank, c.action);
 
     const finalReport: ImportReport = {
       importedGroups: groupsToCreate.length,
@@ -454,6 +666,12 @@ export default function ImportPanel({
       renamedGroups: carry.renamedGroups,
       duplicateCases: dupCasesResolved.length,
       incomingInternalDuplicates: carry.incomingInternalDuplicates,
+      commitsOk: carry.commitsOk,
+      commitsBroken: carry.commitsBroken,
+      chainsIntact: carry.chainsIntact,
+      chainsBroken: carry.chainsBroken,
+      migration: carry.migration,
+      repair: carry.repair,
     };
 
     // build new groups with sestine
@@ -463,10 +681,10 @@ export default function ImportPanel({
     let movedDuplicates = 0;
     let markedDuplicates = 0;
 
-    // per "move": dobbiamo rimuovere dai gruppi esistenti qualsiasi sestina con quella signature
-    const sigToMove = new Set<string>();
+    // per "move": dobbiamo rimuovere dai gruppi esistenti qualsiasi sestina con quel rank
+    const rankToMove = new Set<number>();
     for (const c of dupCasesResolved)
-      if (c.action === "move") sigToMove.add(c.sig);
+      if (c.action === "move") rankToMove.add(c.rank);
 
     setState((prev) => {
       let baseGroups = prev.groups;
@@ -475,39 +693,39 @@ export default function ImportPanel({
         baseGroups = []; // wipe
       } else {
         // merge: se move attivo, puliamo i vecchi gruppi
-        if (sigToMove.size > 0) {
+        if (rankToMove.size > 0) {
           baseGroups = baseGroups.map((g) => {
             const kept = (g.sestine as any[]).filter((s) => {
               const nums = normalizeNums((s?.nums ?? []) as number[]);
               if (nums.length !== 6) return true;
-              const sig = sigFromNums(nums);
-              return !sigToMove.has(sig);
+              return !rankToMove.has(sestinaRank(nums));
             });
-            return { ...g, sestine: kept } as any;
+            const moved = g.sestine.length - kept.length;
+            if (moved === 0) return g;
+            // anche i gruppi esistenti registrano la perdita: catena intatta
+            return appendEvent(
+              { ...g, sestine: kept },
+              {
+                type: "edit",
+                at: new Date().toISOString(),
+                action: "moveOut",
+                count: moved,
+              },
+            );
           });
         }
       }
 
-      const existingKeys = new Set<string>();
-      for (const g of baseGroups)
-        for (const s of g.sestine as any[]) existingKeys.add(String(s.key));
-
       // build created groups
       const createdGroups: Group[] = groupsToCreate.map((g) => {
         const items = pending.get(g.id) ?? [];
         const sestine: Sestina[] = [];
 
         for (const it of items) {
-          const act = actionBySig.get(it.sig);
+          const act = actionByRank.get(it.rank);
           if (!act) {
             // non duplicato
-            const key = uniqueKey(existingKeys);
-            sestine.push({
-              key,
-              nums: it.nums,
-              frozen: false,
-              createdAt: new Date().toISOString(),
-            });
+            sestine.push(importedSestina(it));
             importedSestine++;
             continue;
           }
@@ -518,42 +736,31 @@ export default function ImportPanel({
           }
 
           if (act === "allow") {
-            const key = uniqueKey(existingKeys);
-            sestine.push({
-              key,
-              nums: it.nums,
-              frozen: false,
-              createdAt: new Date().toISOString(),
-              meta: { ...(undefined as any), importDuplicate: true },
-            });
+            sestine.push(importedSestina(it, { importDuplicate: true }));
             importedSestine++;
             allowedDuplicates++;
             continue;
           }
 
           if (act === "mark") {
-            const key = uniqueKey(existingKeys);
-            sestine.push({
-              key,
-              nums: it.nums,
-              frozen: false,
-              createdAt: new Date().toISOString(),
-              meta: { importDuplicate: true, duplicateOf: it.sig },
-            });
+            sestine.push(
+              importedSestina(it, {
+                importDuplicate: true,
+                duplicateOf: it.sig,
+              }),
+            );
             importedSestine++;
             markedDuplicates++;
             continue;
           }
 
           if (act === "move") {
-            const key = uniqueKey(existingKeys);
-            sestine.push({
-              key,
-              nums: it.nums,
-              frozen: false,
-              createdAt: new Date().toISOString(),
-              meta: { movedFromOtherGroup: true, duplicateOf: it.sig },
-            });
+            sestine.push(
+              importedSestina(it, {
+                movedFromOtherGroup: true,
+                duplicateOf: it.sig,
+              }),
+            );
             importedSestine++;
             movedDuplicates++;
             continue;
@@ -567,11 +774,7 @@ export default function ImportPanel({
           mode: importMode,
         };
 
-        return {
-          ...(g as any),
-          sestine,
-          events: [ev, ...(g as any).events],
-        } as any;
+        return appendEvent({ ...g, sestine }, ev);
       });
       // aggiorna report finale coi contatori calcolati
       finalReport.importedGroups = createdGroups.length;
@@ -601,13 +804,6 @@ export default function ImportPanel({
     if (groupsToCreate[0]?.id) onAfterImport?.(groupsToCreate[0].id);
   }
 
-  function uniqueKey(existingKeys: Set<string>) {
-    let k = newId("sestina");
-    while (existingKeys.has(k)) k = newId("sestina");
-    existingKeys.add(k);
-    return k;
-  }
-
   function setAllActions(action: DuplicateAction) {
     if (!dupCases) return;
     setDupCases(dupCases.map((c) => ({ ...c, action })));
@@ -630,15 +826,15 @@ export default function ImportPanel({
         <div>
           <div className="text-lg font-black">Import</div>
           <div className="text-sm text-black/60 mt-1">
-            Importa JSON (export app) o CSV (groupName,n1..n6). Gestiamo
-            duplicati con una schermata di risoluzione.
+            Importa JSON o .sestine (export app) o CSV (groupName,n1..n6).
+            Gestiamo duplicati con una schermata di risoluzione.
           </div>
         </div>
         
         <input
           ref={fileRef}
           type="file"
-          accept=".json,.csv,application/json,text/csv"
+          accept=".json,.csv,.sestine,application/json,text/csv"
           className="hidden"
           onChange={(e) => {
             const f = e.target.files?.[0];
@@ -682,6 +878,12 @@ export default function ImportPanel({
         </button>
       </div>
 
+      {failure && (
+        <div className="mt-4 rounded-2xl border border-red-200 bg-red-50 p-3 text-sm font-bold text-red-800">
+          ⛔ Import non riuscito: {failure}
+        </div>
+      )}
+
       {report && (
         <div className="mt-4 rounded-2xl border border-black/10 bg-neutral-50 p-3 text-sm text-black/80">
           <div className="font-extrabold">Riepilogo import (preview)</div>
@@ -713,6 +915,49 @@ export default function ImportPanel({
                 : ""}
             </div>
           </div>
+          {(report.commitsOk > 0 ||
+            report.commitsBroken.length > 0 ||
+            report.chainsIntact > 0 ||
+            report.chainsBroken.length > 0 ||
+            report.migration ||
+            report.repair) && (
+            <div className="mt-2 flex flex-col gap-1 text-xs font-bold">
+              {report.commitsOk > 0 && (
+                <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-2 py-1 text-emerald-900">
+                  🔒 Commit verificati: {report.commitsOk} (sestine identiche a
+                  quelle impegnate)
+                </div>
+              )}
+              {report.commitsBroken.length > 0 && (
+                <div className="rounded-xl border border-red-200 bg-red-50 px-2 py-1 text-red-800">
+                  ⛔ Commit NON corrispondente: {report.commitsBroken.join(", ")}
+                </div>
+              )}
+              {report.chainsIntact > 0 && (
+                <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-2 py-1 text-emerald-900">
+                  🔗 Timeline integre: {report.chainsIntact}
+                </div>
+              )}
+              {report.chainsBroken.length > 0 && (
+                <div className="rounded-xl border border-red-200 bg-red-50 px-2 py-1 text-red-800">
+                  ⛔ Timeline manomessa: {report.chainsBroken.join(", ")}
+                </div>
+              )}
+              {report.migration && (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 px-2 py-1 text-amber-900">
+                  🔄 File aggiornato dallo schema v{report.migration.from} alla
+                  v{report.migration.to}:{" "}
+                  {describeMigration(report.migration).join(" · ")}
+                </div>
+              )}
+              {report.repair && (
+                <div className="rounded-xl border border-amber-200 bg-amber-50 px-2 py-1 text-amber-900">
+                  🩹 File riparato:{" "}
+                  {describeValidation(report.repair).join(" · ")}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -778,14 +1023,14 @@ export default function ImportPanel({
           <div className="mt-4 flex flex-col gap-3">
             {previewDupCases.map((c) => (
               <div
-                key={c.sig}
+                key={c.rank}
                 className="rounded-2xl border border-black/10 bg-white p-3"
               >
                 <div className="flex flex-wrap items-center justify-between gap-2">
                   <div className="text-sm font-black">
                     {c.nums.join(" ")}
                     <span className="ml-2 text-xs text-black/50 font-mono">
-                      sig: {c.sig}
+                      sig: {c.sig} · #{c.rank}
                     </span>
                   </div>
 
@@ -796,7 +1041,7 @@ export default function ImportPanel({
                       setDupCases((prev) =>
                         prev
                           ? prev.map((x) =>
-                              x.sig === c.sig ? { ...x, action: v } : x,
+                              x.rank === c.rank ? { ...x, action: v } : x,
                             )
                           : prev,
                       );
@@ -868,6 +1113,12 @@ export default function ImportPanel({
                     renamedGroups: report?.renamedGroups ?? 0,
                     incomingInternalDuplicates:
                       report?.incomingInternalDuplicates ?? 0,
+                    commitsOk: report?.commitsOk ?? 0,
+                    commitsBroken: report?.commitsBroken ?? [],
+                    chainsIntact: report?.chainsIntact ?? 0,
+                    chainsBroken: report?.chainsBroken ?? [],
+                    migration: report?.migration ?? null,
+                    repair: report?.repair ?? null,
                   },
                 );
               }}
@@ -0,0 +1,211 @@
+import React, { useState } from "react";
+import { MAX_SHARED_OPTIONS, type OverlapReport } from "../lib/distance";
+import { analyzeOverlapInWorker } from "../lib/overlapClient";
+import type { Group } from "../lib/storage";
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function Button({
+  children,
+  onClick,
+  disabled,
+}: {
+  children: React.ReactNode;
+  onClick?: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "px-3 py-2 rounded-2xl border font-extrabold transition select-none inline-flex items-center gap-2 justify-center active:scale-[0.99]",
+        disabled
+          ? "border-black/10 bg-black/5 text-black/40 cursor-not-allowed"
+          : "border-black/10 bg-white text-black/80 hover:bg-black/[0.03]",
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Summary({ report }: { report: OverlapReport }) {
+  const ok = report.maxShared === null;
+  return (
+    <span
+      className={cn("font-black", ok ? "text-emerald-700" : "text-rose-700")}
+    >
+      {ok
+        ? `nessuna coppia con più di ${report.limit} in comune`
+        : `max ${report.maxShared} in comune · ${report.offending.toLocaleString("it-IT")} coppie oltre ${report.limit}`}
+    </span>
+  );
+}
+
+export default function OverlapPanel({
+  groups,
+  selectedGroupId,
+  maxShared,
+}: {
+  groups: Group[];
+  selectedGroupId: string | null;
+  // limite impostato per la generazione, se c'è
+  maxShared?: number;
+}) {
+  const [limit, setLimit] = useState<number>(maxShared ?? 3);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // risultato legato alle sestine analizzate: se il gruppo cambia non si mostra
+  const [single, setSingle] = useState<{
+    sestine: Group["sestine"];
+    report: OverlapReport;
+  } | null>(null);
+  const [all, setAll] = useState<Array<{
+    id: string;
+    name: string;
+    report: OverlapReport;
+  }> | null>(null);
+
+  const selected = groups.find((g) => g.id === selectedGroupId) ?? null;
+  const report =
+    selected && single?.sestine === selected.sestine ? single.report : null;
+
+  async function analyze(task: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Errore nell'analisi.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function analyzeSelected() {
+    if (!selected) return;
+    const sestine = selected.sestine;
+    void analyze(async () => {
+      const report = await analyzeOverlapInWorker(sestine, limit);
+      setSingle({ sestine, report });
+    });
+  }
+
+  function analyzeAll() {
+    const snapshot = groups.map((g) => ({
+      id: g.id,
+      name: g.name,
+      sestine: g.sestine,
+    }));
+    void analyze(async () => {
+      const out: NonNullable<typeof all> = [];
+      for (const g of snapshot)
+        out.push({
+          id: g.id,
+          name: g.name,
+          report: await analyzeOverlapInWorker(g.sestine, limit, 0),
+        });
+      setAll(out);
+    });
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 text-sm font-bold text-black/70">
+        Limite: al massimo
+        <select
+          value={limit}
+          onChange={(e) => {
+            setLimit(Number(e.target.value));
+            setSingle(null);
+            setAll(null);
+          }}
+          className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+        >
+          {MAX_SHARED_OPTIONS.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+        numeri in comune tra due sestine
+      </div>
+
+      {selected && report && (
+        <div className="mt-3 rounded-2xl border border-black/10 p-3">
+          <div className="text-sm">
+            <span className="font-black text-black/80">{selected.name}</span>
+            <span className="text-black/40">
+              {" "}
+              · {report.sestine.toLocaleString("it-IT")} sestine ·{" "}
+            </span>
+            <Summary report={report} />
+          </div>
+          {report.pairs.length > 0 && (
+            <div className="mt-2 grid gap-1 text-xs">
+              {report.pairs.map((p, i) => (
+                <div key={i} className="tabular-nums text-black/70">
+                  {p.a.join("-")} ↔ {p.b.join("-")}
+                  <span className="font-black text-rose-700">
+                    {" "}
+                    · {p.shared.length} in comune ({p.shared.join(", ")})
+                  </span>
+                </div>
+              ))}
+              {report.offending > report.pairs.length && (
+                <div className="text-black/50">
+                  … e altre{" "}
+                  {(report.offending - report.pairs.length).toLocaleString(
+                    "it-IT",
+                  )}{" "}
+                  coppie.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Button onClick={analyzeSelected} disabled={busy || !selected}>
+          Analizza il gruppo selezionato
+        </Button>
+        <Button onClick={analyzeAll} disabled={busy || groups.length === 0}>
+          Analizza tutti i gruppi
+        </Button>
+        {busy && (
+          <span className="self-center text-sm font-bold text-black/50">
+            Analisi in corso…
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 text-sm font-bold text-rose-700">{error}</div>
+      )}
+
+      {all && (
+        <div className="mt-3 grid gap-1 text-sm">
+          {all.map((x) => (
+            <div
+              key={x.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-black/10 px-3 py-2"
+            >
+              <span className="font-bold text-black/80">
+                {x.name}
+                <span className="text-black/40">
+                  {" "}
+                  · {x.report.sestine.toLocaleString("it-IT")} sestine
+                </span>
+              </span>
+              <Summary report={x.report} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
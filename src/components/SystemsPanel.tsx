@@ -0,0 +1,892 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { MAX_NUM, MIN_NUM, sestinaRank } from "../lib/sestine";
+import {
+  GUARANTEE_POOL_MAX,
+  guaranteeStatement,
+  type Guarantee,
+  type GuaranteeReport,
+} from "../lib/covering";
+import {
+  createSystemsClient,
+  type ReducedResult,
+  type SystemsClient,
+  type SystemsProgress,
+} from "../lib/systemsClient";
+import {
+  SYSTEM_POOL_MAX,
+  SYSTEM_POOL_MIN,
+  expandFullSystem,
+  findSystemCollisions,
+  systemCostEuro,
+  systemTicketCount,
+} from "../lib/systems";
+import {
+  BASES_MAX,
+  BASES_TICKETS_MAX,
+  basesCombinations,
+  basesTicketLimit,
+  buildBasesSystem,
+  rotationUsage,
+} from "../lib/bases";
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function Button({
+  children,
+  onClick,
+  disabled,
+  variant = "default",
+  className,
+}: {
+  children: React.ReactNode;
+  onClick?: () => void;
+  disabled?: boolean;
+  variant?: "default" | "primary";
+  className?: string;
+}) {
+  const styles =
+    variant === "primary"
+      ? disabled
+        ? "border-black/10 bg-black/5 text-black/40 cursor-not-allowed"
+        : "bg-emerald-600 text-white hover:bg-emerald-700 border-emerald-300 shadow-sm"
+      : disabled
+        ? "border-black/10 bg-black/5 text-black/40 cursor-not-allowed"
+        : "border-black/10 bg-white text-black/80 hover:bg-black/[0.03]";
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "px-3 py-2 rounded-2xl border font-extrabold transition select-none inline-flex items-center gap-2 justify-center active:scale-[0.99]",
+        styles,
+        className,
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function formatEuro(n: number) {
+  return n.toLocaleString("it-IT", { style: "currency", currency: "EUR" });
+}
+
+const SEARCH_TIMES = [
+  { ms: 2000, label: "2 s" },
+  { ms: 5000, label: "5 s" },
+  { ms: 15000, label: "15 s" },
+  { ms: 60000, label: "1 min" },
+];
+
+type AuditGroup = {
+  id: string;
+  name: string;
+  sestine: { nums: number[] }[];
+};
+
+export default function SystemsPanel({
+  groups,
+  defaultGroupId,
+  groupName,
+  existingRanks,
+  onCreate,
+  onCreateReduced,
+  onCreateBases,
+}: {
+  groups: AuditGroup[];
+  defaultGroupId: string | null;
+  groupName: string | null;
+  existingRanks: Set<number>;
+  onCreate: (pool: number[]) => void;
+  onCreateReduced: (
+    pool: number[],
+    guarantee: Guarantee,
+    result: ReducedResult,
+  ) => void;
+  onCreateBases: (bases: number[], pool: number[], count: number) => void;
+}) {
+  const [pool, setPool] = useState<number[]>([]);
+  const [mode, setMode] = useState<"full" | "reduced" | "verify" | "bases">(
+    "full",
+  );
+  const [guarantee, setGuarantee] = useState<Guarantee>({
+    condition: 6,
+    atLeast: 4,
+  });
+  const [timeMs, setTimeMs] = useState(5000);
+  const [searching, setSearching] = useState(false);
+  const [progress, setProgress] = useState<SystemsProgress | null>(null);
+  const [result, setResult] = useState<ReducedResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const clientRef = useRef<SystemsClient | null>(null);
+  useEffect(() => {
+    return () => {
+      clientRef.current?.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  // il risultato vale solo per il pool e la garanzia con cui è stato cercato
+  const [resultFor, setResultFor] = useState<string>("");
+  const searchKey = `${pool.join(",")}|${guarantee.condition}|${guarantee.atLeast}`;
+  const currentResult = resultFor === searchKey ? result : null;
+
+  // verifica garanzia
+  const [auditGroupId, setAuditGroupId] = useState<string | null>(
+    defaultGroupId,
+  );
+  const [auditK, setAuditK] = useState(6);
+  const [auditAtLeast, setAuditAtLeast] = useState<number | null>(null);
+  const [report, setReport] = useState<GuaranteeReport | null>(null);
+
+  // basi fisse: la griglia sceglie le basi o il pool che ruota
+  const [bases, setBases] = useState<number[]>([]);
+  const [picking, setPicking] = useState<"bases" | "pool">("bases");
+  const [basesCount, setBasesCount] = useState(10);
+
+  const auditGroup =
+    groups.find((g) => g.id === auditGroupId) ?? groups[0] ?? null;
+
+  const poolMax = mode === "verify" ? GUARANTEE_POOL_MAX : SYSTEM_POOL_MAX;
+  const inRange =
+    pool.length >= SYSTEM_POOL_MIN && pool.length <= SYSTEM_POOL_MAX;
+  const tickets = systemTicketCount(pool.length);
+
+  // anteprima: sestine del sistema già presenti in qualche gruppo
+  const collisions = useMemo(() => {
+    if (!inRange) return [];
+    return findSystemCollisions(expandFullSystem(pool), existingRanks);
+  }, [pool, inRange, existingRanks]);
+
+  // anteprima dello schema (stesso calcolo fatto alla creazione)
+  const basesPreview = useMemo(() => {
+    if (mode !== "bases") return null;
+    try {
+      const layout = buildBasesSystem(bases, pool, basesCount, existingRanks);
+      return { layout, usage: rotationUsage(layout), error: null };
+    } catch (e) {
+      return {
+        layout: null,
+        usage: null,
+        error: e instanceof Error ? e.message : "Schema non valido.",
+      };
+    }
+  }, [mode, bases, pool, basesCount, existingRanks]);
+  const basesLimit =
+    bases.length > 0 ? basesTicketLimit(bases.length, pool.length) : 0;
+  const basesCombos =
+    bases.length > 0 ? basesCombinations(bases.length, pool.length) : 0;
+
+  function toggle(n: number) {
+    if (mode === "bases" && picking === "bases") {
+      setPool((p) => p.filter((x) => x !== n));
+      setBases((b) =>
+        b.includes(n)
+          ? b.filter((x) => x !== n)
+          : b.length >= BASES_MAX
+            ? b
+            : [...b, n].sort((a, b) => a - b),
+      );
+      return;
+    }
+    if (mode === "bases") setBases((b) => b.filter((x) => x !== n));
+    setPool((p) =>
+      p.includes(n)
+        ? p.filter((x) => x !== n)
+        : p.length >= poolMax
+          ? p
+          : [...p, n].sort((a, b) => a - b),
+    );
+  }
+
+  const canCreate = !!groupName && inRange && collisions.length === 0;
+
+  async function search() {
+    if (!inRange || searching) return;
+    clientRef.current ??= createSystemsClient();
+    const key = searchKey;
+    setSearching(true);
+    setProgress(null);
+    setError(null);
+    try {
+      const r = await clientRef.current.search(
+        {
+          pool,
+          guarantee,
+          // le sestine già giocate altrove non possono far parte del ridotto
+          excluded: collisions.map((c) => sestinaRank(c)),
+          timeMs,
+        },
+        setProgress,
+      );
+      setResult(r);
+      setResultFor(key);
+      if (!r) setError("Ricerca fermata prima di trovare un sistema valido.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Errore nella ricerca.");
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  function setCondition(condition: number) {
+    setGuarantee((g) => ({
+      condition,
+      atLeast: Math.min(g.atLeast, condition),
+    }));
+  }
+
+  function fillPoolFromGroup() {
+    if (!auditGroup) return;
+    const nums = Array.from(
+      new Set(auditGroup.sestine.flatMap((s) => s.nums)),
+    ).sort((a, b) => a - b);
+    if (nums.length > GUARANTEE_POOL_MAX) {
+      setError(
+        `Il gruppo usa ${nums.length} numeri diversi: scegli a mano un pool di al massimo ${GUARANTEE_POOL_MAX}.`,
+      );
+      return;
+    }
+    setError(null);
+    setPool(nums);
+  }
+
+  async function verify() {
+    if (!auditGroup || pool.length === 0 || searching) return;
+    clientRef.current ??= createSystemsClient();
+    setSearching(true);
+    setError(null);
+    setReport(null);
+    try {
+      setReport(
+        await clientRef.current.guarantee({
+          tickets: auditGroup.sestine.map((s) => s.nums),
+          pool,
+          k: Math.min(auditK, pool.length),
+          atLeast: auditAtLeast ?? undefined,
+        }),
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Errore nella verifica.");
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  const conditions = [2, 3, 4, 5, 6];
+  const atLeastOptions = [2, 3, 4, 5].filter((t) => t <= guarantee.condition);
+
+  return (
+    <div className="animate-fadeUp">
+      <div className="rounded-3xl border border-black/10 bg-white p-4">
+        <div className="text-xs text-black/60">Sistemi</div>
+        <div className="text-2xl font-black">
+          {mode === "full"
+            ? "Sistema integrale"
+            : mode === "reduced"
+              ? "Sistema ridotto"
+              : mode === "bases"
+                ? "Basi fisse"
+                : "Verifica garanzia"}
+        </div>
+        <div className="text-sm text-black/60 mt-1">
+          {mode === "full" ? (
+            <>
+              Scegli da {SYSTEM_POOL_MIN} a {SYSTEM_POOL_MAX} numeri: vengono
+              giocate tutte le combinazioni da 6. Nessuna sestina del sistema
+              può essere già presente in un gruppo.
+            </>
+          ) : mode === "reduced" ? (
+            <>
+              Poche sestine con una garanzia verificabile: ogni gruppo di numeri
+              estratti dal pool trova almeno una sestina con abbastanza punti.
+              Le sestine già presenti in altri gruppi vengono evitate.
+            </>
+          ) : mode === "bases" ? (
+            <>
+              Da 1 a {BASES_MAX} numeri base in ogni sestina, gli altri posti
+              ruotano sul pool: ogni numero del pool esce lo stesso numero di
+              volte (al più una di differenza). Lo schema resta nello storico
+              del gruppo. Si evitano solo le sestine già presenti nei gruppi:
+              esclusi, archivio storico e limite di numeri in comune delle
+              impostazioni non si applicano.
+            </>
+          ) : (
+            <>
+              Per un gruppo qualsiasi (anche importato o fatto a mano) e un pool
+              di numeri: per ogni possibile estrazione di k numeri del pool,
+              quanti punti fa il miglior biglietto. Il minimo è la garanzia
+              esatta.
+            </>
+          )}
+        </div>
+
+        <div className="mt-3 inline-flex gap-2">
+          <Button
+            variant={mode === "full" ? "primary" : "default"}
+            onClick={() => setMode("full")}
+            disabled={searching}
+          >
+            Integrale
+          </Button>
+          <Button
+            variant={mode === "reduced" ? "primary" : "default"}
+            onClick={() => setMode("reduced")}
+            disabled={searching}
+          >
+            Ridotto
+          </Button>
+          <Button
+            variant={mode === "bases" ? "primary" : "default"}
+            onClick={() => setMode("bases")}
+            disabled={searching}
+          >
+            Basi fisse
+          </Button>
+          <Button
+            variant={mode === "verify" ? "primary" : "default"}
+            onClick={() => setMode("verify")}
+            disabled={searching}
+          >
+            Verifica
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-3 items-start">
+        <div className="rounded-3xl border border-black/10 bg-white p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-black text-black/80">
+              {mode === "bases"
+                ? `Basi: ${bases.length} · pool: ${pool.length}`
+                : `Numeri scelti: ${pool.length}`}
+            </div>
+            <Button
+              onClick={() => {
+                setPool([]);
+                setBases([]);
+              }}
+              disabled={(pool.length === 0 && bases.length === 0) || searching}
+            >
+              Svuota
+            </Button>
+          </div>
+
+          <div className="mt-3 grid grid-cols-10 gap-1">
+            {Array.from(
+              { length: MAX_NUM - MIN_NUM + 1 },
+              (_, i) => i + MIN_NUM,
+            ).map((n) => {
+              const on = pool.includes(n);
+              const base = mode === "bases" && bases.includes(n);
+              const full =
+                mode === "bases" && picking === "bases"
+                  ? bases.length >= BASES_MAX
+                  : pool.length >= poolMax;
+              return (
+                <button
+                  key={n}
+                  onClick={() => toggle(n)}
+                  disabled={searching || (!on && !base && full)}
+                  className={cn(
+                    "h-9 rounded-xl border text-sm font-extrabold transition",
+                    base
+                      ? "border-amber-300 bg-amber-500 text-white"
+                      : on
+                        ? "border-emerald-300 bg-emerald-600 text-white"
+                        : "border-black/10 bg-white text-black/70 hover:bg-black/[0.03] disabled:opacity-40",
+                  )}
+                >
+                  {n}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {mode === "full" ? (
+          <div className="rounded-3xl border border-black/10 bg-white p-4">
+            <div className="text-sm font-black text-black/80">Riepilogo</div>
+
+            <div className="mt-3 flex flex-col gap-1 text-sm text-black/70">
+              <div>
+                Pool:{" "}
+                <b className="text-black">
+                  {pool.length ? pool.join(" ") : "—"}
+                </b>
+              </div>
+              <div>
+                Sestine:{" "}
+                <b className="text-black">{tickets.toLocaleString("it-IT")}</b>
+              </div>
+              <div>
+                Costo:{" "}
+                <b className="text-black">
+                  {formatEuro(systemCostEuro(tickets))}
+                </b>
+              </div>
+            </div>
+
+            {!inRange && (
+              <div className="mt-3 rounded-2xl border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs font-bold text-black/80">
+                Servono da {SYSTEM_POOL_MIN} a {SYSTEM_POOL_MAX} numeri.
+              </div>
+            )}
+
+            {collisions.length > 0 && (
+              <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-3 py-2 text-xs font-bold text-red-800">
+                {collisions.length} sestine del sistema esistono già:{" "}
+                {collisions
+                  .slice(0, 5)
+                  .map((c) => c.join("-"))
+                  .join(", ")}
+                {collisions.length > 5 ? "…" : ""}
+              </div>
+            )}
+
+            <Button
+              variant="primary"
+              onClick={() => onCreate(pool)}
+              disabled={!canCreate}
+              className="mt-3 w-full"
+            >
+              {groupName
+                ? `Crea nel gruppo “${groupName}”`
+                : "Seleziona un gruppo"}
+            </Button>
+          </div>
+        ) : mode === "reduced" ? (
+          <div className="rounded-3xl border border-black/10 bg-white p-4">
+            <div className="text-sm font-black text-black/80">Garanzia</div>
+
+            <div className="mt-3 grid grid-cols-2 gap-2 text-xs font-bold text-black/60">
+              <label className="flex flex-col gap-1">
+                Se escono
+                <select
+                  value={guarantee.condition}
+                  onChange={(e) => setCondition(Number(e.target.value))}
+                  disabled={searching}
+                  className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+                >
+                  {conditions.map((c) => (
+                    <option key={c} value={c}>
+                      {c} numeri del pool
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                almeno una sestina fa
+                <select
+                  value={guarantee.atLeast}
+                  onChange={(e) =>
+                    setGuarantee((g) => ({
+                      ...g,
+                      atLeast: Number(e.target.value),
+                    }))
+                  }
+                  disabled={searching}
+                  className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+                >
+                  {atLeastOptions.map((t) => (
+                    <option key={t} value={t}>
+                      {t} punti
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="col-span-2 flex flex-col gap-1">
+                Tempo di ricerca
+                <select
+                  value={timeMs}
+                  onChange={(e) => setTimeMs(Number(e.target.value))}
+                  disabled={searching}
+                  className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+                >
+                  {SEARCH_TIMES.map((o) => (
+                    <option key={o.ms} value={o.ms}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {!inRange && (
+              <div className="mt-3 rounded-2xl border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs font-bold text-black/80">
+                Servono da {SYSTEM_POOL_MIN} a {SYSTEM_POOL_MAX} numeri.
+              </div>
+            )}
+
+            {inRange && collisions.length > 0 && (
+              <div className="mt-3 rounded-2xl border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs font-bold text-black/80">
+                {collisions.length} sestine del pool esistono già e verranno
+                evitate.
+              </div>
+            )}
+
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              <Button
+                variant="primary"
+                onClick={search}
+                disabled={!inRange || searching}
+              >
+                {searching ? "Ricerca…" : "Cerca"}
+              </Button>
+              <Button
+                onClick={() => clientRef.current?.stop()}
+                disabled={!searching}
+              >
+                Ferma e tieni
+              </Button>
+            </div>
+
+            {searching && progress && (
+              <div className="mt-3 text-xs text-black/60">
+                {progress.status.phase === "greedy"
+                  ? `Costruzione: ${progress.status.size} sestine, ${progress.status.uncovered} casi scoperti su ${progress.status.targets}`
+                  : `Miglioramento: migliore ${progress.status.bestSize} sestine, provo ${progress.status.size} (${progress.status.uncovered} casi scoperti)`}{" "}
+                · {(progress.elapsedMs / 1000).toFixed(1)} s
+              </div>
+            )}
+
+            {error && (
+              <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-3 py-2 text-xs font-bold text-red-800">
+                {error}
+              </div>
+            )}
+
+            {currentResult && !searching && (
+              <div className="mt-3 flex flex-col gap-2">
+                <div
+                  className={cn(
+                    "rounded-2xl border px-3 py-2 text-xs",
+                    currentResult.verification.ok
+                      ? "border-emerald-200 bg-emerald-50"
+                      : "border-red-200 bg-red-50",
+                  )}
+                >
+                  <div className="font-extrabold">
+                    {currentResult.verification.ok
+                      ? "✅ Garanzia verificata"
+                      : "⛔ Garanzia non rispettata"}
+                  </div>
+                  <div className="mt-1 text-black/70">
+                    {guaranteeStatement(
+                      pool,
+                      guarantee,
+                      currentResult.tickets.length,
+                    )}
+                  </div>
+                  <div className="mt-1 text-black/50">
+                    Controllati {currentResult.verification.targets} casi ·{" "}
+                    {currentResult.verification.uncovered} scoperti
+                  </div>
+                </div>
+                <div className="text-sm text-black/70">
+                  Sestine:{" "}
+                  <b className="text-black">{currentResult.tickets.length}</b>{" "}
+                  (integrale {tickets.toLocaleString("it-IT")}) · Costo:{" "}
+                  <b className="text-black">
+                    {formatEuro(systemCostEuro(currentResult.tickets.length))}
+                  </b>
+                </div>
+                <Button
+                  variant="primary"
+                  onClick={() =>
+                    onCreateReduced(pool, guarantee, currentResult)
+                  }
+                  disabled={!groupName || !currentResult.verification.ok}
+                  className="w-full"
+                >
+                  {groupName
+                    ? `Crea nel gruppo “${groupName}”`
+                    : "Seleziona un gruppo"}
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : mode === "bases" ? (
+          <div className="rounded-3xl border border-black/10 bg-white p-4">
+            <div className="text-sm font-black text-black/80">Schema</div>
+
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              <Button
+                variant={picking === "bases" ? "primary" : "default"}
+                onClick={() => setPicking("bases")}
+              >
+                Scegli basi
+              </Button>
+              <Button
+                variant={picking === "pool" ? "primary" : "default"}
+                onClick={() => setPicking("pool")}
+              >
+                Scegli pool
+              </Button>
+            </div>
+
+            <label className="mt-3 flex flex-col gap-1 text-xs font-bold text-black/60">
+              Sestine (al massimo {BASES_TICKETS_MAX} per schema)
+              <input
+                type="number"
+                min={1}
+                max={BASES_TICKETS_MAX}
+                value={basesCount}
+                onChange={(e) =>
+                  setBasesCount(
+                    Math.max(
+                      1,
+                      Math.min(
+                        BASES_TICKETS_MAX,
+                        Math.floor(Number(e.target.value) || 1),
+                      ),
+                    ),
+                  )
+                }
+                className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+              />
+            </label>
+
+            <div className="mt-3 flex flex-col gap-1 text-sm text-black/70">
+              <div>
+                Basi:{" "}
+                <b className="text-black">
+                  {bases.length ? bases.join(" ") : "—"}
+                </b>
+              </div>
+              <div>
+                Pool:{" "}
+                <b className="text-black">
+                  {pool.length ? pool.join(" ") : "—"}
+                </b>
+              </div>
+              {basesLimit > 0 && (
+                <div className="text-xs text-black/50">
+                  Al massimo {basesLimit.toLocaleString("it-IT")} sestine
+                  diverse con questo schema
+                  {basesCombos > basesLimit
+                    ? ` (limite per schema: le combinazioni sarebbero ${basesCombos.toLocaleString("it-IT")}).`
+                    : "."}
+                </div>
+              )}
+            </div>
+
+            {basesPreview?.error && (
+              <div className="mt-3 rounded-2xl border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs font-bold text-black/80">
+                {basesPreview.error}
+              </div>
+            )}
+
+            {basesPreview?.layout && basesPreview.usage && (
+              <div className="mt-3 flex flex-col gap-2 text-xs">
+                {basesPreview.layout.tickets.length < basesCount && (
+                  <div className="rounded-2xl border border-yellow-200 bg-yellow-50 px-3 py-2 font-bold text-black/80">
+                    Solo {basesPreview.layout.tickets.length} sestine nuove
+                    possibili (le altre esistono già o superano il limite).
+                  </div>
+                )}
+                <div className="text-black/60">
+                  Presenze nel pool:{" "}
+                  {[...basesPreview.usage]
+                    .map(([n, c]) => `${n}×${c}`)
+                    .join(" · ")}
+                </div>
+                <div className="max-h-40 overflow-auto font-mono text-black/70">
+                  {basesPreview.layout.tickets.map((t) => (
+                    <div key={t.join("-")}>{t.join(" ")}</div>
+                  ))}
+                </div>
+                <div className="text-sm text-black/70">
+                  Costo:{" "}
+                  <b className="text-black">
+                    {formatEuro(
+                      systemCostEuro(basesPreview.layout.tickets.length),
+                    )}
+                  </b>
+                </div>
+              </div>
+            )}
+
+            <Button
+              variant="primary"
+              onClick={() => onCreateBases(bases, pool, basesCount)}
+              disabled={
+                !groupName ||
+                !basesPreview?.layout ||
+                basesPreview.layout.tickets.length === 0
+              }
+              className="mt-3 w-full"
+            >
+              {groupName
+                ? `Crea nel gruppo “${groupName}”`
+                : "Seleziona un gruppo"}
+            </Button>
+          </div>
+        ) : (
+          <div className="rounded-3xl border border-black/10 bg-white p-4">
+            <div className="text-sm font-black text-black/80">Gruppo</div>
+
+            <div className="mt-3 flex flex-col gap-2 text-xs font-bold text-black/60">
+              <select
+                value={auditGroup?.id ?? ""}
+                onChange={(e) => {
+                  setAuditGroupId(e.target.value || null);
+                  setReport(null);
+                }}
+                disabled={searching}
+                className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+              >
+                {groups.length === 0 ? (
+                  <option value="">Nessun gruppo</option>
+                ) : (
+                  groups.map((g) => (
+                    <option key={g.id} value={g.id}>
+                      {g.name} ({g.sestine.length})
+                    </option>
+                  ))
+                )}
+              </select>
+              <Button
+                onClick={fillPoolFromGroup}
+                disabled={!auditGroup || searching}
+              >
+                Usa i numeri del gruppo come pool
+              </Button>
+
+              <div className="grid grid-cols-2 gap-2">
+                <label className="flex flex-col gap-1">
+                  Estrazioni di
+                  <select
+                    value={auditK}
+                    onChange={(e) => setAuditK(Number(e.target.value))}
+                    disabled={searching}
+                    className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+                  >
+                    {[1, 2, 3, 4, 5, 6].map((k) => (
+                      <option key={k} value={k}>
+                        {k} numeri
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  Soglia richiesta
+                  <select
+                    value={auditAtLeast ?? ""}
+                    onChange={(e) =>
+                      setAuditAtLeast(
+                        e.target.value ? Number(e.target.value) : null,
+                      )
+                    }
+                    disabled={searching}
+                    className="px-3 py-2 rounded-2xl border border-black/10 bg-white text-sm font-bold text-black"
+                  >
+                    <option value="">Casi peggiori</option>
+                    {[1, 2, 3, 4, 5, 6]
+                      .filter((t) => t <= auditK)
+                      .map((t) => (
+                        <option key={t} value={t}>
+                          almeno {t} punti
+                        </option>
+                      ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+
+            {pool.length > 0 && pool.length < auditK && (
+              <div className="mt-3 rounded-2xl border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs font-bold text-black/80">
+                Il pool ha meno di {auditK} numeri: si verificano estrazioni di{" "}
+                {pool.length}.
+              </div>
+            )}
+
+            <Button
+              variant="primary"
+              onClick={verify}
+              disabled={!auditGroup || pool.length === 0 || searching}
+              className="mt-3 w-full"
+            >
+              {searching ? "Verifica…" : "Calcola garanzia"}
+            </Button>
+
+            {error && (
+              <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-3 py-2 text-xs font-bold text-red-800">
+                {error}
+              </div>
+            )}
+
+            {report && !searching && (
+              <div className="mt-3 flex flex-col gap-2 text-xs">
+                <div className="text-black/60">
+                  {report.tickets} sestine, {report.relevantTickets} con numeri
+                  del pool · pool {report.pool.join(" ")}
+                </div>
+
+                <table className="w-full text-left">
+                  <thead className="text-black/50">
+                    <tr>
+                      <th className="py-1">Estratti</th>
+                      <th className="py-1">Casi</th>
+                      <th className="py-1">Garanzia</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.levels.map((l) => (
+                      <tr
+                        key={l.k}
+                        className={cn(
+                          "border-t border-black/5",
+                          l.k === report.breaking.k && "font-extrabold",
+                        )}
+                        title={l.distribution
+                          .map((c, h) => `${h} punti: ${c}`)
+                          .join(" · ")}
+                      >
+                        <td className="py-1">{l.k}</td>
+                        <td className="py-1">
+                          {l.draws.toLocaleString("it-IT")}
+                        </td>
+                        <td className="py-1">
+                          {l.minBest} su {l.k}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div
+                  className={cn(
+                    "rounded-2xl border px-3 py-2",
+                    report.breaking.count === 0
+                      ? "border-emerald-200 bg-emerald-50"
+                      : "border-yellow-200 bg-yellow-50",
+                  )}
+                >
+                  <div className="font-extrabold">
+                    {report.breaking.count === 0
+                      ? `✅ Con ${report.breaking.k} estratti dal pool fai sempre almeno ${report.breaking.atLeast} punti`
+                      : `${report.breaking.count.toLocaleString("it-IT")} estrazioni di ${report.breaking.k} numeri danno meno di ${report.breaking.atLeast} punti`}
+                  </div>
+                  {report.breaking.draws.length > 0 && (
+                    <div className="mt-1 max-h-40 overflow-auto text-black/70">
+                      {report.breaking.draws.map((d) => (
+                        <div key={d.join("-")}>{d.join(" ")}</div>
+                      ))}
+                      {report.breaking.count > report.breaking.draws.length &&
+                        "…"}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
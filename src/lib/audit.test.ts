@@ -0,0 +1,56 @@
+// src/lib/audit.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  auditRngStream,
+  summarizeAudit,
+  type AuditMeasure,
+  type AuditSection,
+} from "./audit";
+import { mulberry32 } from "./rng";
+import { holmAdjust } from "./stats";
+
+const section = (pValues: number[]): AuditSection<AuditMeasure> => ({
+  source: "test",
+  label: "Test",
+  samples: 1,
+  tests: pValues.map((pValue, i) => ({ name: `t${i}`, statistic: 0, pValue })),
+});
+
+describe("holmAdjust", () => {
+  it("corregge in ordine, resta monotono e non supera 1", () => {
+    expect(holmAdjust([0.01, 0.04, 0.03])).toEqual([0.03, 0.06, 0.06]);
+    expect(holmAdjust([0.5, 0.9])).toEqual([1, 1]);
+  });
+});
+
+describe("summarizeAudit", () => {
+  it("non segnala un p basso qualunque su 24 test", () => {
+    const report = summarizeAudit("s", [
+      section([0.005, ...Array(23).fill(0.5)]),
+    ]);
+    expect(report.verdict).toBe("pass");
+    expect(report.sections[0].tests[0].pAdjusted).toBeCloseTo(0.12);
+  });
+
+  it("segnala un p minuscolo anche dopo la correzione", () => {
+    const report = summarizeAudit("s", [
+      section(Array(12).fill(0.5)),
+      section([1e-6, ...Array(11).fill(0.5)]),
+    ]);
+    expect(report.verdict).toBe("fail");
+    expect(report.sections[1].tests[0].verdict).toBe("fail");
+    expect(report.sections[0].tests[0].verdict).toBe("pass");
+  });
+});
+
+describe("auditRngStream", () => {
+  it("si ferma a metà se il checkpoint lo chiede", async () => {
+    let checks = 0;
+    const tests = await auditRngStream(mulberry32(1), 1_000_000, async () => {
+      checks++;
+      return false;
+    });
+    expect(tests).toBeNull();
+    expect(checks).toBe(1);
+  });
+});
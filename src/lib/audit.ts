@@ -0,0 +1,338 @@
+// src/lib/audit.ts
+import { generateRandomSestinaWithConstraints } from "./constraintSpace";
+import {
+  RNG_ALGORITHMS,
+  mulberry32,
+  type RNG,
+  type RngAlgorithmId,
+} from "./rng";
+import { MAX_NUM, TOTAL_SESTINE, sestinaRank } from "./sestine";
+import { chiSquarePValue, holmAdjust, normalTwoSidedPValue } from "./stats";
+
+/**
+ * Audit statistico dei generatori: batteria di test classici sui flussi
+ * grezzi degli RNG e sulle sestine prodotte dal campionatore.
+ * Sotto ipotesi di uniformità ogni p-value è uniforme in [0,1]: un valore
+ * piccolo ogni tanto è normale, valori minuscoli e ripetuti no. Per questo i
+ * verdetti si danno sui p-value corretti di Holm sull'intera batteria, non su
+ * quelli dei singoli test.
+ */
+
+// 2: verdetti sui p-value corretti (pAdjusted)
+export const AUDIT_REPORT_VERSION = 2;
+
+// soglie sul p-value corretto: sotto FAIL il test è "non superato", sotto
+// WARN "da ricontrollare"
+export const AUDIT_FAIL_P = 0.001;
+export const AUDIT_WARN_P = 0.01;
+
+// campioni tra un controllo dello "stop" e l'altro
+const VALUES_CHUNK = 262_144;
+const SESTINE_CHUNK = 16_384;
+
+export type AuditVerdict = "pass" | "warn" | "fail";
+
+// risultato di un test, prima della correzione sull'intera batteria
+export type AuditMeasure = {
+  name: string;
+  statistic: number;
+  df?: number; // solo chi-quadro
+  pValue: number;
+};
+
+export type AuditTest = AuditMeasure & {
+  pAdjusted: number; // Holm, su tutti i test del report
+  verdict: AuditVerdict;
+};
+
+export type AuditSection<T = AuditTest> = {
+  source: string;
+  label: string;
+  samples: number;
+  tests: T[];
+};
+
+/**
+ * Chiamato tra un blocco di campioni e l'altro dei passi lunghi: cede il
+ * thread (così lo "stop" arriva) e dice se continuare.
+ */
+export type AuditCheckpoint = () => Promise<boolean>;
+
+export type AuditReport = {
+  version: number;
+  createdAt: string;
+  seed: string;
+  sections: AuditSection[];
+  verdict: AuditVerdict;
+};
+
+export type AuditSize = "quick" | "standard" | "deep";
+
+// valori per RNG / sestine per dimensione dell'audit
+export const AUDIT_SIZES: Record<
+  AuditSize,
+  { label: string; values: number; sestine: number }
+> = {
+  quick: { label: "Rapido", values: 250_000, sestine: 25_000 },
+  standard: { label: "Standard", values: 2_000_000, sestine: 200_000 },
+  deep: { label: "Approfondito", values: 10_000_000, sestine: 1_000_000 },
+};
+
+function verdictOf(p: number): AuditVerdict {
+  return p < AUDIT_FAIL_P ? "fail" : p < AUDIT_WARN_P ? "warn" : "pass";
+}
+
+function chiTest(name: string, chi2: number, df: number): AuditMeasure {
+  return { name, statistic: chi2, df, pValue: chiSquarePValue(chi2, df) };
+}
+
+function zTest(name: string, z: number): AuditMeasure {
+  return { name, statistic: z, pValue: normalTwoSidedPValue(z) };
+}
+
+function pearson(observed: ArrayLike<number>, expected: number): number {
+  let chi2 = 0;
+  for (let i = 0; i < observed.length; i++) {
+    const d = observed[i] - expected;
+    chi2 += (d * d) / expected;
+  }
+  return chi2;
+}
+
+/* ---------------- accumulatori ---------------- */
+
+// test delle serie (Wald–Wolfowitz) su una sequenza di bit equiprobabili
+function createRunsCounter() {
+  let n1 = 0;
+  let n2 = 0;
+  let runs = 0;
+  let prev: boolean | null = null;
+  return {
+    push(bit: boolean) {
+      if (bit) n1++;
+      else n2++;
+      if (bit !== prev) runs++;
+      prev = bit;
+    },
+    test(name: string): AuditMeasure {
+      const n = n1 + n2;
+      const mu = (2 * n1 * n2) / n + 1;
+      const variance = (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1));
+      return zTest(name, (runs - mu) / Math.sqrt(variance));
+    },
+  };
+}
+
+// autocorrelazione a lag 1 di valori in [0,1)
+function createSerialCounter() {
+  let n = 0;
+  let sum = 0;
+  let sumSq = 0;
+  let sumLag = 0;
+  let first = 0;
+  let prev = 0;
+  return {
+    push(x: number) {
+      if (n === 0) first = x;
+      else sumLag += prev * x;
+      sum += x;
+      sumSq += x * x;
+      prev = x;
+      n++;
+    },
+    test(name: string): AuditMeasure {
+      const mean = sum / n;
+      const variance = sumSq - n * mean * mean;
+      // Σ (x_i - m)(x_{i+1} - m) sulle n-1 coppie consecutive
+      const lagCov =
+        sumLag - mean * (2 * sum - first - prev) + (n - 1) * mean * mean;
+      const r = lagCov / variance;
+      // sotto H0: r ≈ N(-1/n, 1/n)
+      return zTest(name, (r + 1 / n) * Math.sqrt(n));
+    },
+  };
+}
+
+/* ---------------- sorgenti ---------------- */
+
+/** Flusso grezzo [0,1) di un RNG; null se fermato a metà. */
+export async function auditRngStream(
+  rng: RNG,
+  n: number,
+  checkpoint?: AuditCheckpoint,
+): Promise<AuditMeasure[] | null> {
+  const bins = new Float64Array(256);
+  const pairs = new Float64Array(64 * 64);
+  const runs = createRunsCounter();
+  const serial = createSerialCounter();
+
+  let half = -1;
+  for (let i = 0; i < n;) {
+    for (const end = Math.min(n, i + VALUES_CHUNK); i < end; i++) {
+      const u = rng();
+      bins[Math.floor(u * 256)]++;
+      const cell = Math.floor(u * 64);
+      // coppie consecutive NON sovrapposte: celle indipendenti sotto H0
+      if (half < 0) half = cell;
+      else {
+        pairs[half * 64 + cell]++;
+        half = -1;
+      }
+      runs.push(u >= 0.5);
+      serial.push(u);
+    }
+    if (i < n && checkpoint && !(await checkpoint())) return null;
+  }
+
+  const nPairs = Math.floor(n / 2);
+  return [
+    chiTest("Frequenze (256 classi)", pearson(bins, n / 256), 255),
+    chiTest("Coppie consecutive (64×64)", pearson(pairs, nPairs / 4096), 4095),
+    runs.test("Serie sopra/sotto 0,5"),
+    serial.test("Correlazione seriale (lag 1)"),
+  ];
+}
+
+/**
+ * Sestine senza vincoli estratte con generateRandomSestinaWithConstraints;
+ * null se fermato a metà.
+ */
+export async function auditSestinaGenerator(
+  rng: RNG,
+  n: number,
+  pickRng: RNG,
+  checkpoint?: AuditCheckpoint,
+): Promise<AuditMeasure[] | null> {
+  const freq = new Float64Array(MAX_NUM + 1);
+  const pairIndex = (a: number, b: number) => (a - 1) * MAX_NUM + (b - 1);
+  const pairs = new Float64Array(MAX_NUM * MAX_NUM);
+  const runs = createRunsCounter();
+  const serial = createSerialCounter();
+  const none = { exclude: [], mustInclude: [], mustIncludeAnyOf: [] };
+
+  for (let i = 0; i < n;) {
+    for (const end = Math.min(n, i + SESTINE_CHUNK); i < end; i++) {
+      const nums = generateRandomSestinaWithConstraints(rng, none);
+      for (const x of nums) freq[x]++;
+
+      // una sola coppia a caso per sestina: i conteggi restano multinomiali
+      const k = Math.floor(pickRng() * 15);
+      let a = 0;
+      let b = 1;
+      for (let s = 0; s < k; s++) if (++b === 6) b = ++a + 1;
+      pairs[pairIndex(nums[a], nums[b])]++;
+
+      const rank = sestinaRank(nums);
+      runs.push(rank < TOTAL_SESTINE / 2);
+      serial.push(rank / TOTAL_SESTINE);
+    }
+    if (i < n && checkpoint && !(await checkpoint())) return null;
+  }
+
+  // 6 numeri distinti per sestina: la varianza è ridotta di (90-6)/(90-1)
+  const numbersChi2 =
+    (pearson(freq.subarray(1), (6 * n) / MAX_NUM) * (MAX_NUM - 1)) /
+    (MAX_NUM - 6);
+
+  const pairCells = (MAX_NUM * (MAX_NUM - 1)) / 2;
+  const pairCounts: number[] = [];
+  for (let x = 1; x <= MAX_NUM; x++)
+    for (let y = x + 1; y <= MAX_NUM; y++)
+      pairCounts.push(pairs[pairIndex(x, y)]);
+
+  return [
+    chiTest("Frequenza dei numeri (1–90)", numbersChi2, MAX_NUM - 1),
+    chiTest(
+      "Frequenza delle coppie (4005)",
+      pearson(pairCounts, n / pairCells),
+      pairCells - 1,
+    ),
+    runs.test("Serie sul rank (metà bassa/alta)"),
+    serial.test("Correlazione seriale dei rank (lag 1)"),
+  ];
+}
+
+/* ---------------- report ---------------- */
+
+export type AuditPlan = Array<{
+  source: string;
+  label: string;
+  samples: number;
+  run: (checkpoint?: AuditCheckpoint) => Promise<AuditMeasure[] | null>;
+}>;
+
+/**
+ * Elenco dei passi dell'audit: uno per algoritmo RNG più il campionatore di
+ * sestine. Il chiamante li esegue uno alla volta (progress / stop).
+ */
+export function planAudit(seed: string, size: AuditSize): AuditPlan {
+  const { values, sestine } = AUDIT_SIZES[size];
+
+  const plan: AuditPlan = (Object.keys(RNG_ALGORITHMS) as RngAlgorithmId[]).map(
+    (id) => {
+      const algo = RNG_ALGORITHMS[id];
+      return {
+        source: `rng:${id}@${algo.version}`,
+        label: algo.label,
+        samples: values,
+        run: (checkpoint) =>
+          auditRngStream(
+            algo.create(`audit::${seed}::${id}`),
+            values,
+            checkpoint,
+          ),
+      };
+    },
+  );
+
+  plan.push({
+    source: "sestine:uniform",
+    label: "Sestine (generateRandomSestinaWithConstraints, rngFromSeed)",
+    samples: sestine,
+    run: (checkpoint) =>
+      auditSestinaGenerator(
+        RNG_ALGORITHMS.mulberry32.create(`audit::${seed}::sestine`),
+        sestine,
+        mulberry32(0x5eed),
+        checkpoint,
+      ),
+  });
+
+  return plan;
+}
+
+/**
+ * Report finale: ogni test riceve il p-value corretto di Holm su tutti i test
+ * eseguiti e il verdetto su quello. Con 24 test un p < 0,01 grezzo capita in
+ * un audit su cinque anche con generatori perfetti; corretto, no.
+ */
+export function summarizeAudit(
+  seed: string,
+  measured: AuditSection<AuditMeasure>[],
+): AuditReport {
+  const adjusted = holmAdjust(
+    measured.flatMap((s) => s.tests.map((t) => t.pValue)),
+  );
+  let next = 0;
+  const sections = measured.map((s) => ({
+    ...s,
+    tests: s.tests.map((t): AuditTest => {
+      const pAdjusted = adjusted[next++];
+      return { ...t, pAdjusted, verdict: verdictOf(pAdjusted) };
+    }),
+  }));
+
+  const all = sections.flatMap((s) => s.tests);
+  const verdict: AuditVerdict = all.some((t) => t.verdict === "fail")
+    ? "fail"
+    : all.some((t) => t.verdict === "warn")
+      ? "warn"
+      : "pass";
+  return {
+    version: AUDIT_REPORT_VERSION,
+    createdAt: new Date().toISOString(),
+    seed,
+    sections,
+    verdict,
+  };
+}
@@ -0,0 +1,92 @@
+// src/lib/auditClient.ts
+import type { AuditReport, AuditSize } from "./audit";
+
+/**
+ * Protocollo tra main thread e worker dell'audit RNG: il worker esegue una
+ * sorgente alla volta e accetta "stop" tra una e l'altra.
+ */
+export type AuditRequest =
+  | { type: "run"; jobId: number; seed: string; size: AuditSize }
+  | { type: "stop"; jobId: number };
+
+export type AuditResponse =
+  | {
+      type: "progress";
+      jobId: number;
+      step: number;
+      steps: number;
+      label: string;
+    }
+  | { type: "done"; jobId: number; stopped: boolean; report: AuditReport }
+  | { type: "error"; jobId: number; message: string };
+
+export type AuditProgress = { step: number; steps: number; label: string };
+
+export type AuditOutcome = { report: AuditReport; stopped: boolean };
+
+export type AuditClient = {
+  run: (
+    seed: string,
+    size: AuditSize,
+    onProgress?: (p: AuditProgress) => void,
+  ) => Promise<AuditOutcome>;
+  stop: () => void;
+  dispose: () => void;
+};
+
+type ActiveJob = {
+  jobId: number;
+  onProgress?: (p: AuditProgress) => void;
+  resolve: (o: AuditOutcome) => void;
+  reject: (e: Error) => void;
+};
+
+export function createAuditClient(): AuditClient {
+  const worker = new Worker(
+    new URL("../workers/audit.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+
+  let nextJobId = 1;
+  let active: ActiveJob | null = null;
+
+  function send(msg: AuditRequest) {
+    worker.postMessage(msg);
+  }
+
+  worker.onmessage = (e: MessageEvent<AuditResponse>) => {
+    const msg = e.data;
+    const job = active;
+    if (!job || msg.jobId !== job.jobId) return;
+
+    if (msg.type === "progress") {
+      job.onProgress?.({ step: msg.step, steps: msg.steps, label: msg.label });
+      return;
+    }
+
+    active = null;
+    if (msg.type === "error") job.reject(new Error(msg.message));
+    else job.resolve({ report: msg.report, stopped: msg.stopped });
+  };
+
+  return {
+    run(seed, size, onProgress) {
+      if (active) return Promise.reject(new Error("Audit già in corso."));
+      const jobId = nextJobId++;
+      return new Promise<AuditOutcome>((resolve, reject) => {
+        active = { jobId, onProgress, resolve, reject };
+        send({ type: "run", jobId, seed, size });
+      });
+    },
+
+    stop() {
+      if (active) send({ type: "stop", jobId: active.jobId });
+    },
+
+    dispose() {
+      worker.terminate();
+      if (active) active.reject(new Error("Worker terminato."));
+      active = null;
+    },
+  };
+}
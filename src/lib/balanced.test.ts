@@ -0,0 +1,75 @@
+// src/lib/balanced.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  balanceScore,
+  createBalanceState,
+  generateBalancedSestine,
+} from "./balanced";
+import { generateUniqueSestine } from "./constraintSpace";
+import { mulberry32 } from "./rng";
+import { sestinaRank, type Constraints, type Sestina } from "./sestine";
+
+const none: Constraints = {
+  exclude: [],
+  mustInclude: [],
+  mustIncludeAnyOf: [],
+};
+const factory = (attempt: number) => mulberry32(7 + attempt);
+
+// somma dei quadrati delle frequenze dei numeri: più è bassa, più è piatta
+function spread(sestine: Sestina[]): number {
+  const freq = new Array(91).fill(0);
+  for (const s of sestine) for (const n of s.nums) freq[n]++;
+  return freq.reduce((acc, f) => acc + f * f, 0);
+}
+
+describe("balanceScore", () => {
+  it("preferisce le sestine con numeri ancora poco usati", () => {
+    const state = createBalanceState([sestinaRank([1, 2, 3, 4, 5, 6])]);
+    expect(balanceScore(state, [7, 8, 9, 10, 11, 12])).toBe(0);
+    expect(balanceScore(state, [1, 2, 9, 10, 11, 12])).toBeGreaterThan(
+      balanceScore(state, [1, 8, 9, 10, 11, 12]),
+    );
+  });
+});
+
+describe("generateBalancedSestine", () => {
+  it("distribuisce i numeri meglio del campionamento semplice", () => {
+    const balanced = generateBalancedSestine(
+      45,
+      new Set(),
+      factory,
+      none,
+      0,
+      createBalanceState([]),
+    );
+    const plain = generateUniqueSestine(45, new Set(), factory, none, 0);
+    expect(balanced.sestine).toHaveLength(45);
+    expect(spread(balanced.sestine)).toBeLessThan(spread(plain.sestine));
+  });
+
+  it("è deterministico e riprende dallo stesso stato", () => {
+    const whole = generateBalancedSestine(
+      10,
+      new Set(),
+      factory,
+      none,
+      0,
+      createBalanceState([]),
+    );
+    const ranks = new Set<number>();
+    const state = createBalanceState([]);
+    const head = generateBalancedSestine(4, ranks, factory, none, 0, state);
+    const tail = generateBalancedSestine(
+      6,
+      ranks,
+      factory,
+      none,
+      head.next,
+      state,
+    );
+    expect([...head.sestine, ...tail.sestine].map((s) => s.key)).toEqual(
+      whole.sestine.map((s) => s.key),
+    );
+  });
+});
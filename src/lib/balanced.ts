@@ -0,0 +1,156 @@
+// src/lib/balanced.ts
+import { generateRandomSestinaWithConstraints } from "./constraintSpace";
+import type { DistanceIndex } from "./distance";
+import type { RNG, RngRef } from "./rng";
+import {
+  MAX_NUM,
+  MIN_NUM,
+  sestinaFromRank,
+  sestinaKey,
+  sestinaRank,
+  type Constraints,
+  type Sestina,
+} from "./sestine";
+
+/**
+ * Copertura bilanciata: per ogni sestina da produrre si estraggono
+ * `candidates` sestine ammesse (stesso flusso di tentativi numerati della
+ * modalità random) e si tiene quella che aumenta meno lo squilibrio del
+ * gruppo: prima le frequenze dei singoli numeri, poi quelle delle coppie.
+ * Vincoli e unicità globale restano quelli del campionatore uniforme; la
+ * scelta è deterministica (a parità di punteggio vince il primo candidato).
+ */
+export const BALANCED_CANDIDATES = 64;
+
+// peso dei numeri rispetto alle coppie: 15 coppie per sestina contro 6 numeri
+const NUMBER_WEIGHT = 4;
+
+const STRIDE = MAX_NUM + 1;
+
+export type BalanceState = {
+  numbers: Int32Array; // indice = numero
+  pairs: Int32Array; // indice = a * 91 + b, con a < b
+};
+
+export function createBalanceState(ranks: Iterable<number>): BalanceState {
+  const state: BalanceState = {
+    numbers: new Int32Array(STRIDE),
+    pairs: new Int32Array(STRIDE * STRIDE),
+  };
+  for (const r of ranks) addToBalance(state, sestinaFromRank(r));
+  return state;
+}
+
+export function addToBalance(state: BalanceState, nums: number[]) {
+  for (let i = 0; i < nums.length; i++) {
+    state.numbers[nums[i]]++;
+    for (let j = i + 1; j < nums.length; j++)
+      state.pairs[nums[i] * STRIDE + nums[j]]++;
+  }
+}
+
+/**
+ * Aumento (a meno di costanti) della somma dei quadrati delle frequenze se
+ * si aggiunge `nums`: più è basso, più la sestina riempie i buchi.
+ * `nums` deve essere ordinata crescente.
+ */
+export function balanceScore(state: BalanceState, nums: number[]): number {
+  let numbers = 0;
+  let pairs = 0;
+  for (let i = 0; i < nums.length; i++) {
+    numbers += state.numbers[nums[i]];
+    for (let j = i + 1; j < nums.length; j++)
+      pairs += state.pairs[nums[i] * STRIDE + nums[j]];
+  }
+  return NUMBER_WEIGHT * numbers + pairs;
+}
+
+/**
+ * Come generateUniqueSestine, ma ogni uscita consuma più tentativi: `next` è
+ * il primo tentativo non usato. `balance` viene aggiornato con le sestine
+ * prodotte, così i chunk successivi proseguono dallo stesso stato.
+ */
+export function generateBalancedSestine(
+  count: number,
+  existingRanks: Set<number>,
+  rngFactory: (attempt: number) => RNG,
+  constraints: Constraints,
+  start: number,
+  balance: BalanceState,
+  options?: {
+    candidates?: number;
+    seed?: string;
+    superstitionMode?: boolean;
+    rng?: RngRef;
+    onSkip?: (attempt: number, rank: number) => void;
+    blocked?: (nums: number[], rank: number) => boolean;
+    distance?: DistanceIndex;
+  },
+): { sestine: Sestina[]; next: number } {
+  const k = Math.max(1, options?.candidates ?? BALANCED_CANDIDATES);
+  const out: Sestina[] = [];
+  const now = new Date();
+  let attempt = start;
+  let misses = 0;
+
+  while (out.length < count) {
+    let best: { nums: number[]; nonce: number; score: number } | null = null;
+    const seen = new Set<number>();
+    let tries = 0;
+
+    // con vincoli molto stretti le ammesse possono essere meno di k
+    while (seen.size < k && !(best && tries >= 4 * k)) {
+      tries++;
+      const nonce = attempt++;
+      const nums = generateRandomSestinaWithConstraints(
+        rngFactory(nonce),
+        constraints,
+      );
+      const rank = sestinaRank(nums);
+
+      if (existingRanks.has(rank) || options?.blocked?.(nums, rank)) {
+        options?.onSkip?.(nonce, rank);
+        if (++misses > 50_000) {
+          throw new Error(
+            "Impossibile generare sestine uniche: troppi duplicati (limite nonce).",
+          );
+        }
+        continue;
+      }
+      misses = 0;
+      if (seen.has(rank)) continue;
+      if (options?.distance && !options.distance.admits(nums)) continue;
+      seen.add(rank);
+
+      const score = balanceScore(balance, nums);
+      if (!best || score < best.score) best = { nums, nonce, score };
+    }
+
+    if (!best) break;
+    existingRanks.add(sestinaRank(best.nums));
+    addToBalance(balance, best.nums);
+    options?.distance?.add(best.nums);
+    out.push({
+      nums: best.nums,
+      key: sestinaKey(best.nums),
+      createdAt: new Date(now.getTime() + out.length).toISOString(),
+      frozen: false,
+      meta: {
+        seed: options?.seed,
+        attemptNonce: best.nonce,
+        superstitionMode: options?.superstitionMode,
+        rng: options?.rng,
+      },
+    });
+  }
+
+  return { sestine: out, next: attempt };
+}
+
+/** Numeri su cui ha senso misurare l'equilibrio: né esclusi né obbligatori. */
+export function balancePool(constraints: Constraints): number[] {
+  const fixed = new Set([...constraints.exclude, ...constraints.mustInclude]);
+  const out: number[] = [];
+  for (let n = MIN_NUM; n <= MAX_NUM; n++) if (!fixed.has(n)) out.push(n);
+  return out;
+}
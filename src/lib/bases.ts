@@ -0,0 +1,158 @@
+// src/lib/bases.ts
+import {
+  MAX_NUM,
+  MIN_NUM,
+  binom,
+  combinations,
+  normalizeNums,
+  sestinaRank,
+  type SestinaNums,
+} from "./sestine";
+import { SYSTEM_POOL_MAX } from "./systems";
+
+/**
+ * Basi fisse: 1–5 numeri "base" in ogni sestina, gli altri posti ruotano su
+ * un pool. Ogni sestina sceglie i numeri del pool usati meno finora (le
+ * presenze restano entro ±1 finché le sestine nuove lo permettono), poi le
+ * coppie meno ripetute; a parità vince il primo in ordine lessicografico,
+ * quindi lo stesso input dà sempre lo stesso schema. Lo schema (parte
+ * rotante di ogni sestina) si salva nell'evento del gruppo.
+ * Valgono solo l'unicità globale e le basi/pool scelti: esclusi, archivio
+ * storico e limite di numeri in comune delle impostazioni non si applicano.
+ */
+export const BASES_MIN = 1;
+export const BASES_MAX = 5;
+// sestine per schema: ogni sestina confronta tutte le combinazioni del pool
+// (fino a C(20, 5) = 15.504), quindi il costo cresce col numero di sestine e
+// oltre questo limite l'anteprima, ricalcolata a ogni clic, non è più fluida
+export const BASES_TICKETS_MAX = 200;
+
+export type BasesLayout = {
+  bases: number[];
+  pool: number[];
+  // numeri del pool di ogni sestina, nell'ordine di gioco
+  rotations: number[][];
+};
+
+/** Basi e pool ordinati e disgiunti, oppure errore leggibile. */
+export function normalizeBases(
+  bases: number[],
+  pool: number[],
+): { bases: number[]; pool: number[] } {
+  const b = normalizeNums(bases);
+  const p = normalizeNums(pool);
+  if (
+    [...b, ...p].some((n) => !Number.isInteger(n) || n < MIN_NUM || n > MAX_NUM)
+  )
+    throw new Error(`I numeri devono essere tra ${MIN_NUM} e ${MAX_NUM}.`);
+  if (b.length < BASES_MIN || b.length > BASES_MAX)
+    throw new Error(
+      `Servono da ${BASES_MIN} a ${BASES_MAX} numeri base (scelti: ${b.length}).`,
+    );
+  if (b.some((n) => p.includes(n)))
+    throw new Error("Un numero non può essere sia base sia nel pool.");
+  const slots = 6 - b.length;
+  if (p.length <= slots || p.length > SYSTEM_POOL_MAX)
+    throw new Error(
+      `Con ${b.length} basi il pool deve avere da ${slots + 1} a ${SYSTEM_POOL_MAX} numeri (scelti: ${p.length}).`,
+    );
+  return { bases: b, pool: p };
+}
+
+/** Sestine diverse possibili con `bases` basi e un pool di `pool` numeri. */
+export function basesCombinations(bases: number, pool: number): number {
+  return binom(pool, 6 - bases);
+}
+
+/** Sestine che uno schema può avere: le combinazioni, entro BASES_TICKETS_MAX. */
+export function basesTicketLimit(bases: number, pool: number): number {
+  return Math.min(BASES_TICKETS_MAX, basesCombinations(bases, pool));
+}
+
+export function expandBasesLayout(
+  bases: number[],
+  rotations: number[][],
+): SestinaNums[] {
+  return rotations.map((r) => normalizeNums([...bases, ...r]));
+}
+
+/**
+ * Costruisce `count` sestine. Quelle con rank in `excluded` (già giocate
+ * altrove) si saltano; se non bastano le combinazioni rimaste il risultato
+ * è più corto di `count`.
+ */
+export function buildBasesSystem(
+  bases: number[],
+  pool: number[],
+  count: number,
+  excluded: Set<number> = new Set(),
+): BasesLayout & { tickets: SestinaNums[] } {
+  const norm = normalizeBases(bases, pool);
+  const n = norm.pool.length;
+  const slots = 6 - norm.bases.length;
+  const target = Math.min(
+    Math.max(0, Math.floor(count)),
+    basesTicketLimit(norm.bases.length, n),
+  );
+
+  // combinazioni di indici del pool, con il rank della sestina completa
+  const combos = Array.from(
+    combinations(
+      Array.from({ length: n }, (_, i) => i),
+      slots,
+    ),
+  ).map((idx) => ({
+    idx,
+    rank: sestinaRank(
+      normalizeNums([...norm.bases, ...idx.map((i) => norm.pool[i])]),
+    ),
+  }));
+
+  const used = new Set(excluded);
+  const usage = new Int32Array(n);
+  const pairs = new Int32Array(n * n);
+  const rotations: number[][] = [];
+
+  while (rotations.length < target) {
+    let best: (typeof combos)[number] | null = null;
+    let bestUsage = Infinity;
+    let bestPairs = Infinity;
+    for (const c of combos) {
+      if (used.has(c.rank)) continue;
+      let u = 0;
+      for (const i of c.idx) u += usage[i];
+      if (u > bestUsage) continue;
+      let p = 0;
+      for (let a = 0; a < slots; a++)
+        for (let b = a + 1; b < slots; b++) p += pairs[c.idx[a] * n + c.idx[b]];
+      if (u < bestUsage || p < bestPairs) {
+        best = c;
+        bestUsage = u;
+        bestPairs = p;
+      }
+    }
+    if (!best) break;
+
+    used.add(best.rank);
+    for (let a = 0; a < slots; a++) {
+      usage[best.idx[a]]++;
+      for (let b = a + 1; b < slots; b++)
+        pairs[best.idx[a] * n + best.idx[b]]++;
+    }
+    rotations.push(best.idx.map((i) => norm.pool[i]));
+  }
+
+  return {
+    ...norm,
+    rotations,
+    tickets: expandBasesLayout(norm.bases, rotations),
+  };
+}
+
+/** Presenze di ogni numero del pool nello schema. */
+export function rotationUsage(layout: BasesLayout): Map<number, number> {
+  const out = new Map(layout.pool.map((n) => [n, 0]));
+  for (const r of layout.rotations)
+    for (const n of r) out.set(n, (out.get(n) ?? 0) + 1);
+  return out;
+}
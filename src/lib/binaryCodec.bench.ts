@@ -0,0 +1,66 @@
+// src/lib/binaryCodec.bench.ts
+import { bench, describe } from "vitest";
+import {
+  SESTINE_BLOCK_SIZE,
+  decodeSestine,
+  encodeSestine,
+} from "./binaryCodec";
+import {
+  sestinaFromRank,
+  sestinaKey,
+  TOTAL_SESTINE,
+  type Sestina,
+} from "./sestine";
+
+// requisito: un gruppo da un milione di sestine si carica ben sotto il
+// secondo. `npm run bench` misura la decodifica del blocco salvato contro
+// JSON.parse dello stesso gruppo (il formato di prima) e contro la sola
+// allocazione di oggetti equivalenti, il minimo per qualunque formato che
+// restituisca Sestina[]. Lo storage decodifica e codifica a blocchi cedendo il
+// main thread tra uno e l'altro: un blocco è la pausa più lunga che si sente
+const N = 1_000_000;
+
+// come dopo una generazione: rank sparsi, orari a un millisecondo l'uno
+// dall'altro, meta con il nonce del tentativo
+const start = Date.UTC(2026, 0, 1);
+const sestine: Sestina[] = Array.from({ length: N }, (_, i) => {
+  const nums = sestinaFromRank((i * 622_613) % TOTAL_SESTINE);
+  return {
+    nums,
+    key: sestinaKey(nums),
+    createdAt: new Date(start + i).toISOString(),
+    frozen: false,
+    meta: { seed: "bench", attemptNonce: i },
+  };
+});
+const bytes = encodeSestine(sestine);
+const block = sestine.slice(0, SESTINE_BLOCK_SIZE);
+const blockBytes = encodeSestine(block);
+const json = JSON.stringify(sestine);
+
+describe(`caricamento di ${N.toLocaleString("it-IT")} sestine`, () => {
+  const options = { iterations: 5, warmupIterations: 1, time: 0 };
+  bench("decodeSestine", () => void decodeSestine(bytes), options);
+  bench(
+    "un blocco: decodeSestine",
+    () => void decodeSestine(blockBytes),
+    options,
+  );
+  bench("un blocco: encodeSestine", () => void encodeSestine(block), options);
+  bench("JSON.parse", () => void JSON.parse(json), options);
+  bench(
+    "solo allocazione",
+    () =>
+      void sestine.map((s) => {
+        const nums = [...s.nums];
+        return {
+          nums,
+          key: nums.join("-"),
+          createdAt: s.createdAt.slice(0, -1) + "Z",
+          frozen: s.frozen,
+          meta: { ...s.meta },
+        };
+      }),
+    options,
+  );
+});
@@ -0,0 +1,120 @@
+// src/lib/binaryCodec.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  SESTINE_BLOCK_SIZE,
+  decodeSestine,
+  decodeSestineBlocks,
+  decodeStateFile,
+  encodeSestine,
+  encodeSestineBlocks,
+  encodeStateFile,
+} from "./binaryCodec";
+import { sestinaFromRank, sestinaKey, type Sestina } from "./sestine";
+import { defaultState } from "./storage";
+
+const sestina = (nums: number[], createdAt: string): Sestina => ({
+  nums,
+  key: sestinaKey(nums),
+  createdAt,
+  frozen: false,
+});
+
+const roundTrip = (sestine: Sestina[]) =>
+  JSON.stringify(decodeSestine(encodeSestine(sestine)));
+
+describe("encodeSestine / decodeSestine", () => {
+  it("è senza perdite sui casi comuni e fuori norma", () => {
+    const sestine: Sestina[] = [
+      sestina([1, 2, 3, 4, 5, 6], "2026-01-01T00:00:00.000Z"),
+      {
+        ...sestina([7, 8, 9, 10, 11, 12], "2026-01-01T00:00:00.001Z"),
+        frozen: true,
+        superstar: 90,
+      },
+      { ...sestina([13, 14, 15, 16, 17, 18], "ieri"), key: "altra" },
+      {
+        ...sestina([19, 20, 21, 22, 23, 24], "2025-12-31T23:59:59.999Z"),
+        meta: { permIndex: 12, seed: "x" },
+      },
+      {
+        ...sestina([25, 26, 27, 28, 29, 30], "2026-01-01T00:00:00.002Z"),
+        meta: { attemptNonce: 3 },
+        superstar: 5,
+      },
+      {
+        ...sestina([31, 32, 33, 34, 35, 36], "2026-01-01T00:00:00.003Z"),
+        superstar: 6,
+        meta: { attemptNonce: 4 },
+      },
+    ];
+    expect(roundTrip(sestine)).toBe(JSON.stringify(sestine));
+  });
+
+  it("regge le date agli estremi dell'intervallo di Date", () => {
+    const sestine = [
+      sestina([1, 2, 3, 4, 5, 6], "+275760-09-13T00:00:00.000Z"),
+      sestina([7, 8, 9, 10, 11, 12], "-271821-04-20T00:00:00.000Z"),
+      sestina([13, 14, 15, 16, 17, 18], "2026-01-01T00:00:00.000Z"),
+      sestina([19, 20, 21, 22, 23, 24], "-271821-04-20T00:00:00.000Z"),
+    ];
+    expect(roundTrip(sestine)).toBe(JSON.stringify(sestine));
+  });
+});
+
+describe("encodeSestineBlocks / decodeSestineBlocks", () => {
+  const many = (n: number, from = 0) =>
+    Array.from({ length: n }, (_, i) =>
+      sestina(
+        sestinaFromRank(from + i),
+        new Date(Date.UTC(2026, 0, 1) + from + i).toISOString(),
+      ),
+    );
+
+  it("ricostruisce la lista su più blocchi", async () => {
+    const sestine = many(2 * SESTINE_BLOCK_SIZE + 5);
+    const blocks = await encodeSestineBlocks(sestine);
+    expect(blocks).toHaveLength(3);
+    expect(JSON.stringify(await decodeSestineBlocks(blocks))).toBe(
+      JSON.stringify(sestine),
+    );
+  });
+
+  it("riusa i blocchi delle sestine già scritte", async () => {
+    const before = many(2 * SESTINE_BLOCK_SIZE + 5);
+    const old = await encodeSestineBlocks(before);
+    // sestine nuove in testa, come dopo una generazione
+    const after = [...many(3, before.length), ...before];
+    const blocks = await encodeSestineBlocks(after, before);
+    expect(blocks[0]).toBe(old[0]);
+    expect(blocks[1]).toBe(old[1]);
+    expect(blocks[2]).not.toBe(old[2]);
+    expect(JSON.stringify(await decodeSestineBlocks(blocks))).toBe(
+      JSON.stringify(after),
+    );
+  });
+});
+
+describe("encodeStateFile / decodeStateFile", () => {
+  it("ricostruisce lo stato", () => {
+    const state = {
+      ...defaultState(),
+      groups: [
+        {
+          id: "g1",
+          name: "Gruppo",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          sestine: [sestina([1, 2, 3, 4, 5, 6], "2026-01-01T00:00:00.000Z")],
+          events: [],
+        },
+      ],
+    };
+    expect(JSON.stringify(decodeStateFile(encodeStateFile(state)))).toBe(
+      JSON.stringify(state),
+    );
+  });
+
+  it("rifiuta un file troncato", () => {
+    const bytes = encodeStateFile(defaultState());
+    expect(() => decodeStateFile(bytes.slice(0, bytes.length - 3))).toThrow();
+  });
+});
@@ -0,0 +1,586 @@
+// src/lib/binaryCodec.ts
+import {
+  isSestinaNums,
+  sestinaFromRank,
+  sestinaRank,
+  type Sestina,
+} from "./sestine";
+import type { AppState } from "./storage";
+
+/**
+ * Codifica binaria compatta delle sestine di un gruppo (record IndexedDB) e
+ * formato di export `.sestine` (stato completo).
+ *
+ * Un blocco di sestine è colonnare: i campi "normali" di ogni sestina vanno in
+ * colonne dedicate, il resto in un dizionario di modelli JSON.
+ * - nums: rank colex a 32 bit (solo se ordinati e validi);
+ * - key: implicita quando vale nums.join("-");
+ * - createdAt: millisecondi, delta a zigzag in varint (solo ISO canonici e
+ *   delta entro ±2^52, oltre lo zigzag supera 2^53 e perde precisione);
+ * - frozen: bitset; superstar: un byte;
+ * - meta: indice nel dizionario del modello, con attemptNonce e permIndex in
+ *   una colonna varint a parte.
+ * Il modello (anch'esso nel dizionario) è il JSON della sestina con i campi in
+ * colonna a null, preceduto dalla maschera dei campi in colonna: tiene l'ordine
+ * delle chiavi e qualunque valore fuori norma, quindi decode(encode(x)) dà lo
+ * stesso JSON di x.
+ *
+ * Tutti gli interi multi-byte sono little-endian.
+ */
+const BLOCK_VERSION = 1;
+const FILE_MAGIC = [0x53, 0x45, 0x53, 0x54]; // "SEST"
+const FILE_VERSION = 1;
+
+export const SESTINE_FILE_EXTENSION = "sestine";
+export const SESTINE_FILE_MIME = "application/octet-stream";
+
+// campi della sestina che possono andare in colonna (bit della maschera)
+const NUMS = 1;
+const KEY = 2;
+const CREATED = 4;
+const FROZEN = 8;
+const STAR = 16;
+const META = 32;
+
+// campi numerici di meta che cambiano a ogni sestina
+const META_NUMBERS = ["attemptNonce", "permIndex"] as const;
+
+type Raw = Record<string, unknown>;
+
+function isRecord(x: unknown): x is Raw {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+/* ---------------- byte ---------------- */
+
+class ByteWriter {
+  private buf = new Uint8Array(1024);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  byte(b: number) {
+    this.reserve(1);
+    this.buf[this.length++] = b;
+  }
+
+  u32(n: number) {
+    this.reserve(4);
+    this.buf[this.length++] = n & 0xff;
+    this.buf[this.length++] = (n >>> 8) & 0xff;
+    this.buf[this.length++] = (n >>> 16) & 0xff;
+    this.buf[this.length++] = (n >>> 24) & 0xff;
+  }
+
+  // interi non negativi fino a 2^53
+  varint(n: number) {
+    this.reserve(8);
+    while (n >= 0x80) {
+      this.buf[this.length++] = (n % 0x80) | 0x80;
+      n = Math.floor(n / 0x80);
+    }
+    this.buf[this.length++] = n;
+  }
+
+  bytes(b: Uint8Array) {
+    this.reserve(b.length);
+    this.buf.set(b, this.length);
+    this.length += b.length;
+  }
+
+  // blocco preceduto dalla sua lunghezza
+  chunk(b: Uint8Array) {
+    this.varint(b.length);
+    this.bytes(b);
+  }
+
+  string(s: string) {
+    this.chunk(new TextEncoder().encode(s));
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  pos = 0;
+  private readonly buf: Uint8Array;
+
+  constructor(buf: Uint8Array) {
+    this.buf = buf;
+  }
+
+  private need(n: number) {
+    if (this.pos + n > this.buf.length)
+      throw new Error("Dati binari troncati.");
+  }
+
+  byte(): number {
+    this.need(1);
+    return this.buf[this.pos++];
+  }
+
+  u32(): number {
+    this.need(4);
+    const b = this.buf;
+    const p = this.pos;
+    this.pos += 4;
+    return (b[p] | (b[p + 1] << 8) | (b[p + 2] << 16) | (b[p + 3] << 24)) >>> 0;
+  }
+
+  varint(): number {
+    let n = 0;
+    let mul = 1;
+    for (;;) {
+      const b = this.byte();
+      n += (b & 0x7f) * mul;
+      if (b < 0x80) return n;
+      mul *= 0x80;
+    }
+  }
+
+  // blocco preceduto dalla sua lunghezza (vista, non copia)
+  bytes(): Uint8Array {
+    const len = this.varint();
+    this.need(len);
+    const sub = this.buf.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return sub;
+  }
+
+  chunk(): ByteReader {
+    return new ByteReader(this.bytes());
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes());
+  }
+}
+
+// |n| ≤ MAX_ZIGZAG: zigzag(n) resta un intero esatto
+const MAX_ZIGZAG = 2 ** 52;
+const zigzag = (n: number) => (n >= 0 ? n * 2 : -n * 2 - 1);
+const unzigzag = (z: number) => (z % 2 === 0 ? z / 2 : -(z + 1) / 2);
+
+/* ---------------- blocco di sestine ---------------- */
+
+/**
+ * Millisecondi di un createdAt, o null se non è un ISO canonico (quello di
+ * toISOString, l'unico che si ricostruisce identico). Stessa scorciatoia di
+ * isoWriter: se cambia solo la parte dei millisecondi non si riparsa.
+ */
+function isoReader(): (x: unknown) => number | null {
+  let second = NaN;
+  let prefix = "";
+  return (x) => {
+    if (typeof x !== "string") return null;
+    if (
+      x.length === prefix.length + 4 &&
+      x.startsWith(prefix) &&
+      x.charCodeAt(x.length - 1) === 90 // "Z"
+    ) {
+      const milli = x.slice(-4, -1);
+      if (/^\d{3}$/.test(milli)) return second * 1000 + Number(milli);
+    }
+    const ms = Date.parse(x);
+    if (!Number.isFinite(ms) || new Date(ms).toISOString() !== x) return null;
+    second = Math.floor(ms / 1000);
+    prefix = x.slice(0, x.length - 4);
+    return ms;
+  };
+}
+
+// coda "mmmZ" di un ISO, per ogni millisecondo
+const MILLI_SUFFIX = Array.from(
+  { length: 1000 },
+  (_, ms) => `${String(ms).padStart(3, "0")}Z`,
+);
+
+/**
+ * toISOString con scorciatoia: le sestine generate insieme hanno orari a
+ * pochi millisecondi l'uno dall'altro, quindi di solito cambiano solo i
+ * millisecondi rispetto alla precedente (metà del tempo di decodifica senza).
+ */
+function isoWriter(): (ms: number) => string {
+  let second = NaN;
+  let prefix = "";
+  return (ms) => {
+    const sec = Math.floor(ms / 1000);
+    if (sec !== second) {
+      const iso = new Date(ms).toISOString();
+      second = sec;
+      prefix = iso.slice(0, iso.length - 4);
+      return iso;
+    }
+    return prefix + MILLI_SUFFIX[ms - sec * 1000];
+  };
+}
+
+function sameEntries(a: Raw, b: Raw): boolean {
+  const ka = Object.keys(a);
+  const kb = Object.keys(b);
+  if (ka.length !== kb.length) return false;
+  for (let i = 0; i < ka.length; i++)
+    if (ka[i] !== kb[i] || a[ka[i]] !== b[ka[i]]) return false;
+  return true;
+}
+
+/**
+ * Indice nel dizionario di un modello. Le sestine vicine hanno quasi sempre
+ * lo stesso modello (stessi valori, anche per riferimento): il confronto con
+ * il precedente evita di serializzarlo ogni volta.
+ */
+function templateIndex(
+  entry: (s: string) => number,
+): (tmpl: Raw, mask: number) => number {
+  let last: { tmpl: Raw; mask: number; index: number } | null = null;
+  return (tmpl, mask) => {
+    if (last && last.mask === mask && sameEntries(last.tmpl, tmpl))
+      return last.index;
+    const index = entry(`${mask}:${JSON.stringify(tmpl)}`);
+    last = { tmpl, mask, index };
+    return index;
+  };
+}
+
+function isColumnNumber(x: unknown): x is number {
+  return Number.isSafeInteger(x) && (x as number) >= 0;
+}
+
+export function encodeSestine(
+  sestine: ReadonlyArray<Sestina>,
+): Uint8Array<ArrayBuffer> {
+  const dict = new Map<string, number>();
+  const entry = (s: string) => {
+    let i = dict.get(s);
+    if (i === undefined) dict.set(s, (i = dict.size));
+    return i;
+  };
+
+  const shapeIndex = templateIndex(entry);
+  const metaIndex = templateIndex(entry);
+  const readTime = isoReader();
+
+  const shapes = new ByteWriter();
+  const ranks = new ByteWriter();
+  const times = new ByteWriter();
+  const frozen: boolean[] = [];
+  const stars = new ByteWriter();
+  const metas = new ByteWriter();
+  const metaNumbers = new ByteWriter();
+  let lastTime = 0;
+
+  for (const item of sestine as ReadonlyArray<unknown>) {
+    if (!isRecord(item)) {
+      shapes.varint(entry(`0:${JSON.stringify(item) ?? "null"}`));
+      continue;
+    }
+    const s = item as Raw;
+    const tmpl: Raw = { ...s };
+    let mask = 0;
+
+    if (isSestinaNums(s.nums)) {
+      mask |= NUMS;
+      tmpl.nums = null;
+      ranks.u32(sestinaRank(s.nums));
+      if (s.key === s.nums.join("-")) {
+        mask |= KEY;
+        tmpl.key = null;
+      }
+    }
+    const ms = readTime(s.createdAt);
+    // date agli estremi (anno ±270000) restano nel modello
+    if (ms !== null && Math.abs(ms - lastTime) <= MAX_ZIGZAG) {
+      mask |= CREATED;
+      tmpl.createdAt = null;
+      times.varint(zigzag(ms - lastTime));
+      lastTime = ms;
+    }
+    if (typeof s.frozen === "boolean") {
+      mask |= FROZEN;
+      tmpl.frozen = null;
+      frozen.push(s.frozen);
+    }
+    const star = s.superstar;
+    if (
+      Number.isInteger(star) &&
+      (star as number) >= 0 &&
+      (star as number) <= 0xff
+    ) {
+      mask |= STAR;
+      tmpl.superstar = null;
+      stars.byte(star as number);
+    }
+    if (isRecord(s.meta)) {
+      mask |= META;
+      tmpl.meta = null;
+      const meta: Raw = { ...s.meta };
+      let metaMask = 0;
+      for (let bit = 0; bit < META_NUMBERS.length; bit++) {
+        const v = meta[META_NUMBERS[bit]];
+        if (!isColumnNumber(v)) continue;
+        metaMask |= 1 << bit;
+        meta[META_NUMBERS[bit]] = null;
+        metaNumbers.varint(v);
+      }
+      metas.varint(metaIndex(meta, metaMask));
+    }
+
+    shapes.varint(shapeIndex(tmpl, mask));
+  }
+
+  const bits = new Uint8Array(Math.ceil(frozen.length / 8));
+  frozen.forEach((f, i) => {
+    if (f) bits[i >> 3] |= 1 << (i & 7);
+  });
+
+  const out = new ByteWriter();
+  out.byte(BLOCK_VERSION);
+  out.varint(sestine.length);
+  out.varint(dict.size);
+  for (const s of dict.keys()) out.string(s);
+  for (const col of [shapes, ranks, times]) out.chunk(col.result());
+  out.chunk(bits);
+  for (const col of [stars, metas, metaNumbers]) out.chunk(col.result());
+  return out.result();
+}
+
+// `plain`: la sestina è fatta solo di colonne, nell'ordine in cui la crea la
+// generazione (nums, key, createdAt, frozen, poi meta e superstar se ci sono)
+type Template = { mask: number; value: unknown; plain: boolean };
+
+const PLAIN_MASK = NUMS | KEY | CREATED | FROZEN;
+
+function isPlain(mask: number, value: unknown): boolean {
+  if ((mask & PLAIN_MASK) !== PLAIN_MASK || !isRecord(value)) return false;
+  const keys = ["nums", "key", "createdAt", "frozen"];
+  if (mask & META) keys.push("meta");
+  if (mask & STAR) keys.push("superstar");
+  const actual = Object.keys(value);
+  return actual.length === keys.length && actual.every((k, i) => k === keys[i]);
+}
+
+function parseTemplate(s: string): Template {
+  const sep = s.indexOf(":");
+  const mask = Number(s.slice(0, sep));
+  const value = JSON.parse(s.slice(sep + 1)) as unknown;
+  return { mask, value, plain: isPlain(mask, value) };
+}
+
+export function decodeSestine(bytes: Uint8Array): Sestina[] {
+  const r = new ByteReader(bytes);
+  const version = r.byte();
+  if (version !== BLOCK_VERSION)
+    throw new Error(`Blocco di sestine in formato sconosciuto (v${version}).`);
+  const n = r.varint();
+  const dict: string[] = [];
+  for (let i = r.varint(); i > 0; i--) dict.push(r.string());
+  const templates: Template[] = [];
+  const template = (i: number) => {
+    if (i >= dict.length) throw new Error("Dizionario delle sestine corrotto.");
+    return (templates[i] ??= parseTemplate(dict[i]));
+  };
+
+  const shapes = r.chunk();
+  const ranks = r.chunk();
+  const times = r.chunk();
+  const bits = r.bytes();
+  const stars = r.chunk();
+  const metas = r.chunk();
+  const metaNumbers = r.chunk();
+
+  const out: Sestina[] = new Array(n);
+  let lastTime = 0;
+  const iso = isoWriter();
+  let frozenIdx = 0;
+  const readMeta = () => {
+    const m = template(metas.varint());
+    if (m.mask === 0) return m.value;
+    const meta: Raw = { ...(m.value as Raw) };
+    for (let bit = 0; bit < META_NUMBERS.length; bit++)
+      if (m.mask & (1 << bit)) meta[META_NUMBERS[bit]] = metaNumbers.varint();
+    return meta;
+  };
+
+  for (let i = 0; i < n; i++) {
+    const { mask, value, plain } = template(shapes.varint());
+    if (!isRecord(value)) {
+      out[i] = value as Sestina;
+      continue;
+    }
+
+    // caso comune: oggetto letterale invece di una copia del modello (un
+    // milione di sestine deve caricarsi ben sotto il secondo)
+    if (plain) {
+      const nums = sestinaFromRank(ranks.u32());
+      lastTime += unzigzag(times.varint());
+      const s: Raw = {
+        nums,
+        key: nums.join("-"),
+        createdAt: iso(lastTime),
+        frozen: ((bits[frozenIdx >> 3] >> (frozenIdx & 7)) & 1) === 1,
+      };
+      frozenIdx++;
+      // stesso ordine delle chiavi del modello (vedi isPlain)
+      if (mask & META) s.meta = readMeta();
+      if (mask & STAR) s.superstar = stars.byte();
+      out[i] = s as Sestina;
+      continue;
+    }
+
+    const s: Raw = { ...value };
+    if (mask & NUMS) {
+      const nums = sestinaFromRank(ranks.u32());
+      s.nums = nums;
+      if (mask & KEY) s.key = nums.join("-");
+    }
+    if (mask & CREATED) {
+      lastTime += unzigzag(times.varint());
+      s.createdAt = iso(lastTime);
+    }
+    if (mask & FROZEN) {
+      s.frozen = ((bits[frozenIdx >> 3] >> (frozenIdx & 7)) & 1) === 1;
+      frozenIdx++;
+    }
+    if (mask & STAR) s.superstar = stars.byte();
+    if (mask & META) s.meta = readMeta();
+    out[i] = s as Sestina;
+  }
+  return out;
+}
+
+/* ---------------- record di un gruppo ---------------- */
+
+/**
+ * Il record IndexedDB di un gruppo tiene le sestine in blocchi da
+ * SESTINE_BLOCK_SIZE, a partire dalla più vecchia (in fondo alla lista). Si
+ * codificano e decodificano un blocco alla volta, cedendo il main thread tra
+ * uno e l'altro; le sestine nuove entrano in testa e lasciano identici i
+ * blocchi già scritti, che al salvataggio si riusano senza ricodificarli.
+ */
+export const SESTINE_BLOCK_SIZE = 16_384;
+
+// blocchi di una lista già letta o scritta: le liste dello stato non cambiano
+// sul posto, quindi restano validi finché la lista esiste
+const blocksOf = new WeakMap<ReadonlyArray<Sestina>, Uint8Array[]>();
+
+function yieldToEvents() {
+  return new Promise((r) => setTimeout(r, 0));
+}
+
+// posizioni nella lista del blocco `j` (0 = il più vecchio)
+function blockRange(length: number, j: number): [number, number] {
+  const end = length - j * SESTINE_BLOCK_SIZE;
+  return [Math.max(0, end - SESTINE_BLOCK_SIZE), end];
+}
+
+function sameBlock(
+  a: ReadonlyArray<Sestina>,
+  b: ReadonlyArray<Sestina>,
+  j: number,
+): boolean {
+  const [aStart, aEnd] = blockRange(a.length, j);
+  const [bStart, bEnd] = blockRange(b.length, j);
+  if (aEnd - aStart !== bEnd - bStart) return false;
+  for (let i = 0; i < aEnd - aStart; i++)
+    if (a[aStart + i] !== b[bStart + i]) return false;
+  return true;
+}
+
+/**
+ * Blocchi delle sestine di un gruppo. `previous` è la lista scritta l'ultima
+ * volta: i suoi blocchi con le stesse sestine (per riferimento) si riusano.
+ */
+export async function encodeSestineBlocks(
+  sestine: ReadonlyArray<Sestina>,
+  previous?: ReadonlyArray<Sestina>,
+): Promise<Uint8Array[]> {
+  const known = blocksOf.get(sestine);
+  if (known) return known;
+  const old = previous && blocksOf.get(previous);
+
+  const blocks: Uint8Array[] = [];
+  for (let j = 0; j * SESTINE_BLOCK_SIZE < sestine.length; j++) {
+    if (old && previous && j < old.length && sameBlock(sestine, previous, j)) {
+      blocks.push(old[j]);
+      continue;
+    }
+    const [start, end] = blockRange(sestine.length, j);
+    blocks.push(encodeSestine(sestine.slice(start, end)));
+    await yieldToEvents();
+  }
+  blocksOf.set(sestine, blocks);
+  return blocks;
+}
+
+export async function decodeSestineBlocks(
+  blocks: Uint8Array[],
+): Promise<Sestina[]> {
+  const out: Sestina[] = [];
+  for (let j = blocks.length - 1; j >= 0; j--) {
+    for (const s of decodeSestine(blocks[j])) out.push(s);
+    await yieldToEvents();
+  }
+  blocksOf.set(out, blocks);
+  return out;
+}
+
+/* ---------------- file .sestine ---------------- */
+
+/**
+ * File `.sestine`: magic "SEST", versione, lo stato in JSON con al posto delle
+ * sestine di ogni gruppo l'indice del suo blocco, poi i blocchi.
+ */
+export function encodeStateFile(state: AppState): Uint8Array<ArrayBuffer> {
+  const blocks: Uint8Array[] = [];
+  const header = {
+    ...state,
+    groups: state.groups.map((g) => {
+      blocks.push(encodeSestine(g.sestine));
+      return { ...g, sestine: blocks.length - 1 };
+    }),
+  };
+
+  const w = new ByteWriter();
+  for (const b of FILE_MAGIC) w.byte(b);
+  w.byte(FILE_VERSION);
+  w.string(JSON.stringify(header));
+  w.varint(blocks.length);
+  for (const b of blocks) w.chunk(b);
+  return w.result();
+}
+
+export function isSestineFile(bytes: Uint8Array): boolean {
+  return FILE_MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/** Payload grezzo dello stato: va poi migrato e validato come un JSON. */
+export function decodeStateFile(bytes: Uint8Array): unknown {
+  if (!isSestineFile(bytes)) throw new Error("Non è un file .sestine.");
+  const r = new ByteReader(bytes);
+  r.pos = FILE_MAGIC.length;
+  const version = r.byte();
+  if (version !== FILE_VERSION)
+    throw new Error(`File .sestine di una versione sconosciuta (v${version}).`);
+  const header = JSON.parse(r.string()) as unknown;
+  const blocks: Uint8Array[] = [];
+  for (let i = r.varint(); i > 0; i--) blocks.push(r.bytes());
+
+  const groups = isRecord(header) ? header.groups : null;
+  if (Array.isArray(groups))
+    for (const g of groups) {
+      if (!isRecord(g) || typeof g.sestine !== "number") continue;
+      const block = blocks[g.sestine];
+      if (!block) throw new Error("File .sestine corrotto: blocco mancante.");
+      g.sestine = decodeSestine(block);
+    }
+  return header;
+}
@@ -0,0 +1,26 @@
+// src/lib/commitment.test.ts
+import { describe, expect, it } from "vitest";
+import { commitmentPayload, computeCommitment } from "./commitment";
+
+const a = { nums: [1, 2, 3, 4, 5, 6] };
+const b = { nums: [10, 20, 30, 40, 50, 60] };
+
+describe("commitmentPayload", () => {
+  it("non dipende dall'ordine delle sestine", () => {
+    expect(commitmentPayload([a, b], "s")).toBe(commitmentPayload([b, a], "s"));
+  });
+
+  it("resta invariato per le sestine senza SuperStar", () => {
+    expect(commitmentPayload([a], "s")).toBe(
+      "sestine-commit-v1\nseed:s\n1-2-3-4-5-6",
+    );
+  });
+
+  it("copre il SuperStar", () => {
+    const plain = computeCommitment([a, b], "s");
+    const starred = computeCommitment([{ ...a, superstar: 7 }, b], "s");
+    const changed = computeCommitment([{ ...a, superstar: 8 }, b], "s");
+    expect(starred).not.toBe(plain);
+    expect(changed).not.toBe(starred);
+  });
+});
@@ -0,0 +1,75 @@
+// src/lib/commitment.ts
+import { sha256Hex } from "./hash";
+import { hashedLine, type HashedSestina } from "./eventChain";
+import { isSestinaNums } from "./sestine";
+import type { Group, GroupEvent } from "./storage";
+
+/**
+ * Commit–reveal: quando un gruppo è "pronto da giocare" si calcola
+ * SHA-256(chiavi ordinate + seed). Il codice breve va condiviso PRIMA
+ * dell'estrazione; dopo, chiunque abbia l'export del gruppo ricalcola l'hash
+ * e lo confronta. L'evento salvato da solo non basta (si può modificare
+ * insieme alle sestine): fa fede il codice condiviso.
+ */
+export const COMMIT_VERSION = 1;
+
+export type CommitEvent = Extract<GroupEvent, { type: "commit" }>;
+
+// testo canonico: indipendente dall'ordine e dalle chiavi interne delle
+// sestine; il SuperStar giocato fa parte della riga
+export function commitmentPayload(
+  sestine: ReadonlyArray<HashedSestina>,
+  seed: string,
+): string {
+  const keys = sestine
+    .filter((s) => isSestinaNums(s.nums))
+    .map(hashedLine)
+    .sort();
+  return [`sestine-commit-v${COMMIT_VERSION}`, `seed:${seed}`, ...keys].join(
+    "\n",
+  );
+}
+
+export function computeCommitment(
+  sestine: ReadonlyArray<HashedSestina>,
+  seed: string,
+): string {
+  return sha256Hex(commitmentPayload(sestine, seed));
+}
+
+/** Primi 64 bit dell'hash, a blocchi di 4: abbastanza da dettare al telefono. */
+export function shortCode(hash: string): string {
+  return hash.slice(0, 16).toUpperCase().match(/.{4}/g)?.join("-") ?? "";
+}
+
+/** Confronta un codice incollato (breve o completo, con o senza trattini). */
+export function matchesCode(hash: string, code: string): boolean {
+  const c = code.replace(/[^0-9a-f]/gi, "").toLowerCase();
+  return c.length >= 16 && hash.startsWith(c);
+}
+
+export function latestCommit(g: Pick<Group, "events">): CommitEvent | null {
+  for (const ev of g.events) if (ev.type === "commit") return ev;
+  return null;
+}
+
+export type CommitCheck =
+  | { status: "none" }
+  | { status: "ok" | "changed"; event: CommitEvent; currentHash: string };
+
+/** Le sestine attuali del gruppo corrispondono all'ultimo commit? */
+export function verifyGroupCommitment(g: {
+  events: GroupEvent[];
+  sestine: ReadonlyArray<HashedSestina>;
+}): CommitCheck {
+  const event = latestCommit(g);
+  if (!event) return { status: "none" };
+  if (event.version !== COMMIT_VERSION)
+    return { status: "changed", event, currentHash: "" };
+  const currentHash = computeCommitment(g.sestine, event.seed);
+  return {
+    status: currentHash === event.hash ? "ok" : "changed",
+    event,
+    currentHash,
+  };
+}
@@ -0,0 +1,136 @@
+// src/lib/constraintSpace.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  buildConstraintSpace,
+  findConstraintConflicts,
+} from "./constraintSpace";
+import { mulberry32 } from "./rng";
+import {
+  MAX_NUM,
+  isValidSestina,
+  sestinaRank,
+  type Constraints,
+} from "./sestine";
+
+// combinazioni di k elementi di arr (ricorsive: qui ne servono poche)
+function* picks(arr: number[], k: number, from = 0): Generator<number[]> {
+  if (k === 0) {
+    yield [];
+    return;
+  }
+  for (let i = from; i <= arr.length - k; i++)
+    for (const rest of picks(arr, k - 1, i + 1)) yield [arr[i], ...rest];
+}
+
+// tutte le sestine ammesse, per forza bruta: con gli obbligatori fissati
+// restano poche combinazioni da provare
+function bruteForce(c: Constraints): number[] {
+  const must = [...new Set(c.mustInclude)];
+  const rest: number[] = [];
+  for (let n = 1; n <= MAX_NUM; n++) if (!must.includes(n)) rest.push(n);
+  const ranks: number[] = [];
+  for (const pick of picks(rest, 6 - must.length)) {
+    const nums = [...must, ...pick].sort((a, b) => a - b);
+    if (isValidSestina(nums, c)) ranks.push(sestinaRank(nums));
+  }
+  return ranks.sort((a, b) => a - b);
+}
+
+const cases: Array<[string, Constraints]> = [
+  [
+    "somma e pari",
+    {
+      exclude: [],
+      mustInclude: [1, 2, 3, 4],
+      mustIncludeAnyOf: [],
+      sum: { min: 30, max: 60 },
+      evenCount: { min: 2, max: 4 },
+    },
+  ],
+  [
+    "decine, consecutivi e finali",
+    {
+      exclude: [11, 12, 13, 14, 15, 16, 17, 18, 19],
+      mustInclude: [10, 21, 32],
+      mustIncludeAnyOf: [],
+      maxPerDecade: 2,
+      maxConsecutive: 1,
+      distinctFinalDigits: true,
+    },
+  ],
+  [
+    "almeno uno tra e bassi",
+    {
+      exclude: [50],
+      mustInclude: [1, 2, 3],
+      mustIncludeAnyOf: [5, 50, 60],
+      lowCount: { min: 3, max: 4 },
+    },
+  ],
+];
+
+describe("buildConstraintSpace", () => {
+  it.each(cases)("conta come la forza bruta: %s", (_, c) => {
+    const expected = bruteForce(c).length;
+    expect(expected).toBeGreaterThan(0);
+    expect(buildConstraintSpace(c).total).toBe(expected);
+  });
+
+  it.each(cases)("at() elenca ogni ammessa una volta: %s", (_, c) => {
+    const space = buildConstraintSpace(c);
+    const ranks: number[] = [];
+    for (let i = 0; i < space.total; i++) ranks.push(sestinaRank(space.at(i)));
+    expect(ranks.sort((a, b) => a - b)).toEqual(bruteForce(c));
+  });
+
+  it("sample() estrae solo sestine ammesse", () => {
+    const [, c] = cases[1];
+    const space = buildConstraintSpace(c);
+    const rng = mulberry32(11);
+    for (let i = 0; i < 200; i++)
+      expect(isValidSestina(space.sample(rng), c)).toBe(true);
+  });
+
+  it("senza sestine ammesse, at() e sample() lanciano", () => {
+    const space = buildConstraintSpace({
+      exclude: [],
+      mustInclude: [1, 2, 3, 4, 5, 6],
+      mustIncludeAnyOf: [],
+      sum: { min: 100, max: 525 },
+    });
+    expect(space.total).toBe(0);
+    expect(() => space.at(0)).toThrow();
+    expect(() => space.sample(mulberry32(1))).toThrow();
+  });
+});
+
+describe("findConstraintConflicts", () => {
+  const none: Constraints = {
+    exclude: [],
+    mustInclude: [],
+    mustIncludeAnyOf: [],
+  };
+
+  it("nessun conflitto senza vincoli", () => {
+    expect(findConstraintConflicts(none)).toEqual([]);
+  });
+
+  it("trova i conflitti statici", () => {
+    const messages = findConstraintConflicts(
+      {
+        exclude: [5, 7, 8],
+        mustInclude: [1, 2, 3, 4, 5, 6, 9],
+        mustIncludeAnyOf: [7, 8],
+        sum: { min: 200, max: 100 },
+      },
+      { lucky: [10, 11], unlucky: [11] },
+    ).map((i) => i.message);
+    expect(messages).toEqual([
+      "Numeri sia fortunati che sfortunati: 11.",
+      "Numeri obbligatori ma anche esclusi: 5.",
+      "Troppi numeri obbligatori (>6).",
+      "Tutti i numeri di “almeno uno tra” sono esclusi.",
+      "Intervallo somma: min > max.",
+    ]);
+  });
+});
@@ -0,0 +1,547 @@
+// src/lib/constraintSpace.ts
+import {
+  LOW_MAX,
+  MAX_NUM,
+  MIN_NUM,
+  TOTAL_SESTINE,
+  combinations,
+  decadeOf,
+  isValidSestina,
+  sestinaKey,
+  sestinaRank,
+  type Constraints,
+  type Sestina,
+  type SestinaNums,
+} from "./sestine";
+import { mulberry32, type RNG, type RngRef } from "./rng";
+import { chiSquareUniform } from "./stats";
+import type { DistanceIndex } from "./distance";
+
+/**
+ * Conteggio esatto delle sestine che rispettano i vincoli.
+ * Programmazione dinamica sui numeri 1..90 in ordine: a ogni numero si
+ * decide "prendo / non prendo" tenendo nello stato solo le grandezze dei
+ * vincoli attivi (quanti presi, somma, pari, bassi, decina corrente, serie
+ * di consecutivi, cifre finali usate, anyOf soddisfatto).
+ *
+ * La stessa tabella permette di estrarre la i-esima sestina ammessa: con un
+ * indice uniforme in [0, total) si ottiene un campionamento esattamente
+ * uniforme, senza tentativi a vuoto.
+ */
+
+export type ConstraintSpace = {
+  total: number;
+  /** i-esima sestina ammessa (0 <= index < total), ordine della DP */
+  at(index: number): SestinaNums;
+  /** sestina ammessa estratta in modo uniforme */
+  sample(rng: RNG): SestinaNums;
+};
+
+// stato della DP prima di decidere sul numero n
+type State = [
+  k: number,
+  sum: number,
+  even: number,
+  low: number,
+  dec: number,
+  run: number,
+  mask: number,
+  any: number,
+];
+
+// radici per impacchettare lo stato in un unico number (< 2^53)
+const R_K = 7;
+const R_SUM = 526;
+const R_SMALL = 7;
+const R_MASK = 1024;
+
+function emptySpace(): ConstraintSpace {
+  const fail = (): never => {
+    throw new Error("Nessuna sestina soddisfa questi vincoli.");
+  };
+  return { total: 0, at: fail, sample: fail };
+}
+
+export function buildConstraintSpace(c: Constraints): ConstraintSpace {
+  const excluded = new Set(c.exclude);
+  const forced = new Set(c.mustInclude);
+  const anyOf = new Set(c.mustIncludeAnyOf);
+
+  const trackSum = !!c.sum;
+  const trackEven = !!c.evenCount;
+  const trackLow = !!c.lowCount;
+  const trackDec = c.maxPerDecade !== undefined;
+  const trackRun = c.maxConsecutive !== undefined;
+  const trackMask = !!c.distinctFinalDigits;
+  const trackAny = anyOf.size > 0;
+
+  const sumMin = c.sum?.min ?? 0;
+  const sumMax = c.sum?.max ?? Infinity;
+  const evenMin = c.evenCount?.min ?? 0;
+  const evenMax = c.evenCount?.max ?? 6;
+  const lowMin = c.lowCount?.min ?? 0;
+  const lowMax = c.lowCount?.max ?? 6;
+  const decMax = c.maxPerDecade ?? 6;
+  const runMax = c.maxConsecutive ?? 6;
+
+  // quanti numeri ammessi / obbligatori restano da n in poi
+  const availFrom = Array(MAX_NUM + 2).fill(0);
+  const forcedFrom = Array(MAX_NUM + 2).fill(0);
+  for (let n = MAX_NUM; n >= MIN_NUM; n--) {
+    availFrom[n] =
+      availFrom[n + 1] + (excluded.has(n) && !forced.has(n) ? 0 : 1);
+    forcedFrom[n] = forcedFrom[n + 1] + (forced.has(n) ? 1 : 0);
+  }
+
+  // un numero sia obbligatorio che escluso rende tutto impossibile
+  for (const n of forced) if (excluded.has(n)) return emptySpace();
+
+  const memo: Array<Map<number, number>> = Array.from(
+    { length: MAX_NUM + 2 },
+    () => new Map(),
+  );
+
+  // decina "vista" da n: se n apre una decina nuova il conteggio riparte
+  function decBefore(n: number, dec: number): number {
+    return decadeOf(n) !== decadeOf(n - 1) ? 0 : dec;
+  }
+
+  // stato dopo aver preso n, oppure null se n non si può prendere
+  function take(n: number, st: State): State | null {
+    if (excluded.has(n)) return null;
+    const [k, sum, even, low, dec, run, mask, any] = st;
+    const bit = 1 << (n % 10);
+    const s2 = trackSum ? sum + n : 0;
+    const e2 = trackEven ? even + (n % 2 === 0 ? 1 : 0) : 0;
+    const l2 = trackLow ? low + (n <= LOW_MAX ? 1 : 0) : 0;
+    const d2 = trackDec ? decBefore(n, dec) + 1 : 0;
+    const r2 = trackRun ? run + 1 : 0;
+    if (
+      s2 > sumMax ||
+      e2 > evenMax ||
+      l2 > lowMax ||
+      d2 > decMax ||
+      r2 > runMax ||
+      (trackMask && mask & bit)
+    )
+      return null;
+    return [
+      k + 1,
+      s2,
+      e2,
+      l2,
+      d2,
+      r2,
+      trackMask ? mask | bit : 0,
+      trackAny && (any || anyOf.has(n)) ? 1 : 0,
+    ];
+  }
+
+  // stato dopo aver saltato n, oppure null se n è obbligatorio
+  function skip(n: number, st: State): State | null {
+    if (forced.has(n)) return null;
+    const [k, sum, even, low, dec, , mask, any] = st;
+    return [k, sum, even, low, decBefore(n, dec), 0, mask, any];
+  }
+
+  function count(n: number, st: State): number {
+    const [k, sum, even, low, dec, run, mask, any] = st;
+    const left = 6 - k;
+
+    if (left === 0) {
+      if (forcedFrom[n] > 0) return 0;
+      if (trackSum && sum < sumMin) return 0;
+      if (trackEven && even < evenMin) return 0;
+      if (trackLow && low < lowMin) return 0;
+      if (trackAny && !any) return 0;
+      return 1;
+    }
+
+    if (n > MAX_NUM) return 0;
+    if (availFrom[n] < left || forcedFrom[n] > left) return 0;
+    if (trackEven && even + left < evenMin) return 0;
+    if (trackLow && low + left < lowMin) return 0;
+    if (trackSum && sum + left * MAX_NUM < sumMin) return 0;
+
+    // stesso stato "a meno della decina" se n apre una decina nuova
+    const d = decBefore(n, dec);
+
+    const key =
+      k +
+      R_K *
+        (sum +
+          R_SUM *
+            (even +
+              R_SMALL *
+                (low +
+                  R_SMALL *
+                    (d + R_SMALL * (run + R_SMALL * (mask + R_MASK * any))))));
+    const layer = memo[n];
+    const hit = layer.get(key);
+    if (hit !== undefined) return hit;
+
+    const t = take(n, st);
+    const s = skip(n, st);
+    const total = (t ? count(n + 1, t) : 0) + (s ? count(n + 1, s) : 0);
+
+    layer.set(key, total);
+    return total;
+  }
+
+  const root: State = [0, 0, 0, 0, 0, 0, 0, 0];
+  const total = count(MIN_NUM, root);
+  if (total === 0) return emptySpace();
+
+  function at(index: number): SestinaNums {
+    if (!Number.isInteger(index) || index < 0 || index >= total)
+      throw new Error(`Indice fuori dallo spazio ammesso: ${index}`);
+
+    // si scende nella DP: prima i rami "prendo", poi "non prendo"
+    const nums: number[] = [];
+    let st = root;
+    let i = index;
+    for (let n = MIN_NUM; nums.length < 6; n++) {
+      const t = take(n, st);
+      const viaTake = t ? count(n + 1, t) : 0;
+      if (i < viaTake) {
+        nums.push(n);
+        st = t!;
+      } else {
+        i -= viaTake;
+        st = skip(n, st)!;
+      }
+    }
+    return nums;
+  }
+
+  return {
+    total,
+    at,
+    sample: (rng) => at(uniformIndex(rng, total)),
+  };
+}
+
+/**
+ * Intero uniforme in [0, n): 53 bit da due estrazioni a 32 bit, scartando la
+ * coda che renderebbe la distribuzione sbilanciata (probabilità < 2^-23).
+ */
+export function uniformIndex(rng: RNG, n: number): number {
+  const limit = Math.floor(2 ** 53 / n) * n;
+  for (;;) {
+    const hi = Math.floor(rng() * 2 ** 21);
+    const lo = Math.floor(rng() * 2 ** 32);
+    const x = hi * 2 ** 32 + lo;
+    if (x < limit) return x % n;
+  }
+}
+
+export function countMatchingSestine(c: Constraints): number {
+  return buildConstraintSpace(c).total;
+}
+
+/* ---------------- campionamento uniforme ---------------- */
+
+// la tabella può pesare centinaia di MB: si tiene solo l'ultima
+let cached: { sig: string; space: ConstraintSpace } | null = null;
+
+export function constraintSignature(c: Constraints): string {
+  const sorted = (a: number[]) => [...new Set(a)].sort((x, y) => x - y);
+  return JSON.stringify({
+    ...c,
+    exclude: sorted(c.exclude),
+    mustInclude: sorted(c.mustInclude),
+    mustIncludeAnyOf: sorted(c.mustIncludeAnyOf),
+  });
+}
+
+export function constraintSpaceFor(c: Constraints): ConstraintSpace {
+  const sig = constraintSignature(c);
+  if (cached?.sig !== sig) cached = { sig, space: buildConstraintSpace(c) };
+  return cached.space;
+}
+
+/** Una sestina valida, estratta con probabilità uguale tra tutte le ammesse. */
+export function generateRandomSestinaWithConstraints(
+  rng: RNG,
+  constraints: Constraints,
+): SestinaNums {
+  if (new Set(constraints.mustInclude).size > 6)
+    throw new Error("Vincolo impossibile: troppi numeri obbligatori (>6).");
+  return constraintSpaceFor(constraints).sample(rng);
+}
+
+/**
+ * Flusso di tentativi numerati: il tentativo j usa rngFactory(j), a partire da
+ * `start`. Un tentativo è scartato se la sestina esiste già (rank) o se
+ * `blocked` la esclude; `onSkip` riceve ogni scarto. `next` è il primo
+ * tentativo non usato: riprendendo da lì il risultato non dipende da come è
+ * spezzata la generazione.
+ */
+export function generateUniqueSestine(
+  count: number,
+  existingRanks: Set<number>,
+  rngFactory: (attempt: number) => RNG,
+  constraints: Constraints,
+  start: number,
+  options?: {
+    seed?: string;
+    superstitionMode?: boolean;
+    rng?: RngRef;
+    onSkip?: (attempt: number, rank: number) => void;
+    // esclusione esterna (archivio storico): conta come una sestina esistente
+    blocked?: (nums: number[], rank: number) => boolean;
+    // distanza minima dal resto del gruppo (vedi distance.ts)
+    distance?: DistanceIndex;
+  },
+): { sestine: Sestina[]; next: number } {
+  const out: Sestina[] = [];
+  const now = new Date();
+  let attempt = start;
+  let misses = 0;
+
+  while (out.length < count) {
+    const nonce = attempt++;
+    const nums = generateRandomSestinaWithConstraints(
+      rngFactory(nonce),
+      constraints,
+    );
+    const rank = sestinaRank(nums);
+
+    if (existingRanks.has(rank) || options?.blocked?.(nums, rank)) {
+      options?.onSkip?.(nonce, rank);
+      if (++misses > 50_000) {
+        throw new Error(
+          "Impossibile generare sestine uniche: troppi duplicati (limite nonce).",
+        );
+      }
+      continue;
+    }
+
+    misses = 0;
+    if (options?.distance && !options.distance.admits(nums)) continue;
+
+    existingRanks.add(rank);
+    options?.distance?.add(nums);
+    out.push({
+      nums,
+      key: sestinaKey(nums),
+      createdAt: new Date(now.getTime() + out.length).toISOString(),
+      frozen: false,
+      meta: {
+        seed: options?.seed,
+        attemptNonce: nonce,
+        superstitionMode: options?.superstitionMode,
+        rng: options?.rng,
+      },
+    });
+  }
+
+  return { sestine: out, next: attempt };
+}
+
+/* ---------------- diagnostica ---------------- */
+
+export type ConstraintIssue = {
+  level: "error" | "warning";
+  message: string;
+};
+
+export type ConstraintAnalysis = {
+  total: number | null; // null = conteggio ancora in corso
+  used: number; // già presenti in qualche gruppo e ammesse dai vincoli
+  remaining: number | null;
+  issues: ConstraintIssue[];
+};
+
+function list(nums: number[]): string {
+  return nums.join(", ");
+}
+
+function intersect(a: number[], b: number[]): number[] {
+  const sb = new Set(b);
+  return Array.from(new Set(a.filter((x) => sb.has(x)))).sort((x, y) => x - y);
+}
+
+/** Conflitti "statici", senza bisogno del conteggio. */
+export function findConstraintConflicts(
+  c: Constraints,
+  extra?: { lucky?: number[]; unlucky?: number[] },
+): ConstraintIssue[] {
+  const issues: ConstraintIssue[] = [];
+  const err = (message: string) => issues.push({ level: "error", message });
+
+  const both = intersect(extra?.lucky ?? [], extra?.unlucky ?? []);
+  if (both.length) err(`Numeri sia fortunati che sfortunati: ${list(both)}.`);
+
+  const forcedExcluded = intersect(c.mustInclude, c.exclude);
+  if (forcedExcluded.length)
+    err(`Numeri obbligatori ma anche esclusi: ${list(forcedExcluded)}.`);
+
+  if (new Set(c.mustInclude).size > 6) err("Troppi numeri obbligatori (>6).");
+
+  if (c.mustIncludeAnyOf.length > 0) {
+    const ex = new Set(c.exclude);
+    if (c.mustIncludeAnyOf.every((n) => ex.has(n)))
+      err("Tutti i numeri di “almeno uno tra” sono esclusi.");
+  }
+
+  const ranges: Array<[string, { min: number; max: number } | undefined]> = [
+    ["somma", c.sum],
+    ["pari", c.evenCount],
+    ["bassi", c.lowCount],
+  ];
+  for (const [label, r] of ranges)
+    if (r && r.min > r.max) err(`Intervallo ${label}: min > max.`);
+
+  return issues;
+}
+
+export function analyzeConstraints(
+  c: Constraints,
+  ctx: {
+    total: number | null;
+    used: number;
+    requested?: number;
+    lucky?: number[];
+    unlucky?: number[];
+  },
+): ConstraintAnalysis {
+  const issues = findConstraintConflicts(c, ctx);
+  const remaining =
+    ctx.total === null ? null : Math.max(0, ctx.total - ctx.used);
+
+  if (ctx.total === 0) {
+    if (!issues.some((i) => i.level === "error"))
+      issues.push({
+        level: "error",
+        message: "Nessuna sestina soddisfa questi vincoli.",
+      });
+  } else if (remaining === 0) {
+    issues.push({
+      level: "error",
+      message: "Tutte le sestine ammesse sono già presenti nei gruppi.",
+    });
+  } else if (
+    remaining !== null &&
+    ctx.requested !== undefined &&
+    ctx.requested > remaining
+  ) {
+    issues.push({
+      level: "warning",
+      message: `Richieste ${ctx.requested} sestine ma ne restano solo ${remaining} uniche con questi vincoli.`,
+    });
+  }
+
+  return { total: ctx.total, used: ctx.used, remaining, issues };
+}
+
+export { TOTAL_SESTINE };
+
+/* ---------------- autoverifica dell'uniformità ---------------- */
+
+export type UniformityCheck = {
+  label: string;
+  total: number; // sestine ammesse (DP)
+  enumerated: number; // sestine ammesse (forza bruta)
+  samples: number;
+  invalid: number; // estratte ma non ammesse
+  chi2: number;
+  df: number;
+  pValue: number;
+  ok: boolean;
+};
+
+export type UniformityReport = {
+  seed: number;
+  checks: UniformityCheck[];
+  ok: boolean;
+};
+
+// spazi piccoli (poche centinaia di sestine) con regole diverse
+const SELF_CHECK_CASES: Array<{
+  label: string;
+  allowed: number[];
+  rules: Omit<Constraints, "exclude">;
+}> = [
+  {
+    label: "12 numeri, almeno uno tra 3 / 33 / 81",
+    allowed: [3, 7, 12, 18, 25, 33, 41, 47, 56, 64, 72, 81],
+    rules: { mustInclude: [], mustIncludeAnyOf: [3, 33, 81] },
+  },
+  {
+    label: "13 numeri, somma 200–320, 2–4 pari, max 2 consecutivi",
+    allowed: [20, 21, 22, 23, 30, 31, 44, 45, 46, 57, 68, 79, 90],
+    rules: {
+      mustInclude: [],
+      mustIncludeAnyOf: [],
+      sum: { min: 200, max: 320 },
+      evenCount: { min: 2, max: 4 },
+      maxConsecutive: 2,
+    },
+  },
+  {
+    label:
+      "14 numeri, obbligatorio 9, 2–3 bassi, max 2 per decina, finali diverse",
+    allowed: [1, 9, 11, 14, 27, 36, 42, 48, 53, 59, 65, 76, 84, 88],
+    rules: {
+      mustInclude: [9],
+      mustIncludeAnyOf: [],
+      lowCount: { min: 2, max: 3 },
+      maxPerDecade: 2,
+      distinctFinalDigits: true,
+    },
+  },
+];
+
+/**
+ * Verifica statistica del campionatore: su spazi piccoli enumera per forza
+ * bruta le sestine ammesse, ne estrae ~perCell volte tante e applica un
+ * chi-quadro contro la distribuzione uniforme.
+ */
+export function uniformitySelfCheck(
+  seed: number,
+  perCell = 50,
+  alpha = 0.001,
+): UniformityReport {
+  const rng = mulberry32(seed);
+
+  const checks = SELF_CHECK_CASES.map(({ label, allowed, rules }) => {
+    const allow = new Set(allowed);
+    const c: Constraints = {
+      ...rules,
+      exclude: Array.from({ length: MAX_NUM }, (_, i) => i + 1).filter(
+        (n) => !allow.has(n),
+      ),
+    };
+
+    const index = new Map<number, number>();
+    for (const nums of combinations(allowed, 6))
+      if (isValidSestina(nums, c)) index.set(sestinaRank(nums), index.size);
+
+    const space = buildConstraintSpace(c);
+    const observed = Array(index.size).fill(0);
+    const samples = space.total * perCell;
+    let invalid = 0;
+
+    for (let i = 0; i < samples; i++) {
+      const cell = index.get(sestinaRank(space.sample(rng)));
+      if (cell === undefined) invalid++;
+      else observed[cell]++;
+    }
+
+    const { chi2, df, pValue } = chiSquareUniform(observed);
+    return {
+      label,
+      total: space.total,
+      enumerated: index.size,
+      samples,
+      invalid,
+      chi2,
+      df,
+      pValue,
+      ok: space.total === index.size && invalid === 0 && pValue > alpha,
+    };
+  });
+
+  return { seed, checks, ok: checks.every((c) => c.ok) };
+}
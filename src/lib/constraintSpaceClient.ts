@@ -0,0 +1,95 @@
+// src/lib/constraintSpaceClient.ts
+import type { UniformityReport } from "./constraintSpace";
+import type { Constraints } from "./sestine";
+
+export type ConstraintsRequest =
+  | { id: number; type: "count"; constraints: Constraints }
+  | { id: number; type: "selfCheck"; seed: number };
+
+export type ConstraintsResponse =
+  | { id: number; type: "count"; total: number }
+  | { id: number; type: "selfCheck"; report: UniformityReport }
+  | { id: number; type: "error"; message: string };
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<
+  number,
+  { resolve: (r: ConstraintsResponse) => void; reject: (e: Error) => void }
+>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(
+    new URL("../workers/constraints.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  worker.onmessage = (e: MessageEvent<ConstraintsResponse>) => {
+    const p = pending.get(e.data.id);
+    if (!p) return;
+    pending.delete(e.data.id);
+    if (e.data.type === "error") p.reject(new Error(e.data.message));
+    else p.resolve(e.data);
+  };
+  return worker;
+}
+
+type Request =
+  | { type: "count"; constraints: Constraints }
+  | { type: "selfCheck"; seed: number };
+
+function request(msg: Request): Promise<ConstraintsResponse> {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ ...msg, id });
+  });
+}
+
+// conteggi: uno solo in corso nel worker e al massimo uno in attesa. La DP
+// non si interrompe, ma una richiesta nuova prende il posto di quella in
+// attesa, che non parte più: mentre si modificano i vincoli non si accodano
+// conteggi già inutili
+type CountJob = {
+  constraints: Constraints;
+  resolve: (total: number) => void;
+  reject: (e: Error) => void;
+};
+let counting = false;
+let queuedCount: CountJob | null = null;
+
+function startCount(job: CountJob) {
+  counting = true;
+  request({ type: "count", constraints: job.constraints })
+    .then((r) => job.resolve(r.type === "count" ? r.total : 0), job.reject)
+    .finally(() => {
+      counting = false;
+      const next = queuedCount;
+      queuedCount = null;
+      if (next) startCount(next);
+    });
+}
+
+/**
+ * Conta (in un worker) quante sestine rispettano i vincoli. Se arriva una
+ * richiesta più recente prima che questa parta, questa viene rifiutata.
+ */
+export function countMatchingInWorker(c: Constraints): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const job = { constraints: c, resolve, reject };
+    if (!counting) {
+      startCount(job);
+      return;
+    }
+    queuedCount?.reject(new Error("Conteggio superato da uno più recente."));
+    queuedCount = job;
+  });
+}
+
+/** Autoverifica statistica del campionatore uniforme (in un worker). */
+export async function uniformitySelfCheckInWorker(): Promise<UniformityReport> {
+  const seed = crypto.getRandomValues(new Uint32Array(1))[0];
+  const r = await request({ type: "selfCheck", seed });
+  if (r.type !== "selfCheck") throw new Error("Risposta inattesa dal worker.");
+  return r.report;
+}
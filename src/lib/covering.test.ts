@@ -0,0 +1,78 @@
+// src/lib/covering.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  computeGuarantee,
+  createCoveringSearch,
+  verifyCovering,
+} from "./covering";
+import { mulberry32 } from "./rng";
+import { expandFullSystem } from "./systems";
+
+const pool = [3, 11, 19, 27, 35, 43, 51, 59];
+const guarantee = { condition: 3, atLeast: 3 };
+
+// C(8, 6, 3) = 4: ogni sestina lascia fuori una coppia del pool, e quattro
+// coppie disgiunte bastano perché ogni terna ne eviti almeno una
+const design = [
+  [19, 27, 35, 43, 51, 59],
+  [3, 11, 35, 43, 51, 59],
+  [3, 11, 19, 27, 51, 59],
+  [3, 11, 19, 27, 35, 43],
+];
+
+describe("verifyCovering", () => {
+  it("accetta un covering noto", () => {
+    expect(verifyCovering(design, pool, guarantee)).toEqual({
+      ok: true,
+      targets: 56,
+      uncovered: 0,
+      counterexample: undefined,
+    });
+  });
+
+  it("con una sestina in meno trova un controesempio", () => {
+    const check = verifyCovering(design.slice(1), pool, guarantee);
+    expect(check.ok).toBe(false);
+    // una terna che tocca tutte e tre le coppie lasciate fuori
+    const left = [
+      [19, 27],
+      [35, 43],
+      [51, 59],
+    ];
+    for (const pair of left)
+      expect(pair.some((n) => check.counterexample?.includes(n))).toBe(true);
+  });
+});
+
+describe("createCoveringSearch", () => {
+  it("arriva al minimo e il risultato regge la verifica", () => {
+    const search = createCoveringSearch(
+      pool,
+      guarantee,
+      new Set(),
+      mulberry32(5),
+    );
+    search.step(20_000);
+    const best = search.best();
+    expect(best).toHaveLength(4);
+    expect(verifyCovering(best ?? [], pool, guarantee).ok).toBe(true);
+  });
+});
+
+describe("computeGuarantee", () => {
+  it("misura la garanzia esatta del covering", () => {
+    const report = computeGuarantee(design, pool, { k: 3, atLeast: 3 });
+    expect(report.levels[2]).toMatchObject({ k: 3, draws: 56, minBest: 3 });
+    // sei numeri estratti su otto: la coppia esclusa tocca sempre una di quelle
+    // lasciate fuori dalle sestine
+    expect(report.levels[5]).toMatchObject({ k: 6, draws: 28, minBest: 5 });
+    expect(report.breaking.count).toBe(0);
+  });
+
+  it("un sistema integrale garantisce il massimo a ogni livello", () => {
+    const full = [1, 2, 3, 4, 5, 6, 7];
+    const report = computeGuarantee(expandFullSystem(full), full);
+    expect(report.levels.map((l) => l.minBest)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(report.breaking).toMatchObject({ k: 6, atLeast: 7, count: 7 });
+  });
+});
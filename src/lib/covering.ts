@@ -0,0 +1,512 @@
+// src/lib/covering.ts
+import type { RNG } from "./rng";
+import { binom, sestinaRank, type SestinaNums } from "./sestine";
+import { SYSTEM_POOL_MAX, SYSTEM_POOL_MIN, normalizePool } from "./systems";
+
+/**
+ * Sistemi ridotti come covering design sul pool di N numeri.
+ * Garanzia "se escono `condition` numeri del pool, almeno una sestina ne
+ * contiene `atLeast`": ogni sottoinsieme di `condition` numeri del pool
+ * (un "bersaglio") deve avere intersezione >= atLeast con qualche sestina.
+ *
+ * Tutto lavora su bitmask degli indici del pool (N <= 20 → 2^20 maschere).
+ */
+
+export type Guarantee = {
+  condition: number; // numeri del pool estratti (m)
+  atLeast: number; // numeri garantiti su almeno una sestina (t)
+};
+
+/** Garanzia verificata, salvata nell'evento del gruppo. */
+export type SystemCertificate = Guarantee & {
+  statement: string;
+  targets: number; // casi controllati, C(N, condition)
+  ticketRanks: number[];
+  verifiedAt: string;
+};
+
+export type CoveringStatus = {
+  phase: "greedy" | "improve";
+  size: number; // sestine della soluzione corrente
+  bestSize: number | null; // miglior soluzione valida trovata
+  uncovered: number; // bersagli scoperti nella soluzione corrente
+  targets: number;
+};
+
+export type CoveringSearch = {
+  step: (budget: number) => void;
+  status: () => CoveringStatus;
+  /** miglior sistema valido trovato (null finché il greedy non finisce) */
+  best: () => SestinaNums[] | null;
+};
+
+export function guaranteeStatement(
+  pool: number[],
+  g: Guarantee,
+  tickets: number,
+): string {
+  return `Se escono ${g.condition} dei tuoi ${pool.length} numeri, almeno una delle ${tickets} sestine ne contiene ${g.atLeast}.`;
+}
+
+export function checkGuarantee(poolSize: number, g: Guarantee): void {
+  if (poolSize < SYSTEM_POOL_MIN || poolSize > SYSTEM_POOL_MAX)
+    throw new Error(
+      `Un sistema richiede da ${SYSTEM_POOL_MIN} a ${SYSTEM_POOL_MAX} numeri.`,
+    );
+  if (!Number.isInteger(g.atLeast) || g.atLeast < 2 || g.atLeast > 5)
+    throw new Error("La garanzia deve essere tra 2 e 5 numeri.");
+  if (
+    !Number.isInteger(g.condition) ||
+    g.condition < g.atLeast ||
+    g.condition > 6
+  )
+    throw new Error(
+      "La condizione deve essere tra la garanzia e 6 numeri estratti.",
+    );
+}
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return (((x + (x >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function bitsOf(mask: number, n: number): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < n; i++) if (mask & (1 << i)) out.push(i);
+  return out;
+}
+
+// combinazioni di posizioni (r su n), memorizzate: sono poche e riusate
+const positionCache = new Map<number, number[][]>();
+
+function positions(n: number, r: number): number[][] {
+  const key = n * 64 + r;
+  let list = positionCache.get(key);
+  if (!list) {
+    list = [];
+    if (r <= n) {
+      const idx = Array.from({ length: r }, (_, i) => i);
+      while (true) {
+        list.push(idx.slice());
+        let i = r - 1;
+        while (i >= 0 && idx[i] === n - r + i) i--;
+        if (i < 0) break;
+        idx[i]++;
+        for (let j = i + 1; j < r; j++) idx[j] = idx[j - 1] + 1;
+      }
+    }
+    positionCache.set(key, list);
+  }
+  return list;
+}
+
+/**
+ * Tutti i sottoinsiemi di `k` elementi del pool (N bit) che hanno almeno
+ * `minCommon` elementi in comune con `mask`.
+ */
+function forEachNear(
+  mask: number,
+  n: number,
+  k: number,
+  minCommon: number,
+  cb: (m: number) => void,
+) {
+  const inside = bitsOf(mask, n);
+  const outside = bitsOf(~mask & ((1 << n) - 1), n);
+  const maxCommon = Math.min(k, inside.length);
+
+  for (let j = minCommon; j <= maxCommon; j++) {
+    if (k - j > outside.length) continue;
+    const inMasks = positions(inside.length, j).map((p) =>
+      p.reduce((acc, i) => acc | (1 << inside[i]), 0),
+    );
+    const outMasks = positions(outside.length, k - j).map((p) =>
+      p.reduce((acc, i) => acc | (1 << outside[i]), 0),
+    );
+    for (const a of inMasks) for (const b of outMasks) cb(a | b);
+  }
+}
+
+function allMasks(n: number, k: number): number[] {
+  return positions(n, k).map((p) => p.reduce((acc, i) => acc | (1 << i), 0));
+}
+
+function maskToNums(mask: number, pool: number[]): SestinaNums {
+  return bitsOf(mask, pool.length).map((i) => pool[i]);
+}
+
+/**
+ * Ricerca di un covering piccolo: costruzione greedy (la sestina che copre
+ * più bersagli scoperti) e poi ricerca locale in stile simulated annealing
+ * (Nurmela–Östergård): si toglie una sestina e si cerca di ricoprire i
+ * bersagli rimasti scoperti scambiando un numero alla volta.
+ *
+ * Le sestine il cui rank è in `excludedRanks` non vengono mai usate
+ * (unicità globale).
+ */
+export function createCoveringSearch(
+  poolIn: number[],
+  g: Guarantee,
+  excludedRanks: Set<number>,
+  rng: RNG,
+): CoveringSearch {
+  const pool = normalizePool(poolIn);
+  checkGuarantee(pool.length, g);
+
+  const n = pool.length;
+  const { condition: m, atLeast: t } = g;
+
+  const targetMasks = allMasks(n, m);
+  const targetIndex = new Int32Array(1 << n).fill(-1);
+  targetMasks.forEach((mask, i) => (targetIndex[mask] = i));
+
+  const candMasks = allMasks(n, 6);
+  const candIndex = new Int32Array(1 << n).fill(-1);
+  const allowed = new Uint8Array(candMasks.length);
+  candMasks.forEach((mask, i) => {
+    candIndex[mask] = i;
+    allowed[i] = excludedRanks.has(sestinaRank(maskToNums(mask, pool))) ? 0 : 1;
+  });
+
+  /* ---------- greedy ---------- */
+
+  // bersagli coperti da una sestina: uguale per tutte all'inizio
+  let perTicket = 0;
+  for (let j = t; j <= Math.min(6, m); j++)
+    perTicket += binom(6, j) * binom(n - 6, m - j);
+
+  const score = new Int32Array(candMasks.length);
+  for (let i = 0; i < score.length; i++) score[i] = allowed[i] ? perTicket : -1;
+
+  const coverCount = new Int32Array(targetMasks.length);
+  let uncoveredCount = targetMasks.length;
+
+  let phase: CoveringStatus["phase"] = "greedy";
+  const current: number[] = []; // maschere della soluzione corrente
+  let best: number[] | null = null;
+
+  function greedyPick() {
+    let bestScore = 0;
+    let picks: number[] = [];
+    for (let i = 0; i < score.length; i++) {
+      if (score[i] > bestScore) {
+        bestScore = score[i];
+        picks = [i];
+      } else if (score[i] === bestScore && bestScore > 0) picks.push(i);
+    }
+    if (bestScore === 0)
+      throw new Error(
+        "Impossibile garantire la copertura: troppe sestine del pool sono già usate in altri gruppi.",
+      );
+
+    const c = picks[Math.floor(rng() * picks.length)];
+    score[c] = -1;
+    current.push(candMasks[c]);
+
+    forEachNear(candMasks[c], n, m, t, (tm) => {
+      const ti = targetIndex[tm];
+      if (coverCount[ti]++ > 0) return;
+      uncoveredCount--;
+      // bersaglio appena coperto: non vale più per nessun candidato
+      forEachNear(tm, n, 6, t, (cm) => {
+        const ci = candIndex[cm];
+        if (score[ci] > 0) score[ci]--;
+      });
+    });
+  }
+
+  /* ---------- ricerca locale ---------- */
+
+  // bersagli scoperti: array + posizione, per estrarne uno a caso in O(1)
+  const uncoveredList: number[] = [];
+  const uncoveredPos = new Int32Array(targetMasks.length).fill(-1);
+  const inSolution = new Set<number>();
+
+  function markUncovered(ti: number) {
+    uncoveredPos[ti] = uncoveredList.length;
+    uncoveredList.push(ti);
+  }
+
+  function markCovered(ti: number) {
+    const pos = uncoveredPos[ti];
+    const last = uncoveredList.pop()!;
+    if (last !== ti) {
+      uncoveredList[pos] = last;
+      uncoveredPos[last] = pos;
+    }
+    uncoveredPos[ti] = -1;
+  }
+
+  function addTicket(mask: number) {
+    inSolution.add(mask);
+    forEachNear(mask, n, m, t, (tm) => {
+      const ti = targetIndex[tm];
+      if (coverCount[ti]++ === 0) markCovered(ti);
+    });
+  }
+
+  function removeTicket(mask: number) {
+    inSolution.delete(mask);
+    forEachNear(mask, n, m, t, (tm) => {
+      const ti = targetIndex[tm];
+      if (--coverCount[ti] === 0) markUncovered(ti);
+    });
+  }
+
+  // sestina della soluzione che, tolta, scopre meno bersagli
+  function leastUseful(): number {
+    let bestIdx = 0;
+    let bestLoss = Infinity;
+    current.forEach((mask, idx) => {
+      let loss = 0;
+      forEachNear(mask, n, m, t, (tm) => {
+        if (coverCount[targetIndex[tm]] === 1) loss++;
+      });
+      if (loss < bestLoss) {
+        bestLoss = loss;
+        bestIdx = idx;
+      }
+    });
+    return bestIdx;
+  }
+
+  function startImprove() {
+    phase = "improve";
+    best = current.slice();
+    inSolution.clear();
+    for (const mask of current) inSolution.add(mask);
+    for (let i = 0; i < coverCount.length; i++)
+      if (coverCount[i] === 0) markUncovered(i);
+    shrink();
+  }
+
+  let temperature = 1;
+
+  function shrink() {
+    if (current.length <= 1) return;
+    const idx = leastUseful();
+    removeTicket(current[idx]);
+    current.splice(idx, 1);
+    temperature = 1;
+  }
+
+  function annealMove() {
+    if (uncoveredList.length === 0) {
+      best = current.slice();
+      shrink();
+      return;
+    }
+
+    // bersaglio scoperto a caso, sestina a caso: un numero della sestina
+    // viene sostituito con uno del bersaglio (aumenta l'intersezione)
+    const target =
+      targetMasks[uncoveredList[Math.floor(rng() * uncoveredList.length)]];
+    const idx = Math.floor(rng() * current.length);
+    const old = current[idx];
+
+    const outBits = bitsOf(old & ~target, n);
+    const inBits = bitsOf(target & ~old, n);
+    if (outBits.length === 0 || inBits.length === 0) return;
+
+    const drop = outBits[Math.floor(rng() * outBits.length)];
+    const add = inBits[Math.floor(rng() * inBits.length)];
+    const next = (old & ~(1 << drop)) | (1 << add);
+    if (inSolution.has(next) || !allowed[candIndex[next]]) return;
+
+    const before = uncoveredList.length;
+    removeTicket(old);
+    addTicket(next);
+    const delta = uncoveredList.length - before;
+
+    if (delta <= 0 || rng() < Math.exp(-delta / temperature)) {
+      current[idx] = next;
+    } else {
+      removeTicket(next);
+      addTicket(old);
+    }
+    temperature = Math.max(0.2, temperature * 0.9995);
+  }
+
+  return {
+    step(budget) {
+      for (let i = 0; i < budget; i++) {
+        if (phase === "greedy") {
+          if (uncoveredCount === 0) startImprove();
+          else greedyPick();
+        } else annealMove();
+      }
+    },
+
+    status: () => ({
+      phase,
+      size: current.length,
+      bestSize: best ? best.length : null,
+      uncovered: phase === "greedy" ? uncoveredCount : uncoveredList.length,
+      targets: targetMasks.length,
+    }),
+
+    best: () =>
+      best
+        ? best
+            .map((mask) => maskToNums(mask, pool))
+            .sort((a, b) => sestinaRank(a) - sestinaRank(b))
+        : null,
+  };
+}
+
+export type CoveringVerification = {
+  ok: boolean;
+  targets: number;
+  uncovered: number;
+  // primo bersaglio non coperto (numeri del pool), se esiste
+  counterexample?: number[];
+};
+
+/** Verifica indipendente: controlla tutti i bersagli del pool. */
+export function verifyCovering(
+  tickets: SestinaNums[],
+  poolIn: number[],
+  g: Guarantee,
+): CoveringVerification {
+  const pool = normalizePool(poolIn);
+  const n = pool.length;
+  const bit = new Map(pool.map((x, i) => [x, 1 << i]));
+
+  const ticketMasks: number[] = [];
+  for (const s of tickets) {
+    let mask = 0;
+    for (const x of s) mask |= bit.get(x) ?? 0;
+    ticketMasks.push(mask);
+  }
+
+  const targets = allMasks(n, g.condition);
+  let uncovered = 0;
+  let counterexample: number[] | undefined;
+  for (const tm of targets) {
+    if (ticketMasks.some((s) => popcount(s & tm) >= g.atLeast)) continue;
+    uncovered++;
+    counterexample ??= maskToNums(tm, pool);
+  }
+
+  return {
+    ok: uncovered === 0,
+    targets: targets.length,
+    uncovered,
+    counterexample,
+  };
+}
+
+/* ---------------- verifica della garanzia di un gruppo ---------------- */
+
+export const GUARANTEE_POOL_MAX = 24;
+
+export type GuaranteeLevel = {
+  k: number; // numeri estratti dal pool
+  draws: number; // C(N, k)
+  minBest: number; // garanzia esatta: punti minimi del miglior biglietto
+  // distribution[h] = estrazioni il cui miglior biglietto fa h punti
+  distribution: number[];
+};
+
+export type GuaranteeReport = {
+  pool: number[];
+  tickets: number;
+  relevantTickets: number; // biglietti con almeno un numero del pool
+  levels: GuaranteeLevel[];
+  // estrazioni che "rompono" la soglia richiesta sul livello scelto
+  breaking: {
+    k: number;
+    atLeast: number;
+    count: number;
+    draws: number[][];
+  };
+};
+
+export function normalizeAuditPool(pool: number[]): number[] {
+  const nums = Array.from(new Set(pool)).sort((a, b) => a - b);
+  if (nums.some((n) => !Number.isInteger(n) || n < 1 || n > 90))
+    throw new Error("I numeri del pool devono essere tra 1 e 90.");
+  if (nums.length < 1 || nums.length > GUARANTEE_POOL_MAX)
+    throw new Error(
+      `Il pool da verificare deve avere da 1 a ${GUARANTEE_POOL_MAX} numeri.`,
+    );
+  return nums;
+}
+
+/**
+ * Garanzia esatta di un insieme di sestine rispetto a un pool: per ogni
+ * estrazione di k numeri del pool, il miglior numero di punti ottenuto da
+ * un biglietto. Invece di confrontare ogni estrazione con ogni biglietto si
+ * usa una trasformata "max sui sottoinsiemi" su 2^N maschere:
+ * best[D] = max |S| con S ⊆ D e S contenuto in qualche biglietto.
+ */
+export function computeGuarantee(
+  tickets: number[][],
+  poolIn: number[],
+  opts?: { k?: number; atLeast?: number; limit?: number },
+): GuaranteeReport {
+  const pool = normalizeAuditPool(poolIn);
+  const n = pool.length;
+  const bit = new Map(pool.map((x, i) => [x, 1 << i]));
+  const size = 1 << n;
+
+  const best = new Uint8Array(size);
+  const seen = new Set<number>();
+  let relevantTickets = 0;
+  for (const s of tickets) {
+    let mask = 0;
+    for (const x of s) mask |= bit.get(x) ?? 0;
+    if (mask) relevantTickets++;
+    if (seen.has(mask)) continue;
+    seen.add(mask);
+    best[mask] = Math.max(best[mask], popcount(mask));
+  }
+
+  // chiusura verso il basso: ogni sottoinsieme di un biglietto vale |S|
+  for (let i = 0; i < n; i++) {
+    const b = 1 << i;
+    for (let mask = size - 1; mask >= 0; mask--)
+      if (mask & b) {
+        const v = best[mask];
+        if (v > 0 && best[mask ^ b] < v - 1) best[mask ^ b] = v - 1;
+      }
+  }
+  // e verso l'alto: un'estrazione vale il massimo dei suoi sottoinsiemi
+  for (let i = 0; i < n; i++) {
+    const b = 1 << i;
+    for (let mask = 0; mask < size; mask++)
+      if (mask & b && best[mask ^ b] > best[mask]) best[mask] = best[mask ^ b];
+  }
+
+  const levels: GuaranteeLevel[] = [];
+  for (let k = 1; k <= Math.min(6, n); k++) {
+    const distribution = Array(k + 1).fill(0);
+    let minBest = k;
+    for (const d of allMasks(n, k)) {
+      distribution[best[d]]++;
+      if (best[d] < minBest) minBest = best[d];
+    }
+    levels.push({ k, draws: binom(n, k), minBest, distribution });
+  }
+
+  const k = Math.min(opts?.k ?? 6, n);
+  const level = levels[k - 1];
+  const atLeast = opts?.atLeast ?? level.minBest + 1;
+  const limit = opts?.limit ?? 50;
+  const draws: number[][] = [];
+  let count = 0;
+  for (const d of allMasks(n, k)) {
+    if (best[d] >= atLeast) continue;
+    count++;
+    if (draws.length < limit) draws.push(maskToNums(d, pool));
+  }
+
+  return {
+    pool,
+    tickets: tickets.length,
+    relevantTickets,
+    levels,
+    breaking: { k, atLeast, count, draws },
+  };
+}
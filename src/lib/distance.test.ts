@@ -0,0 +1,57 @@
+// src/lib/distance.test.ts
+import { describe, expect, it } from "vitest";
+import { analyzeOverlap, createDistanceIndex } from "./distance";
+import { sestinaRank } from "./sestine";
+
+const a = [1, 2, 3, 4, 5, 6];
+const b = [1, 2, 3, 4, 10, 11]; // 4 in comune con a
+const c = [1, 2, 20, 21, 22, 23]; // 2 in comune con a e con b
+const ranks = [a, b, c].map((nums) => sestinaRank(nums));
+
+describe("createDistanceIndex", () => {
+  it("ammette solo sestine entro il limite", () => {
+    const index = createDistanceIndex(3, [sestinaRank(a)]);
+    expect(index.maxShared).toBe(3);
+    expect(index.admits(b)).toBe(false);
+    expect(index.admits(c)).toBe(true);
+    expect(index.admits([1, 2, 3, 30, 31, 32])).toBe(true);
+  });
+
+  it("tiene conto delle sestine aggiunte", () => {
+    const index = createDistanceIndex(2, []);
+    index.add(c);
+    expect(index.admits(a)).toBe(true);
+    expect(index.admits([1, 2, 20, 40, 41, 42])).toBe(false);
+  });
+
+  it("lancia quando il gruppo è saturo", () => {
+    const index = createDistanceIndex(1, [sestinaRank(a)]);
+    expect(() => {
+      for (let i = 0; i <= 50_000; i++) index.admits(b);
+    }).toThrow(/saturo/);
+  });
+});
+
+describe("analyzeOverlap", () => {
+  it("conta ogni coppia oltre il limite una volta sola", () => {
+    const report = analyzeOverlap(ranks, 1);
+    expect(report).toMatchObject({ sestine: 3, maxShared: 4, offending: 3 });
+    expect(report.pairs[0].shared).toEqual([1, 2, 3, 4]);
+  });
+
+  it("riporta solo le coppie oltre il limite", () => {
+    const report = analyzeOverlap(ranks, 3);
+    expect(report).toMatchObject({ maxShared: 4, offending: 1 });
+    expect(report.pairs).toEqual([{ a, b, shared: [1, 2, 3, 4] }]);
+  });
+
+  it("entro il limite non ha massimo né coppie", () => {
+    expect(analyzeOverlap(ranks, 4)).toEqual({
+      sestine: 3,
+      maxShared: null,
+      limit: 4,
+      offending: 0,
+      pairs: [],
+    });
+  });
+});
@@ -0,0 +1,172 @@
+// src/lib/distance.ts
+import { sestinaFromRank, type SestinaNums } from "./sestine";
+
+/**
+ * Distanza minima dentro un gruppo: due sestine condividono più di `maxShared`
+ * numeri se e solo se hanno in comune almeno un sottoinsieme di
+ * `maxShared + 1` numeri. L'indice tiene questi sottoinsiemi (15 per sestina
+ * con maxShared = 3): il controllo di un candidato costa C(6, maxShared + 1)
+ * lookup, indipendentemente da quanto è grande il gruppo.
+ */
+export const MAX_SHARED_OPTIONS = [1, 2, 3, 4, 5] as const;
+
+// rifiuti consecutivi oltre i quali il gruppo si considera saturo
+const MAX_REJECTIONS = 50_000;
+
+// sottoinsieme ordinato → numero (7 bit per numero, fino a 6 numeri < 2^53)
+function encode(nums: readonly number[]): number {
+  let key = 0;
+  for (const n of nums) key = key * 128 + n;
+  return key;
+}
+
+function forEachSubset(
+  nums: readonly number[],
+  k: number,
+  visit: (subset: number[]) => boolean | void,
+): boolean {
+  const pick: number[] = [];
+  const rec = (from: number): boolean => {
+    if (pick.length === k) return visit(pick) === true;
+    for (let i = from; i <= nums.length - (k - pick.length); i++) {
+      pick.push(nums[i]);
+      const stop = rec(i + 1);
+      pick.pop();
+      if (stop) return true;
+    }
+    return false;
+  };
+  return rec(0);
+}
+
+/** Chiavi dei sottoinsiemi di `k` numeri di una sestina ordinata. */
+export function subsetKeys(nums: readonly number[], k: number): number[] {
+  const out: number[] = [];
+  forEachSubset(nums, k, (s) => {
+    out.push(encode(s));
+  });
+  return out;
+}
+
+// regola di un run: limite + sestine del gruppo già presenti all'inizio
+export type DistanceRule = { maxShared: number; baseRanks: number[] };
+
+export type DistanceIndex = {
+  maxShared: number;
+  /**
+   * La sestina (ordinata) rispetta il limite contro tutte quelle indicizzate?
+   * Dopo troppi rifiuti di fila lancia: il gruppo non ammette altre sestine.
+   */
+  admits: (nums: readonly number[]) => boolean;
+  add: (nums: readonly number[]) => void;
+};
+
+export function createDistanceIndex(
+  maxShared: number,
+  ranks: Iterable<number>,
+): DistanceIndex {
+  const k = Math.max(0, Math.min(5, Math.floor(maxShared))) + 1;
+  const subsets = new Set<number>();
+  let rejected = 0;
+
+  const add = (nums: readonly number[]) => {
+    forEachSubset(nums, k, (s) => {
+      subsets.add(encode(s));
+    });
+  };
+  for (const r of ranks) add(sestinaFromRank(r));
+
+  return {
+    maxShared: k - 1,
+    admits(nums) {
+      const clash = forEachSubset(nums, k, (s) => subsets.has(encode(s)));
+      if (!clash) {
+        rejected = 0;
+        return true;
+      }
+      if (++rejected > MAX_REJECTIONS)
+        throw new Error(
+          `Nessuna sestina compatibile con "al massimo ${k - 1} numeri in comune": il gruppo è saturo con questi vincoli.`,
+        );
+      return false;
+    },
+    add,
+  };
+}
+
+/* ---------------- analisi ---------------- */
+
+export type OverlapPair = {
+  a: SestinaNums;
+  b: SestinaNums;
+  shared: number[];
+};
+
+export type OverlapReport = {
+  sestine: number;
+  // massimo di numeri in comune tra due sestine, se oltre il limite; null se
+  // nessuna coppia supera il limite
+  maxShared: number | null;
+  limit: number;
+  offending: number; // coppie di sestine oltre il limite
+  pairs: OverlapPair[]; // le prime `cap`, dalla più vicina
+};
+
+function bucketsOf(list: SestinaNums[], k: number): Map<number, number[]> {
+  const buckets = new Map<number, number[]>();
+  list.forEach((nums, idx) =>
+    forEachSubset(nums, k, (s) => {
+      const key = encode(s);
+      const b = buckets.get(key);
+      if (b) b.push(idx);
+      else buckets.set(key, [idx]);
+    }),
+  );
+  return buckets;
+}
+
+/**
+ * Coppie del gruppo che superano `limit` e massima sovrapposizione tra loro,
+ * con una sola passata sui sottoinsiemi di `limit + 1` numeri: due sestine
+ * oltre il limite stanno almeno in un secchio comune. Ogni coppia si conta una
+ * volta sola, nel secchio del primo sottoinsieme dell'intersezione.
+ */
+export function analyzeOverlap(
+  ranks: ArrayLike<number>,
+  limit: number,
+  cap = 50,
+): OverlapReport {
+  const list = Array.from(ranks, sestinaFromRank);
+  const report: OverlapReport = {
+    sestine: list.length,
+    maxShared: null,
+    limit,
+    offending: 0,
+    pairs: [],
+  };
+
+  const k = limit + 1;
+  const found: OverlapPair[] = [];
+  for (const [key, members] of bucketsOf(list, k)) {
+    for (let i = 0; i < members.length; i++)
+      for (let j = i + 1; j < members.length; j++) {
+        const a = list[members[i]];
+        const b = list[members[j]];
+        const inB = new Set(b);
+        const shared = a.filter((n) => inB.has(n));
+        if (encode(shared.slice(0, k)) !== key) continue;
+        report.offending++;
+        report.maxShared = Math.max(report.maxShared ?? 0, shared.length);
+        if (cap === 0) continue;
+        found.push({ a, b, shared });
+        // tiene solo le più vicine, senza accumulare milioni di coppie
+        if (found.length > cap * 4) {
+          found.sort((x, y) => y.shared.length - x.shared.length);
+          found.length = cap;
+        }
+      }
+  }
+  found.sort((x, y) => y.shared.length - x.shared.length);
+  report.pairs = found.slice(0, cap);
+  return report;
+}
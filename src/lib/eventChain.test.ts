@@ -0,0 +1,77 @@
+// src/lib/eventChain.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { appendEvent, groupStateDigest, verifyChain } from "./eventChain";
+import { sha256Hex } from "./hash";
+import type { GroupEvent } from "./storage";
+
+vi.mock("./hash", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./hash")>();
+  return { ...actual, sha256Hex: vi.fn(actual.sha256Hex) };
+});
+
+const a = { nums: [1, 2, 3, 4, 5, 6] };
+const b = { nums: [10, 20, 30, 40, 50, 60] };
+const edit: GroupEvent = {
+  type: "edit",
+  at: "2026-01-01T00:00:00.000Z",
+  action: "remove",
+  count: 1,
+};
+
+describe("groupStateDigest", () => {
+  it("non dipende dall'ordine né dal congelamento", () => {
+    expect(groupStateDigest([a, b])).toBe(
+      groupStateDigest([{ ...b, frozen: true }, a] as (typeof a)[]),
+    );
+  });
+
+  it("non rihasha la stessa lista di sestine", () => {
+    const sestine = [a, b];
+    const g = appendEvent({ sestine, events: [] }, edit);
+    vi.mocked(sha256Hex).mockClear();
+    expect(verifyChain(g).status).toBe("intact");
+    expect(verifyChain(appendEvent(g, edit)).status).toBe("intact");
+    // solo gli hash degli eventi, nessun digest del contenuto
+    const digests = vi
+      .mocked(sha256Hex)
+      .mock.calls.filter(([text]) => text.startsWith("group-state-v1"));
+    expect(digests).toHaveLength(0);
+  });
+
+  it("copre il SuperStar", () => {
+    expect(groupStateDigest([{ ...a, superstar: 7 }])).not.toBe(
+      groupStateDigest([a]),
+    );
+    expect(groupStateDigest([{ ...a, superstar: 7 }])).not.toBe(
+      groupStateDigest([{ ...a, superstar: 8 }]),
+    );
+  });
+});
+
+describe("verifyChain", () => {
+  it("segnala un SuperStar cambiato dopo la chiusura della catena", () => {
+    const g = appendEvent(
+      { sestine: [{ ...a, superstar: 7 }], events: [] },
+      edit,
+    );
+    expect(verifyChain(g).status).toBe("intact");
+    const tampered = { ...g, sestine: [{ ...a, superstar: 8 }] };
+    expect(verifyChain(tampered)).toMatchObject({
+      status: "broken",
+      index: 0,
+    });
+  });
+
+  it("si spezza se viene iniettata una sestina con numeri disordinati", () => {
+    const g = appendEvent({ sestine: [a, b], events: [] }, edit);
+    expect(verifyChain(g).status).toBe("intact");
+    const tampered = {
+      ...g,
+      sestine: [...g.sestine, { nums: [90, 80, 70, 60, 50, 40] }],
+    };
+    expect(verifyChain(tampered)).toMatchObject({
+      status: "broken",
+      index: 0,
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// src/lib/eventChain.ts
+import { sha256Hex } from "./hash";
+import { isSestinaNums, sestinaKey } from "./sestine";
+import type { ChainLink, GroupEvent } from "./storage";
+
+/**
+ * Timeline a prova di manomissione: ogni evento porta l'hash dell'evento
+ * precedente e il digest del contenuto del gruppo subito dopo, più il proprio
+ * hash. Modificare, togliere o inserire un evento (o cambiare le sestine senza
+ * passare da un evento) spezza la catena. Non è una firma: chi riscrive TUTTA
+ * la catena non viene scoperto, per quello c'è il commit condiviso.
+ */
+export const CHAIN_GENESIS = "0".repeat(64);
+
+type ChainedGroup = {
+  sestine: ReadonlyArray<HashedSestina>;
+  events: GroupEvent[];
+};
+
+/** JSON con chiavi ordinate: lo stesso evento dà sempre lo stesso testo. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export type HashedSestina = { nums: number[]; superstar?: number };
+
+/**
+ * Riga di una sestina nei payload hashati: la chiave, più il SuperStar se
+ * giocato (senza SuperStar la riga resta quella di prima, e con lei gli hash
+ * già salvati o condivisi).
+ */
+export function hashedLine(s: HashedSestina): string {
+  const key = sestinaKey(s.nums);
+  return s.superstar === undefined ? key : `${key}*${s.superstar}`;
+}
+
+// una voce non canonica (numeri disordinati, ripetuti, fuori intervallo)
+// entra così com'è: cambiarla o aggiungerla deve spezzare la catena
+function stateLine(s: HashedSestina): string {
+  if (isSestinaNums(s.nums)) return hashedLine(s);
+  return `raw:${canonicalJson({ nums: s.nums, superstar: s.superstar })}`;
+}
+
+// digest per lista di sestine: le liste nello stato non si modificano mai sul
+// posto (ogni operazione ne crea una nuova), quindi la stessa lista ha sempre
+// lo stesso digest. Evita di rihashare il gruppo a ogni render e a ogni evento
+// che non tocca le sestine
+const digestCache = new WeakMap<ReadonlyArray<HashedSestina>, string>();
+
+// contenuto = insieme delle combinazioni con il loro SuperStar (freeze e
+// chiavi interne esclusi)
+export function groupStateDigest(
+  sestine: ReadonlyArray<HashedSestina>,
+): string {
+  const cached = digestCache.get(sestine);
+  if (cached !== undefined) return cached;
+  const keys = sestine.map(stateLine).sort();
+  const digest = sha256Hex(["group-state-v1", ...keys].join("\n"));
+  digestCache.set(sestine, digest);
+  return digest;
+}
+
+export function linkHash(prev: string, state: string, ev: GroupEvent): string {
+  const body = { ...ev };
+  delete body.chain;
+  return sha256Hex(`${prev}\n${state}\n${canonicalJson(body)}`);
+}
+
+function lastLink(events: GroupEvent[]): ChainLink | null {
+  for (const ev of events) if (ev.chain) return ev.chain;
+  return null;
+}
+
+/**
+ * Aggiunge l'evento in testa alla timeline, concatenato all'ultimo.
+ * `g.sestine` deve essere già il contenuto DOPO l'operazione.
+ */
+export function appendEvent<G extends ChainedGroup>(g: G, ev: GroupEvent): G {
+  const prev = lastLink(g.events)?.hash ?? CHAIN_GENESIS;
+  const state = groupStateDigest(g.sestine);
+  const chain = { prev, state, hash: linkHash(prev, state, ev) };
+  return { ...g, events: [{ ...ev, chain }, ...g.events] };
+}
+
+export type ChainStatus =
+  | { status: "empty" }
+  // nessun evento concatenato (dati precedenti alla catena)
+  | { status: "legacy"; events: number }
+  | { status: "intact"; chained: number; legacy: number }
+  | {
+      status: "broken";
+      index: number; // posizione nella timeline (0 = più recente)
+      reason: string;
+    };
+
+export function verifyChain(g: ChainedGroup): ChainStatus {
+  const events = g.events;
+  if (events.length === 0) return { status: "empty" };
+
+  // dal più vecchio al più recente; gli eventi senza catena sono ammessi
+  // solo prima del primo evento concatenato
+  let prev: string | null = null;
+  let legacy = 0;
+  let chained = 0;
+  for (let i = events.length - 1; i >= 0; i--) {
+    const ev = events[i];
+    if (!ev.chain) {
+      if (prev !== null)
+        return {
+          status: "broken",
+          index: i,
+          reason: "evento senza hash dentro la catena",
+        };
+      legacy++;
+      continue;
+    }
+
+    const expectedPrev: string = prev ?? CHAIN_GENESIS;
+    if (ev.chain.prev !== expectedPrev)
+      return {
+        status: "broken",
+        index: i,
+        reason: "collegamento mancante: evento precedente tolto o modificato",
+      };
+    if (linkHash(ev.chain.prev, ev.chain.state, ev) !== ev.chain.hash)
+      return {
+        status: "broken",
+        index: i,
+        reason: "contenuto dell'evento modificato",
+      };
+    prev = ev.chain.hash;
+    chained++;
+  }
+
+  if (chained === 0) return { status: "legacy", events: legacy };
+
+  const last = lastLink(events);
+  if (last && last.state !== groupStateDigest(g.sestine))
+    return {
+      status: "broken",
+      index: 0,
+      reason: "sestine cambiate senza un evento in timeline",
+    };
+
+  return { status: "intact", chained, legacy };
+}
+
+/**
+ * Catena di un gruppo così come arriva (file o storage), prima di migrazioni
+ * e riparazioni: le voci illeggibili restano fuori, quelle non canoniche
+ * entrano nel digest come sono.
+ */
+export function verifyRawChain(g: {
+  sestine?: unknown;
+  events?: unknown;
+}): ChainStatus {
+  const isObject = (x: unknown): x is object =>
+    typeof x === "object" && x !== null && !Array.isArray(x);
+  const events: unknown[] = Array.isArray(g.events) ? g.events : [];
+  const unreadable = events.findIndex((ev) => !isObject(ev));
+  if (unreadable >= 0)
+    return {
+      status: "broken",
+      index: unreadable,
+      reason: "evento illeggibile",
+    };
+  const sestine = Array.isArray(g.sestine) ? g.sestine.filter(isObject) : [];
+  return verifyChain({
+    events: events as GroupEvent[],
+    sestine: sestine as HashedSestina[],
+  });
+}
@@ -1,12 +1,14 @@
 // src/lib/exporters.ts
 import type { AppState } from "./storage";
+import { isSestinaNums, sestinaRank } from "./sestine";
+import { shortCode, verifyGroupCommitment } from "./commitment";
 
 export function toCSV(state: AppState): string {
   const header = [
     "groupId", "groupName", "groupCreatedAt",
-    "indexInGroup", "sestinaKey",
-    "n1", "n2", "n3", "n4", "n5", "n6",
-    "frozen", "createdAt", "seed", "attemptNonce", "superstitionMode"
+    "indexInGroup", "sestinaKey", "rank",
+    "n1", "n2", "n3", "n4", "n5", "n6", "superstar",
+    "frozen", "createdAt", "seed", "attemptNonce", "permIndex", "superstitionMode"
   ].join(",");
 
   const lines: string[] = [header];
@@ -16,11 +18,14 @@ export function toCSV(state: AppState): string {
       const row = [
         esc(g.id), esc(g.name), esc(g.createdAt),
         String(idx + 1), esc(s.key),
+        isSestinaNums(s.nums) ? String(sestinaRank(s.nums)) : "",
         ...s.nums.map(String),
+        String(s.superstar ?? ""),
         String(s.frozen),
         esc(s.createdAt),
         esc(s.meta?.seed ?? ""),
         String(s.meta?.attemptNonce ?? ""),
+        String(s.meta?.permIndex ?? ""),
         String(!!s.meta?.superstitionMode),
       ].join(",");
       lines.push(row);
@@ -47,8 +52,17 @@ export function toTXT(state: AppState) {
 
   for (const g of state.groups) {
     lines.push(`Gruppo: ${g.name} (${g.sestine.length})`);
+    const commit = verifyGroupCommitment(g);
+    if (commit.status !== "none") {
+      const { event } = commit;
+      lines.push(`Commit: ${shortCode(event.hash)} (${new Date(event.at).toLocaleString()})`);
+      lines.push(`  SHA-256 ${event.hash} · seed="${event.seed}"`);
+      if (commit.status === "changed")
+        lines.push(`  ATTENZIONE: sestine modificate dopo il commit`);
+    }
     g.sestine.forEach((s, i) => {
-      lines.push(`${i + 1}) ${s.nums.join(" ")}`);
+      const star = s.superstar !== undefined ? ` ★ ${s.superstar}` : "";
+      lines.push(`${i + 1}) ${s.nums.join(" ")}${star}`);
     });
     lines.push("");
   }
@@ -57,7 +71,7 @@ export function toTXT(state: AppState) {
 }
 
 
-export function downloadTextFile(filename: string, content: string, mime: string) {
+export function downloadTextFile(filename: string, content: string | Uint8Array<ArrayBuffer>, mime: string) {
   const blob = new Blob([content], { type: mime });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
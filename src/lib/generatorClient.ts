@@ -0,0 +1,199 @@
+// src/lib/generatorClient.ts
+import type { DistanceRule } from "./distance";
+import type { HistoryLevel } from "./history";
+import type { GenerationRecipe, GenerationTrace, RecipeStream } from "./recipe";
+import type { Constraints, Sestina } from "./sestine";
+
+/**
+ * Protocollo tra main thread e worker di generazione.
+ * Il worker possiede l'insieme globale dei rank (vedi sestinaRank): il main
+ * thread lo sincronizza solo quando cambia (nuovo Set da useMemo).
+ */
+export type GenerateJob = {
+  count: number;
+  constraints: Constraints;
+  // flusso deterministico (vedi recipe.ts): tentativi/indici da `start`
+  stream: RecipeStream;
+  start: number;
+  // rank da liberare prima di generare (rigenerazione NON bloccate)
+  release?: number[];
+  // nessuna coppia di sestine del gruppo con più di maxShared numeri in comune
+  distance?: DistanceRule;
+  // scarta le estrazioni storiche sincronizzate con syncHistory
+  history?: HistoryLevel;
+  // scarta le sestine con popolarità stimata oltre `max` (vedi popularity.ts)
+  popularity?: { max: number; lastDraw?: number[] };
+  options?: { seed?: string; superstitionMode?: boolean };
+};
+
+export type GeneratorRequest =
+  | { type: "sync"; ranks: Uint32Array }
+  | { type: "history"; ranks: Uint32Array }
+  | { type: "generate"; jobId: number; job: GenerateJob }
+  | { type: "abort"; jobId: number; keepPartial: boolean }
+  | { type: "replay"; jobId: number; recipe: GenerationRecipe };
+
+export type GeneratorResponse =
+  | {
+      type: "batch";
+      jobId: number;
+      sestine: Sestina[];
+      done: number;
+      total: number;
+    }
+  | { type: "done"; jobId: number; aborted: boolean; trace: GenerationTrace }
+  | { type: "replayed"; jobId: number; ranks: number[]; next: number }
+  | { type: "error"; jobId: number; message: string };
+
+export type GenerateProgress = { done: number; total: number };
+
+export type GenerateOutcome = {
+  sestine: Sestina[];
+  aborted: boolean;
+  // dove riprendere il flusso + dati per la ricetta
+  trace: GenerationTrace;
+};
+
+export type GeneratorClient = {
+  syncRanks: (ranks: Set<number>) => void;
+  syncHistory: (drawRanks: number[]) => void;
+  run: (
+    job: GenerateJob,
+    onProgress?: (p: GenerateProgress) => void,
+  ) => Promise<GenerateOutcome>;
+  abort: (keepPartial: boolean) => void;
+  replay: (
+    recipe: GenerationRecipe,
+  ) => Promise<{ ranks: number[]; next: number }>;
+  dispose: () => void;
+};
+
+type ActiveJob = {
+  jobId: number;
+  received: Sestina[];
+  keepPartial: boolean;
+  onProgress?: (p: GenerateProgress) => void;
+  resolve: (o: GenerateOutcome) => void;
+  reject: (e: Error) => void;
+};
+
+export function createGeneratorClient(): GeneratorClient {
+  const worker = new Worker(
+    new URL("../workers/generator.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+
+  let syncedRanks: Set<number> | null = null;
+  let syncedHistory: number[] | null = null;
+  let nextJobId = 1;
+  let active: ActiveJob | null = null;
+  // il replay non tocca i rank del worker: può girare anche da solo
+  const replays = new Map<
+    number,
+    {
+      resolve: (r: { ranks: number[]; next: number }) => void;
+      reject: (e: Error) => void;
+    }
+  >();
+
+  function send(msg: GeneratorRequest) {
+    worker.postMessage(msg);
+  }
+
+  worker.onmessage = (e: MessageEvent<GeneratorResponse>) => {
+    const msg = e.data;
+
+    const pending = replays.get(msg.jobId);
+    if (pending) {
+      replays.delete(msg.jobId);
+      if (msg.type === "replayed")
+        pending.resolve({ ranks: msg.ranks, next: msg.next });
+      else if (msg.type === "error") pending.reject(new Error(msg.message));
+      return;
+    }
+
+    const job = active;
+    if (!job || msg.jobId !== job.jobId) return;
+
+    if (msg.type === "batch") {
+      for (const s of msg.sestine) job.received.push(s);
+      job.onProgress?.({ done: msg.done, total: msg.total });
+      return;
+    }
+
+    active = null;
+
+    if (msg.type === "error") {
+      job.reject(new Error(msg.message));
+      return;
+    }
+    if (msg.type !== "done") return;
+
+    // annullato senza "tieni": il worker ha già ripristinato i suoi rank
+    const sestine = msg.aborted && !job.keepPartial ? [] : job.received;
+    job.resolve({ sestine, aborted: msg.aborted, trace: msg.trace });
+  };
+
+  return {
+    syncRanks(ranks) {
+      if (ranks === syncedRanks) return;
+      syncedRanks = ranks;
+      const buf = Uint32Array.from(ranks);
+      worker.postMessage(
+        { type: "sync", ranks: buf } satisfies GeneratorRequest,
+        [buf.buffer],
+      );
+    },
+
+    syncHistory(drawRanks) {
+      if (drawRanks === syncedHistory) return;
+      syncedHistory = drawRanks;
+      const buf = Uint32Array.from(drawRanks);
+      worker.postMessage(
+        { type: "history", ranks: buf } satisfies GeneratorRequest,
+        [buf.buffer],
+      );
+    },
+
+    run(job, onProgress) {
+      if (active) return Promise.reject(new Error("Generazione già in corso."));
+      const jobId = nextJobId++;
+      return new Promise<GenerateOutcome>((resolve, reject) => {
+        active = {
+          jobId,
+          received: [],
+          keepPartial: false,
+          onProgress,
+          resolve,
+          reject,
+        };
+        send({ type: "generate", jobId, job });
+      });
+    },
+
+    abort(keepPartial) {
+      if (!active) return;
+      active.keepPartial = keepPartial;
+      send({ type: "abort", jobId: active.jobId, keepPartial });
+    },
+
+    replay(recipe) {
+      const jobId = nextJobId++;
+      return new Promise((resolve, reject) => {
+        replays.set(jobId, { resolve, reject });
+        send({ type: "replay", jobId, recipe });
+      });
+    },
+
+    dispose() {
+      worker.terminate();
+      if (active) active.reject(new Error("Worker terminato."));
+      active = null;
+      for (const p of replays.values())
+        p.reject(new Error("Worker terminato."));
+      replays.clear();
+      syncedRanks = null;
+      syncedHistory = null;
+    },
+  };
+}
@@ -0,0 +1,136 @@
+// src/lib/history.ts
+import { subsetKeys } from "./distance";
+import {
+  isSestinaNums,
+  normalizeNums,
+  sestinaFromRank,
+  sestinaRank,
+  type SestinaNums,
+} from "./sestine";
+
+/**
+ * Archivio delle estrazioni storiche (public/data, generato da
+ * scripts/build-superenalotto-data.ts). Valgono le estrazioni con almeno 6
+ * numeri: si prendono i primi 6, l'eventuale settimo (SuperStar) è ignorato;
+ * quelle incomplete dell'archivio più vecchio restano fuori.
+ */
+export type HistoricalDraw = {
+  date: string; // YYYY-MM-DD
+  conc: number | null;
+  nums: SestinaNums;
+};
+
+// "draws": solo le sestine già uscite; "fives": anche quelle con 5 numeri di
+// un'estrazione passata (circa 500 sestine per estrazione)
+export type HistoryLevel = "draws" | "fives";
+
+type IndexFile = {
+  schema_version: number;
+  years: Array<{ year: number; draws: number }>;
+};
+
+type YearFile = {
+  schema_version: number;
+  year: number;
+  draws: Array<{ date: string; conc: number | null; numbers: unknown }>;
+};
+
+export function parseYearFile(file: YearFile): HistoricalDraw[] {
+  const out: HistoricalDraw[] = [];
+  for (const d of file.draws ?? []) {
+    if (!Array.isArray(d.numbers) || d.numbers.length < 6) continue;
+    const nums = normalizeNums(d.numbers.slice(0, 6));
+    if (!isSestinaNums(nums)) continue;
+    out.push({ date: d.date, conc: d.conc ?? null, nums });
+  }
+  return out;
+}
+
+async function fetchJson<T>(path: string, signal?: AbortSignal): Promise<T> {
+  const res = await fetch(`${import.meta.env.BASE_URL}${path}`, { signal });
+  if (!res.ok)
+    throw new Error(`Archivio storico: ${path} (HTTP ${res.status})`);
+  return (await res.json()) as T;
+}
+
+/** Scarica tutto l'archivio, in ordine cronologico. */
+export async function loadHistory(
+  signal?: AbortSignal,
+): Promise<HistoricalDraw[]> {
+  const index = await fetchJson<IndexFile>("data/index.json", signal);
+  const years = await Promise.all(
+    index.years.map((y) =>
+      fetchJson<YearFile>(`data/years/${y.year}.json`, signal),
+    ),
+  );
+  return years.flatMap(parseYearFile);
+}
+
+/** Solo l'ultima estrazione (due file piccoli invece di tutto l'archivio). */
+export async function loadLatestDraw(
+  signal?: AbortSignal,
+): Promise<HistoricalDraw | null> {
+  const index = await fetchJson<IndexFile>("data/index.json", signal);
+  const last = index.years[index.years.length - 1];
+  if (!last) return null;
+  const year = await fetchJson<YearFile>(
+    `data/years/${last.year}.json`,
+    signal,
+  );
+  return parseYearFile(year).at(-1) ?? null;
+}
+
+/* ---------------- confronto ---------------- */
+
+export type HistoryIndex = {
+  draws: number;
+  byRank: Map<number, HistoricalDraw>;
+  byFive: Map<number, HistoricalDraw>;
+};
+
+export function createHistoryIndex(draws: HistoricalDraw[]): HistoryIndex {
+  const byRank = new Map<number, HistoricalDraw>();
+  const byFive = new Map<number, HistoricalDraw>();
+  for (const d of draws) {
+    // a parità vince la prima uscita
+    const rank = sestinaRank(d.nums);
+    if (!byRank.has(rank)) byRank.set(rank, d);
+    for (const k of subsetKeys(d.nums, 5)) if (!byFive.has(k)) byFive.set(k, d);
+  }
+  return { draws: draws.length, byRank, byFive };
+}
+
+export type HistoryMatch = { shared: 5 | 6; draw: HistoricalDraw };
+
+/** La sestina è già uscita (6) o contiene 5 numeri di un'estrazione (5)? */
+export function matchHistory(
+  index: HistoryIndex,
+  nums: number[],
+): HistoryMatch | null {
+  const sorted = normalizeNums(nums);
+  if (!isSestinaNums(sorted)) return null;
+  const exact = index.byRank.get(sestinaRank(sorted));
+  if (exact) return { shared: 6, draw: exact };
+  for (const k of subsetKeys(sorted, 5)) {
+    const draw = index.byFive.get(k);
+    if (draw) return { shared: 5, draw };
+  }
+  return null;
+}
+
+/**
+ * Filtro per il generatore, costruito dai soli rank (è quello che riceve il
+ * worker). `nums` è ordinata, `rank` è il suo rank.
+ */
+export function historyBlocker(
+  drawRanks: Iterable<number>,
+  level: HistoryLevel,
+): (nums: number[], rank: number) => boolean {
+  const ranks = new Set(drawRanks);
+  if (level === "draws") return (_nums, rank) => ranks.has(rank);
+
+  const fives = new Set<number>();
+  for (const r of ranks)
+    for (const k of subsetKeys(sestinaFromRank(r), 5)) fives.add(k);
+  return (nums) => subsetKeys(nums, 5).some((k) => fives.has(k));
+}
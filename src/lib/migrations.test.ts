@@ -0,0 +1,131 @@
+// src/lib/migrations.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  SCHEMA_VERSION,
+  migrateState,
+  migrateV1ToV2,
+  migrateV2ToV3,
+  schemaVersion,
+} from "./migrations";
+
+const group = (sestine: unknown[], extra: Record<string, unknown> = {}) => ({
+  id: "g1",
+  name: "Gruppo",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  sestine,
+  ...extra,
+});
+
+const sestina = (nums: number[], key: string) => ({
+  nums,
+  key,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  frozen: false,
+});
+
+describe("schemaVersion", () => {
+  it("riconosce v1, le versioni esplicite e i payload estranei", () => {
+    expect(schemaVersion([])).toBe(1);
+    expect(schemaVersion({ groups: [] })).toBe(1);
+    expect(schemaVersion({ version: 2, groups: [] })).toBe(2);
+    expect(schemaVersion({ foo: 1 })).toBeNull();
+    expect(schemaVersion("x")).toBeNull();
+  });
+});
+
+describe("migrateV1ToV2", () => {
+  it("racchiude un array di gruppi e aggiunge timeline e impostazioni", () => {
+    const { data, changes } = migrateV1ToV2([group([])]);
+    expect(data.version).toBe(2);
+    expect(data.settings).toEqual({});
+    expect(data.groups).toEqual([{ ...group([]), events: [] }]);
+    expect(changes).toHaveLength(3);
+  });
+
+  it("non tocca timeline e impostazioni già presenti", () => {
+    const g = group([], { events: [{ type: "edit" }] });
+    const { data, changes } = migrateV1ToV2({
+      groups: [g],
+      settings: { seedEnabled: true },
+      extra: 1,
+    });
+    expect(data.groups).toEqual([g]);
+    expect(data.settings).toEqual({ seedEnabled: true });
+    expect(data.extra).toBe(1);
+    expect(changes).toEqual([]);
+  });
+});
+
+describe("migrateV2ToV3", () => {
+  it("rende esplicito mulberry32 e ricalcola le chiavi", () => {
+    const raw = {
+      version: 2,
+      settings: {},
+      groups: [
+        group([
+          sestina([1, 2, 3, 4, 5, 6], "sestina_abc"),
+          sestina([7, 8, 9, 10, 11, 12], "7-8-9-10-11-12"),
+        ]),
+      ],
+    };
+    const { data, changes } = migrateV2ToV3(raw);
+    expect(data.version).toBe(3);
+    expect(data.settings).toEqual({ rngAlgorithm: "mulberry32" });
+    const [g] = data.groups as Array<{ sestine: Array<{ key: string }> }>;
+    expect(g.sestine.map((s) => s.key)).toEqual([
+      "1-2-3-4-5-6",
+      "7-8-9-10-11-12",
+    ]);
+    expect(changes).toHaveLength(2);
+    // il payload di partenza resta intatto
+    expect(raw.groups[0].sestine[0]).toMatchObject({ key: "sestina_abc" });
+  });
+
+  it("lascia l'algoritmo scelto e i gruppi già canonici", () => {
+    const g = group([sestina([1, 2, 3, 4, 5, 6], "1-2-3-4-5-6")]);
+    const { data, changes } = migrateV2ToV3({
+      version: 2,
+      settings: { rngAlgorithm: "xoshiro128" },
+      groups: [g],
+    });
+    expect(data.settings).toEqual({ rngAlgorithm: "xoshiro128" });
+    expect((data.groups as unknown[])[0]).toBe(g);
+    expect(changes).toEqual([]);
+  });
+});
+
+describe("migrateState", () => {
+  it("porta un v1 all'ultima versione passando per ogni passo", () => {
+    const { state, report } = migrateState([
+      group([sestina([1, 2, 3, 4, 5, 6], "x")]),
+    ]);
+    expect(state.version).toBe(SCHEMA_VERSION);
+    expect(state.settings.rngAlgorithm).toBe("mulberry32");
+    expect(state.groups[0].sestine[0].key).toBe("1-2-3-4-5-6");
+    expect(state.groups[0].events).toEqual([]);
+    expect(report.from).toBe(1);
+    expect(report.to).toBe(SCHEMA_VERSION);
+    expect(report.steps.map((s) => [s.from, s.to])).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+  });
+
+  it("non cambia nulla su uno stato già aggiornato", () => {
+    const raw = { version: SCHEMA_VERSION, settings: {}, groups: [] };
+    const { state, report } = migrateState(raw);
+    expect(state).toBe(raw);
+    expect(report.steps).toEqual([]);
+  });
+
+  it("rifiuta i dati di una versione più recente", () => {
+    expect(() =>
+      migrateState({ version: SCHEMA_VERSION + 1, groups: [] }),
+    ).toThrow(/versione più recente/);
+  });
+
+  it("rifiuta i payload non riconosciuti", () => {
+    expect(() => migrateState({ foo: 1 })).toThrow(/non riconosciuto/);
+    expect(() => migrateState({ version: 0, groups: [] })).toThrow();
+  });
+});
@@ -0,0 +1,150 @@
+// src/lib/migrations.ts
+import { isSestinaNums, sestinaKey } from "./sestine";
+import type { AppState } from "./storage";
+
+/**
+ * Migrazioni dello schema di AppState: un passo per versione (v1 → v2 →
+ * v3 …), ognuno una funzione pura che riceve il payload grezzo della versione
+ * `from` e restituisce quello della versione successiva, con l'elenco di cosa
+ * ha cambiato. Stessa pipeline per lo stato salvato e per i JSON importati.
+ *
+ * - v1: payload senza `version` (array di gruppi o `{ groups, settings? }`).
+ * - v2: `{ version: 2, groups, settings }`.
+ * - v3: algoritmo RNG sempre esplicito nelle impostazioni e chiave di ogni
+ *   sestina uguale a sestinaKey(nums).
+ *
+ * Per aggiungere una versione: SCHEMA_VERSION + 1 e un passo in STEPS.
+ */
+export const SCHEMA_VERSION = 3;
+
+type Raw = Record<string, unknown>;
+
+export type MigrationStep = {
+  from: number;
+  to: number;
+  changes: string[];
+};
+
+export type MigrationReport = {
+  from: number;
+  to: number;
+  steps: MigrationStep[];
+};
+
+function isRecord(x: unknown): x is Raw {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function groupsOf(raw: Raw): Raw[] {
+  return Array.isArray(raw.groups) ? raw.groups.filter(isRecord) : [];
+}
+
+/** Versione dello schema del payload, o null se non sembra uno stato dell'app. */
+export function schemaVersion(raw: unknown): number | null {
+  if (Array.isArray(raw)) return 1;
+  if (!isRecord(raw)) return null;
+  if (typeof raw.version === "number" && Number.isInteger(raw.version))
+    return raw.version;
+  return Array.isArray(raw.groups) ? 1 : null;
+}
+
+/* ---------------- passi ---------------- */
+
+/** v1 → v2: involucro versionato, `settings` ed `events` sempre presenti. */
+export function migrateV1ToV2(raw: unknown): { data: Raw; changes: string[] } {
+  const changes: string[] = [];
+  const base: Raw = Array.isArray(raw) ? { groups: raw } : { ...(raw as Raw) };
+  if (Array.isArray(raw)) changes.push("array di gruppi racchiuso nello stato");
+
+  let withoutEvents = 0;
+  const groups = groupsOf(base).map((g) => {
+    if (Array.isArray(g.events)) return g;
+    withoutEvents++;
+    return { ...g, events: [] };
+  });
+  if (withoutEvents > 0)
+    changes.push(`gruppi senza timeline: ${withoutEvents} (timeline vuota)`);
+
+  const settings = isRecord(base.settings) ? base.settings : {};
+  if (!isRecord(base.settings))
+    changes.push("impostazioni assenti: valori predefiniti");
+
+  return { data: { ...base, version: 2, groups, settings }, changes };
+}
+
+/** v2 → v3: RNG esplicito e chiavi delle sestine canoniche. */
+export function migrateV2ToV3(raw: Raw): { data: Raw; changes: string[] } {
+  const changes: string[] = [];
+
+  // prima del registro RNG si usava sempre mulberry32: deve restarlo anche
+  // se il default cambierà
+  let settings = isRecord(raw.settings) ? raw.settings : {};
+  if (typeof settings.rngAlgorithm !== "string") {
+    settings = { ...settings, rngAlgorithm: "mulberry32" };
+    changes.push("algoritmo RNG reso esplicito: mulberry32");
+  }
+
+  let rekeyed = 0;
+  const groups = groupsOf(raw).map((g) => {
+    if (!Array.isArray(g.sestine)) return g;
+    let changed = false;
+    const sestine = g.sestine.map((s: unknown) => {
+      if (!isRecord(s) || !isSestinaNums(s.nums)) return s;
+      const key = sestinaKey(s.nums);
+      if (s.key === key) return s;
+      changed = true;
+      rekeyed++;
+      return { ...s, key };
+    });
+    return changed ? { ...g, sestine } : g;
+  });
+  if (rekeyed > 0)
+    changes.push(`sestine con chiave ricalcolata dai numeri: ${rekeyed}`);
+
+  return { data: { ...raw, version: 3, settings, groups }, changes };
+}
+
+const STEPS: Record<number, (raw: Raw) => { data: Raw; changes: string[] }> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+};
+
+/* ---------------- pipeline ---------------- */
+
+/**
+ * Porta il payload all'ultima versione. Lancia se il payload non è uno stato
+ * dell'app o viene da una versione più recente (che non va sovrascritta).
+ * Le impostazioni mancanti restano da completare con i default (storage.ts).
+ */
+export function migrateState(raw: unknown): {
+  state: AppState;
+  report: MigrationReport;
+} {
+  const from = schemaVersion(raw);
+  if (from === null || from < 1)
+    throw new Error("Formato dei dati non riconosciuto.");
+  if (from > SCHEMA_VERSION)
+    throw new Error(
+      `Dati salvati da una versione più recente dell'app (schema v${from}, questa gestisce fino alla v${SCHEMA_VERSION}).`,
+    );
+
+  const steps: MigrationStep[] = [];
+  let data = raw as Raw;
+  for (let v = from; v < SCHEMA_VERSION; v++) {
+    const res = STEPS[v](data);
+    data = res.data;
+    steps.push({ from: v, to: v + 1, changes: res.changes });
+  }
+
+  return {
+    state: data as unknown as AppState,
+    report: { from, to: SCHEMA_VERSION, steps },
+  };
+}
+
+export function describeMigration(report: MigrationReport): string[] {
+  return report.steps.map(
+    (s) =>
+      `v${s.from} → v${s.to}: ${s.changes.length ? s.changes.join("; ") : "nessuna modifica ai dati"}`,
+  );
+}
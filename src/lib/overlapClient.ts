@@ -0,0 +1,56 @@
+// src/lib/overlapClient.ts
+import type { OverlapReport } from "./distance";
+import { isSestinaNums, sestinaRank } from "./sestine";
+
+export type OverlapRequest = {
+  id: number;
+  ranks: Int32Array;
+  limit: number;
+  cap: number;
+};
+
+export type OverlapResponse =
+  | { id: number; type: "done"; report: OverlapReport }
+  | { id: number; type: "error"; message: string };
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<
+  number,
+  { resolve: (r: OverlapReport) => void; reject: (e: Error) => void }
+>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(
+    new URL("../workers/overlap.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  worker.onmessage = (e: MessageEvent<OverlapResponse>) => {
+    const p = pending.get(e.data.id);
+    if (!p) return;
+    pending.delete(e.data.id);
+    if (e.data.type === "error") p.reject(new Error(e.data.message));
+    else p.resolve(e.data.report);
+  };
+  return worker;
+}
+
+/**
+ * Analizza (in un worker) le sovrapposizioni di un gruppo. Al worker vanno
+ * solo i rank delle sestine valide, in un buffer trasferito senza copia.
+ */
+export function analyzeOverlapInWorker(
+  sestine: ReadonlyArray<{ nums: number[] }>,
+  limit: number,
+  cap = 50,
+): Promise<OverlapReport> {
+  const valid = sestine.map((s) => s.nums).filter(isSestinaNums);
+  const ranks = Int32Array.from(valid, (nums) => sestinaRank(nums));
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const msg: OverlapRequest = { id, ranks, limit, cap };
+    getWorker().postMessage(msg, [ranks.buffer]);
+  });
+}
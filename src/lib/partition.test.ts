@@ -0,0 +1,75 @@
+// src/lib/partition.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  PARTITION_TICKETS,
+  generatePartitionSestine,
+  partitionPlan,
+  partitionSlot,
+  partitionSlotRank,
+} from "./partition";
+import { mulberry32 } from "./rng";
+import type { Constraints } from "./sestine";
+
+const none: Constraints = {
+  exclude: [],
+  mustInclude: [],
+  mustIncludeAnyOf: [],
+};
+const factory = (attempt: number) => mulberry32(1000 + attempt);
+
+describe("generatePartitionSestine", () => {
+  it("ogni blocco usa ogni numero una volta sola", () => {
+    const { sestine, next } = generatePartitionSestine(
+      2 * PARTITION_TICKETS,
+      new Set(),
+      factory,
+      none,
+      0,
+    );
+    expect(sestine).toHaveLength(30);
+    expect(next).toBe(2);
+    for (let blk = 0; blk < 2; blk++) {
+      const used = sestine
+        .slice(blk * PARTITION_TICKETS, (blk + 1) * PARTITION_TICKETS)
+        .flatMap((s) => s.nums)
+        .sort((x, y) => x - y);
+      expect(used).toEqual(Array.from({ length: 90 }, (_, i) => i + 1));
+    }
+  });
+
+  it("con gli esclusi avanzano numeri, mai gli obbligatori", () => {
+    const c: Constraints = {
+      exclude: [1, 2, 3, 4],
+      mustInclude: [50, 60],
+      mustIncludeAnyOf: [],
+    };
+    expect(partitionPlan(c)).toMatchObject({ tickets: 14, spare: 2 });
+    const { sestine } = generatePartitionSestine(14, new Set(), factory, c, 0);
+    const used = new Set(sestine.flatMap((s) => s.nums));
+    expect(used.size).toBe(84);
+    expect(used.has(50) && used.has(60)).toBe(true);
+    for (const n of c.exclude) expect(used.has(n)).toBe(false);
+  });
+
+  it("scarta il blocco intero se una sestina c'è già", () => {
+    const first = generatePartitionSestine(15, new Set(), factory, none, 0);
+    const taken = first.sestine[7].nums;
+    const skipped: number[] = [];
+    const again = generatePartitionSestine(
+      15,
+      new Set([partitionSlotRank(factory, none, partitionSlot(0, 7))]),
+      factory,
+      none,
+      0,
+      { onSkip: (slot) => skipped.push(slot) },
+    );
+    expect(skipped).toEqual([partitionSlot(0, 7)]);
+    expect(again.next).toBe(2);
+    expect(again.sestine.some((s) => s.key === taken.join("-"))).toBe(false);
+  });
+
+  it("rifiuta le regole che non sa applicare", () => {
+    expect(() => partitionPlan({ ...none, mustIncludeAnyOf: [7] })).toThrow();
+    expect(() => partitionPlan({ ...none, maxPerDecade: 2 })).toThrow();
+  });
+});
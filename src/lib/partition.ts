@@ -0,0 +1,167 @@
+// src/lib/partition.ts
+import type { DistanceIndex } from "./distance";
+import type { RNG, RngRef } from "./rng";
+import {
+  MAX_NUM,
+  MIN_NUM,
+  describeStructure,
+  normalizeNums,
+  sestinaKey,
+  sestinaRank,
+  type Constraints,
+  type Sestina,
+  type SestinaNums,
+} from "./sestine";
+
+/**
+ * Partizione: blocchi di 15 sestine che usano ogni numero da 1 a 90 una
+ * volta sola. Ogni blocco è un tentativo numerato (stesso flusso seed/sale
+ * della modalità random): si mescolano i numeri e si tagliano a sei a sei.
+ * Se una sestina del blocco esiste già, si scarta tutto il blocco.
+ *
+ * Vincoli: gli esclusi restano fuori e il blocco partiziona i numeri rimasti
+ * (blocco più corto; se non sono multipli di 6 ne avanzano alcuni, mai tra gli
+ * obbligatori). Gli obbligatori sono quindi in ogni blocco, non in ogni
+ * sestina. Le regole strutturali e "almeno uno tra" non si applicano.
+ */
+export const PARTITION_TICKETS = 15;
+
+export type PartitionPlan = {
+  pool: number[]; // numeri da distribuire (1..90 meno gli esclusi)
+  tickets: number; // sestine per blocco
+  spare: number; // numeri che restano fuori da ogni blocco
+};
+
+export function partitionPlan(constraints: Constraints): PartitionPlan {
+  if (
+    describeStructure(constraints).length > 0 ||
+    constraints.mustIncludeAnyOf.length > 0
+  )
+    throw new Error(
+      "La modalità partizione applica solo esclusi e obbligatori: togli le regole strutturali e “almeno uno tra” (anche dai numeri fortunati).",
+    );
+  const excluded = new Set(constraints.exclude);
+  const pool: number[] = [];
+  for (let n = MIN_NUM; n <= MAX_NUM; n++) if (!excluded.has(n)) pool.push(n);
+  const tickets = Math.floor(pool.length / 6);
+  if (tickets === 0)
+    throw new Error("Troppi numeri esclusi: non resta nessuna sestina.");
+  return { pool, tickets, spare: pool.length - tickets * 6 };
+}
+
+function shuffle(rng: RNG, xs: number[]) {
+  for (let i = xs.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [xs[i], xs[j]] = [xs[j], xs[i]];
+  }
+}
+
+/** Un blocco: le sestine (ordinate) nell'ordine in cui sono state tagliate. */
+export function partitionBlock(
+  rng: RNG,
+  plan: PartitionPlan,
+  mustInclude: number[],
+): SestinaNums[] {
+  const must = new Set(mustInclude);
+  const free = plan.pool.filter((n) => !must.has(n));
+  shuffle(rng, free);
+  // gli avanzi si tolgono solo tra i numeri non obbligatori
+  const nums = [
+    ...plan.pool.filter((n) => must.has(n)),
+    ...free.slice(plan.spare),
+  ];
+  shuffle(rng, nums);
+  const out: SestinaNums[] = [];
+  for (let t = 0; t < plan.tickets; t++)
+    out.push(normalizeNums(nums.slice(t * 6, t * 6 + 6)));
+  return out;
+}
+
+/** Posizione nel flusso di una sestina: blocco (tentativo) e posto nel blocco. */
+export function partitionSlot(attempt: number, position: number): number {
+  return attempt * PARTITION_TICKETS + position;
+}
+
+/** Rank della sestina in posizione `slot` (per ricostruire gli scarti). */
+export function partitionSlotRank(
+  rngFactory: (attempt: number) => RNG,
+  constraints: Constraints,
+  slot: number,
+): number {
+  const attempt = Math.floor(slot / PARTITION_TICKETS);
+  const block = partitionBlock(
+    rngFactory(attempt),
+    partitionPlan(constraints),
+    constraints.mustInclude,
+  );
+  return sestinaRank(block[slot - attempt * PARTITION_TICKETS]);
+}
+
+/**
+ * Come generateUniqueSestine, ma a blocchi interi: `count` è arrotondato per
+ * difetto a un multiplo di `plan.tickets`. `next` conta i blocchi; gli scarti
+ * passano a onSkip con la posizione della prima sestina già presente
+ * (partitionSlot), così il replay li ricostruisce.
+ */
+export function generatePartitionSestine(
+  count: number,
+  existingRanks: Set<number>,
+  rngFactory: (attempt: number) => RNG,
+  constraints: Constraints,
+  start: number,
+  options?: {
+    seed?: string;
+    rng?: RngRef;
+    onSkip?: (slot: number, rank: number) => void;
+    blocked?: (nums: number[], rank: number) => boolean;
+    distance?: DistanceIndex;
+  },
+): { sestine: Sestina[]; next: number } {
+  const plan = partitionPlan(constraints);
+  const blocks = Math.floor(count / plan.tickets);
+  const out: Sestina[] = [];
+  const now = new Date();
+  let attempt = start;
+  let misses = 0;
+
+  while (out.length < blocks * plan.tickets) {
+    const nonce = attempt++;
+    const block = partitionBlock(
+      rngFactory(nonce),
+      plan,
+      constraints.mustInclude,
+    );
+    const ranks = block.map((nums) => sestinaRank(nums));
+
+    const clash = block.findIndex(
+      (nums, i) =>
+        existingRanks.has(ranks[i]) || !!options?.blocked?.(nums, ranks[i]),
+    );
+    if (clash >= 0) {
+      options?.onSkip?.(partitionSlot(nonce, clash), ranks[clash]);
+      if (++misses > 50_000)
+        throw new Error(
+          "Impossibile generare blocchi di sestine uniche: troppi duplicati (limite nonce).",
+        );
+      continue;
+    }
+    misses = 0;
+    // le sestine di un blocco sono disgiunte: basta il confronto con l'indice
+    const distance = options?.distance;
+    if (distance && !block.every((nums) => distance.admits(nums))) continue;
+
+    block.forEach((nums, i) => {
+      existingRanks.add(ranks[i]);
+      options?.distance?.add(nums);
+      out.push({
+        nums,
+        key: sestinaKey(nums),
+        createdAt: new Date(now.getTime() + out.length).toISOString(),
+        frozen: false,
+        meta: { seed: options?.seed, attemptNonce: nonce, rng: options?.rng },
+      });
+    });
+  }
+
+  return { sestine: out, next: attempt };
+}
@@ -0,0 +1,66 @@
+// src/lib/permutation.test.ts
+import { describe, expect, it } from "vitest";
+import { buildConstraintSpace } from "./constraintSpace";
+import { createPermutation, generatePermutationSestine } from "./permutation";
+import { isValidSestina, type Constraints } from "./sestine";
+
+const free: Constraints = {
+  exclude: [],
+  mustInclude: [],
+  mustIncludeAnyOf: [],
+};
+const freeSpace = buildConstraintSpace(free);
+
+describe("createPermutation", () => {
+  it("è una biiezione sul dominio, anche con cycle-walking", () => {
+    const perm = createPermutation(42, 1000);
+    const seen = new Set<number>();
+    for (let i = 0; i < perm.domain; i++) seen.add(perm.at(i));
+    expect(seen.size).toBe(1000);
+    expect(Math.max(...seen)).toBe(999);
+  });
+});
+
+describe("generatePermutationSestine", () => {
+  it("con maxSteps si ferma al limite e riprende dal cursore", () => {
+    const perm = createPermutation(7, freeSpace.total);
+    const whole = generatePermutationSestine(30, new Set(), perm, 0, freeSpace);
+
+    const ranks = new Set<number>();
+    const pieces: number[][] = [];
+    let cursor = 0;
+    while (pieces.length < 30) {
+      const res = generatePermutationSestine(
+        30 - pieces.length,
+        ranks,
+        perm,
+        cursor,
+        freeSpace,
+        { maxSteps: 4 },
+      );
+      expect(res.next - cursor).toBeLessThanOrEqual(4);
+      cursor = res.next;
+      pieces.push(...res.sestine.map((s) => s.nums));
+    }
+    expect(pieces).toEqual(whole.sestine.map((s) => s.nums));
+    expect(cursor).toBe(whole.next);
+  });
+
+  it("con vincoli stretti ogni indice dà una sestina ammessa fino all'esaurimento", () => {
+    const strict: Constraints = { ...free, mustInclude: [1, 2, 3, 4, 5] };
+    const space = buildConstraintSpace(strict);
+    expect(space.total).toBe(85);
+
+    const perm = createPermutation(7, space.total);
+    const ranks = new Set<number>();
+    const first = generatePermutationSestine(10, ranks, perm, 0, space);
+    expect(first.next).toBe(10);
+
+    const rest = generatePermutationSestine(100, ranks, perm, 10, space);
+    expect(rest.sestine).toHaveLength(75);
+    expect(rest.next).toBe(85);
+    const all = [...first.sestine, ...rest.sestine];
+    expect(all.every((s) => isValidSestina(s.nums, strict))).toBe(true);
+    expect(new Set(all.map((s) => s.key)).size).toBe(85);
+  });
+});
@@ -0,0 +1,141 @@
+// src/lib/permutation.ts
+import { mulberry32 } from "./rng";
+import type { ConstraintSpace } from "./constraintSpace";
+import type { DistanceIndex } from "./distance";
+import {
+  TOTAL_SESTINE,
+  sestinaKey,
+  sestinaRank,
+  type Sestina,
+} from "./sestine";
+
+/**
+ * Permutazione pseudo-casuale con chiave dello spazio [0, domain):
+ * rete di Feistel bilanciata su 2×h bit + cycle-walking.
+ * Stessa chiave → stessa sequenza; nessun indice si ripete finché lo spazio
+ * non è esaurito, quindi niente retry sui duplicati.
+ */
+export type Permutation = {
+  key: number;
+  domain: number;
+  at: (index: number) => number;
+};
+
+const ROUNDS = 6;
+
+// indici percorsi al massimo in una chiamata del worker: con la distanza
+// minima, lo storico o la popolarità quasi tutti gli indici possono essere
+// scartati e il cammino non cederebbe mai il controllo (né un "annulla")
+export const PERMUTATION_WALK_CAP = 100_000;
+
+function roundFn(x: number, k: number): number {
+  // mixing 32 bit (stile murmur finalizer)
+  let h = Math.imul(x ^ k, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+export function createPermutation(
+  key: number,
+  domain = TOTAL_SESTINE,
+): Permutation {
+  let bits = Math.max(2, Math.ceil(Math.log2(domain)));
+  if (bits % 2) bits++;
+  const half = bits / 2;
+  const mask = (1 << half) - 1;
+
+  const rng = mulberry32(key >>> 0);
+  const roundKeys = Array.from(
+    { length: ROUNDS },
+    () => Math.floor(rng() * 2 ** 32) >>> 0,
+  );
+
+  const encrypt = (x: number) => {
+    let l = Math.floor(x / (mask + 1));
+    let r = x & mask;
+    for (const k of roundKeys) {
+      const t = (l ^ roundFn(r, k)) & mask;
+      l = r;
+      r = t;
+    }
+    return l * (mask + 1) + r;
+  };
+
+  return {
+    key: key >>> 0,
+    domain,
+    at(index) {
+      if (!Number.isInteger(index) || index < 0 || index >= domain)
+        throw new RangeError(`Indice fuori intervallo: ${index}`);
+      // cycle-walking: resta una biiezione su [0, domain)
+      let x = encrypt(index);
+      while (x >= domain) x = encrypt(x);
+      return x;
+    },
+  };
+}
+
+/**
+ * Cammina la permutazione da `start` e restituisce le prime `count` sestine
+ * non già presenti (rank). La permutazione è sugli indici dello spazio
+ * ammesso dai vincoli (`perm.domain === space.total`): ogni passo dà una
+ * sestina valida e lo spazio è esaurito esattamente quando `next` arriva a
+ * `perm.domain`.
+ * `next` è il cursore da cui riprendere alla generazione successiva;
+ * `onSkip` riceve gli indici scartati perché la sestina esisteva già.
+ * Con `maxSteps` il cammino si ferma dopo tanti indici anche se mancano
+ * sestine: si riprende da `next`.
+ */
+export function generatePermutationSestine(
+  count: number,
+  existingRanks: Set<number>,
+  perm: Permutation,
+  start: number,
+  space: ConstraintSpace,
+  options?: {
+    seed?: string;
+    superstitionMode?: boolean;
+    onSkip?: (index: number, rank: number) => void;
+    distance?: DistanceIndex;
+    blocked?: (nums: number[], rank: number) => boolean;
+    maxSteps?: number;
+  },
+): { sestine: Sestina[]; next: number } {
+  if (perm.domain !== space.total)
+    throw new Error("Permutazione e spazio ammesso hanno domini diversi.");
+
+  const out: Sestina[] = [];
+  const now = new Date();
+  let i = start;
+  const end = Math.min(perm.domain, start + (options?.maxSteps ?? Infinity));
+
+  while (out.length < count && i < end) {
+    const index = i++;
+    const nums = space.at(perm.at(index));
+    const rank = sestinaRank(nums);
+
+    if (existingRanks.has(rank) || options?.blocked?.(nums, rank)) {
+      options?.onSkip?.(index, rank);
+      continue;
+    }
+    if (options?.distance && !options.distance.admits(nums)) continue;
+
+    existingRanks.add(rank);
+    options?.distance?.add(nums);
+    out.push({
+      nums,
+      key: sestinaKey(nums),
+      createdAt: new Date(now.getTime() + out.length).toISOString(),
+      frozen: false,
+      meta: {
+        seed: options?.seed,
+        permIndex: index,
+        superstitionMode: options?.superstitionMode,
+      },
+    });
+  }
+
+  return { sestine: out, next: i };
+}
@@ -0,0 +1,128 @@
+// src/lib/popularity.ts
+import { isSestinaNums, normalizeNums } from "./sestine";
+
+/**
+ * Popolarità stimata di una sestina: quanto è probabile che molti altri
+ * giocatori abbiano scelto la stessa combinazione (e quindi dividano il
+ * premio). Non cambia la probabilità di vincere, solo quanto si incasserebbe.
+ *
+ * Euristica (punteggio 0–100, somma dei fattori con tetto a 100):
+ * - compleanni: numeri ≤ 31 (giorni del mese). 6 → 35, 5 → 20, 4 → 8;
+ * - progressioni: la più lunga progressione aritmetica tra i 6 numeri
+ *   (consecutivi, 5-10-15…). 6 → 40, 5 → 25, 4 → 12, 3 → 4;
+ * - linee sulla schedina: numeri sulla stessa riga, colonna o diagonale della
+ *   griglia 10 × 9 (1–10 in alto, 81–90 in basso). 6 → 30, 5 → 18, 4 → 8;
+ * - ultima estrazione: numeri in comune con l'ultimo concorso, che molti
+ *   rigiocano. 6 → 60, 5 → 30, 4 → 15, 3 → 5.
+ * I pesi sono una stima ragionata, non una misura: servono a ordinare, non a
+ * prevedere quote.
+ */
+export const POPULARITY_THRESHOLDS = [60, 40, 25, 15] as const;
+
+const SLIP_COLUMNS = 10;
+
+const POINTS = {
+  birthdays: { 6: 35, 5: 20, 4: 8 },
+  sequence: { 6: 40, 5: 25, 4: 12, 3: 4 },
+  slipLine: { 6: 30, 5: 18, 4: 8 },
+  lastDraw: { 6: 60, 5: 30, 4: 15, 3: 5 },
+} as const satisfies Record<string, Partial<Record<number, number>>>;
+
+export type PopularityFactor = keyof typeof POINTS;
+
+export type Popularity = {
+  score: number;
+  factors: Array<{ factor: PopularityFactor; count: number; points: number }>;
+};
+
+export type PopularityContext = {
+  // numeri dell'ultima estrazione (archivio storico), se disponibili
+  lastDraw?: number[];
+};
+
+export const POPULARITY_LABELS: Record<PopularityFactor, string> = {
+  birthdays: "compleanni (≤31)",
+  sequence: "progressione",
+  slipLine: "linea sulla schedina",
+  lastDraw: "ultima estrazione",
+};
+
+function longestProgression(nums: number[]): number {
+  let best = Math.min(nums.length, 2);
+  const set = new Set(nums);
+  for (let i = 0; i < nums.length; i++)
+    for (let j = i + 1; j < nums.length; j++) {
+      const step = nums[j] - nums[i];
+      let len = 2;
+      while (set.has(nums[i] + step * len)) len++;
+      best = Math.max(best, len);
+    }
+  return best;
+}
+
+function longestSlipLine(nums: number[]): number {
+  const lines = new Map<string, number>();
+  for (const n of nums) {
+    const row = Math.floor((n - 1) / SLIP_COLUMNS);
+    const col = (n - 1) % SLIP_COLUMNS;
+    for (const key of [`r${row}`, `c${col}`, `d${row - col}`, `a${row + col}`])
+      lines.set(key, (lines.get(key) ?? 0) + 1);
+  }
+  return Math.max(0, ...lines.values());
+}
+
+function pointsFor(factor: PopularityFactor, count: number): number {
+  const table: Partial<Record<number, number>> = POINTS[factor];
+  return table[count] ?? 0;
+}
+
+export function popularity(
+  nums: number[],
+  ctx: PopularityContext = {},
+): Popularity {
+  const s = normalizeNums(nums);
+  if (!isSestinaNums(s)) return { score: 0, factors: [] };
+
+  const last = new Set(ctx.lastDraw ?? []);
+  const counts: Record<PopularityFactor, number> = {
+    birthdays: s.filter((n) => n <= 31).length,
+    sequence: longestProgression(s),
+    slipLine: longestSlipLine(s),
+    lastDraw: s.filter((n) => last.has(n)).length,
+  };
+
+  const factors: Popularity["factors"] = [];
+  let score = 0;
+  for (const factor of Object.keys(counts) as PopularityFactor[]) {
+    const points = pointsFor(factor, counts[factor]);
+    if (points === 0) continue;
+    factors.push({ factor, count: counts[factor], points });
+    score += points;
+  }
+  return { score: Math.min(100, score), factors };
+}
+
+export function popularityScore(
+  nums: number[],
+  ctx: PopularityContext = {},
+): number {
+  return popularity(nums, ctx).score;
+}
+
+/** Media del gruppo (0 se vuoto). */
+export function averagePopularity(
+  sestine: ReadonlyArray<{ nums: number[] }>,
+  ctx: PopularityContext = {},
+): number {
+  if (sestine.length === 0) return 0;
+  let sum = 0;
+  for (const s of sestine) sum += popularityScore(s.nums, ctx);
+  return sum / sestine.length;
+}
+
+export function describePopularity(p: Popularity): string {
+  if (p.factors.length === 0) return "nessuno schema comune";
+  return p.factors
+    .map((f) => `${POPULARITY_LABELS[f.factor]} ×${f.count} (+${f.points})`)
+    .join(", ");
+}
@@ -0,0 +1,247 @@
+// src/lib/recipe.ts
+import {
+  constraintSpaceFor,
+  generateUniqueSestine,
+  generateRandomSestinaWithConstraints,
+} from "./constraintSpace";
+import { createBalanceState, generateBalancedSestine } from "./balanced";
+import { createDistanceIndex, type DistanceRule } from "./distance";
+import type { HistoryLevel } from "./history";
+import { generatePartitionSestine, partitionSlotRank } from "./partition";
+import { createPermutation, generatePermutationSestine } from "./permutation";
+import { RNG_ALGORITHMS, createRng, type RngRef } from "./rng";
+import { sestinaRank, type Constraints } from "./sestine";
+
+/**
+ * Ricetta di generazione: tutto ciò che serve per rigenerare bit per bit le
+ * sestine di un evento "generate", senza dipendere dal contenuto degli altri
+ * gruppi. La generazione è un flusso di tentativi numerati (random e
+ * bilanciata) o di indici della permutazione: l'unica dipendenza dall'esterno
+ * sono i tentativi scartati perché la sestina esisteva già, e quelli vengono
+ * registrati. La bilanciata dipende anche dalle sestine del gruppo all'inizio
+ * del run, che la ricetta porta con sé. Nella partizione ogni tentativo è un
+ * blocco e gli scarti sono posizioni di sestine (vedi partition.ts).
+ */
+export const RECIPE_VERSION = 1;
+
+export type RecipeStream =
+  | { mode: "random"; seed: string; salt: string; rng: RngRef }
+  | { mode: "permutation"; key: number }
+  | {
+      mode: "balanced";
+      seed: string;
+      salt: string;
+      rng: RngRef;
+      candidates: number;
+      // sestine del gruppo all'inizio: lo stato da cui parte il bilanciamento
+      baseRanks: number[];
+    }
+  | { mode: "partition"; seed: string; salt: string; rng: RngRef };
+
+export type GenerationRecipe = RecipeStream & {
+  version: number;
+  constraints: Constraints;
+  count: number; // sestine prodotte
+  nonceBase: number; // primo tentativo / indice usato
+  next: number; // primo tentativo / indice NON usato
+  skipped: number[]; // scartati perché già presenti PRIMA (o esclusi dallo storico)
+  exclusion: { size: number; fingerprint: string };
+  outputDigest: string;
+  // distanza minima nel gruppo, se attiva
+  distance?: DistanceRule;
+  // solo documentazione: gli scarti storici sono già in `skipped`
+  history?: { level: HistoryLevel; draws: number };
+  // idem per il tetto di popolarità
+  popularity?: { max: number; lastDraw?: number[] };
+};
+
+// quanto del run dipende dal flusso, calcolato dal worker
+export type GenerationTrace = Pick<
+  GenerationRecipe,
+  "nonceBase" | "next" | "skipped" | "exclusion" | "outputDigest"
+>;
+
+export function createRecipe(
+  stream: RecipeStream,
+  constraints: Constraints,
+  count: number,
+  trace: GenerationTrace,
+  rules?: Pick<GenerationRecipe, "distance" | "history" | "popularity">,
+): GenerationRecipe {
+  return {
+    ...stream,
+    version: RECIPE_VERSION,
+    constraints,
+    count,
+    ...trace,
+    ...rules,
+  };
+}
+
+/** Seed testuale del tentativo `attempt` in modalità random. */
+export function attemptSeed(
+  seed: string,
+  salt: string,
+  attempt: number,
+): string {
+  return `${seed}::${salt}::${attempt}`;
+}
+
+/* ---------------- impronte ---------------- */
+
+function mix32(x: number, k: number): number {
+  let h = Math.imul(x ^ k, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function hex32(x: number): string {
+  return (x >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Impronta di un insieme di rank: non dipende dall'ordine. */
+export function fingerprintRanks(ranks: Iterable<number>): string {
+  let a = 0;
+  let b = 0;
+  for (const r of ranks) {
+    a = (a + mix32(r, 0x9e3779b9)) >>> 0;
+    b = (b ^ mix32(r, 0x7f4a7c15)) >>> 0;
+  }
+  return hex32(a) + hex32(b);
+}
+
+/** Digest di una sequenza di rank: l'ordine conta. */
+export function digestRanks(ranks: readonly number[]): string {
+  let a = 0x811c9dc5;
+  let b = ranks.length >>> 0;
+  for (const r of ranks) {
+    a = mix32(a ^ r, 0x9e3779b9);
+    b = mix32(b + r, a);
+  }
+  return hex32(a) + hex32(b);
+}
+
+/* ---------------- replay ---------------- */
+
+export function isReplayable(r: GenerationRecipe): boolean {
+  if (r.version !== RECIPE_VERSION) return false;
+  return r.mode === "permutation" || !!RNG_ALGORITHMS[r.rng.id]?.seedable;
+}
+
+/**
+ * Rigenera le sestine della ricetta (rank, in ordine). Gli scarti registrati
+ * si ricostruiscono come insieme di esclusione: poi gira lo stesso codice
+ * della generazione originale.
+ */
+export function replayRecipe(r: GenerationRecipe): {
+  ranks: number[];
+  next: number;
+} {
+  if (r.version !== RECIPE_VERSION)
+    throw new Error(`Ricetta v${r.version} non supportata.`);
+
+  const excluded = new Set<number>();
+  const distance = r.distance
+    ? createDistanceIndex(r.distance.maxShared, r.distance.baseRanks)
+    : undefined;
+  let res;
+
+  if (r.mode === "random" || r.mode === "balanced") {
+    const factory = (attempt: number) =>
+      createRng(r.rng, attemptSeed(r.seed, r.salt, attempt));
+    for (const j of r.skipped)
+      excluded.add(
+        sestinaRank(
+          generateRandomSestinaWithConstraints(factory(j), r.constraints),
+        ),
+      );
+    res =
+      r.mode === "random"
+        ? generateUniqueSestine(
+            r.count,
+            excluded,
+            factory,
+            r.constraints,
+            r.nonceBase,
+            { distance },
+          )
+        : generateBalancedSestine(
+            r.count,
+            excluded,
+            factory,
+            r.constraints,
+            r.nonceBase,
+            createBalanceState(r.baseRanks),
+            { candidates: r.candidates, distance },
+          );
+  } else if (r.mode === "partition") {
+    const factory = (attempt: number) =>
+      createRng(r.rng, attemptSeed(r.seed, r.salt, attempt));
+    for (const slot of r.skipped)
+      excluded.add(partitionSlotRank(factory, r.constraints, slot));
+    res = generatePartitionSestine(
+      r.count,
+      excluded,
+      factory,
+      r.constraints,
+      r.nonceBase,
+      { distance },
+    );
+  } else {
+    const space = constraintSpaceFor(r.constraints);
+    const perm = createPermutation(r.key, space.total);
+    for (const j of r.skipped) excluded.add(sestinaRank(space.at(perm.at(j))));
+    res = generatePermutationSestine(
+      r.count,
+      excluded,
+      perm,
+      r.nonceBase,
+      space,
+      { distance },
+    );
+  }
+
+  return { ranks: res.sestine.map((s) => sestinaRank(s.nums)), next: res.next };
+}
+
+export type ReplayReport = {
+  ok: boolean;
+  count: number;
+  digest: string;
+  expectedDigest: string;
+  nextMatches: boolean;
+  // sestine rigenerate che oggi non sono più nel gruppo (rimosse o rigenerate)
+  missingInGroup: number;
+  firstMissing: number | null; // posizione nel run
+};
+
+export function compareReplay(
+  r: GenerationRecipe,
+  replay: { ranks: number[]; next: number },
+  groupRanks: Set<number>,
+): ReplayReport {
+  const digest = digestRanks(replay.ranks);
+  let missingInGroup = 0;
+  let firstMissing: number | null = null;
+  replay.ranks.forEach((rank, i) => {
+    if (groupRanks.has(rank)) return;
+    missingInGroup++;
+    firstMissing ??= i;
+  });
+
+  const nextMatches = replay.next === r.next;
+  return {
+    ok:
+      digest === r.outputDigest &&
+      nextMatches &&
+      replay.ranks.length === r.count,
+    count: replay.ranks.length,
+    digest,
+    expectedDigest: r.outputDigest,
+    nextMatches,
+    missingInGroup,
+    firstMissing,
+  };
+}
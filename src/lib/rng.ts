@@ -27,9 +27,171 @@ export function mulberry32(seed: number): RNG {
     };
 }
 
+export function hashSeed(seed: string): number {
+    // hash string -> uint32 (stesso usato da rngFromSeed)
+    const h = xfnv1a(seed);
+    return Math.floor(h() * 2 ** 32) >>> 0;
+}
+
 export function rngFromSeed(seed: string): RNG {
-    // 1) hash string -> numero
+    return mulberry32(hashSeed(seed));
+}
+
+/* ---------------- registro algoritmi ---------------- */
+
+/**
+ * Ogni algoritmo ha id + versione: entrambi finiscono nei metadati delle
+ * sestine e negli eventi, così un run con seed resta riproducibile anche se
+ * in futuro cambia il default o l'implementazione (nuova versione).
+ */
+export type RngAlgorithmId = "mulberry32" | "xoshiro128ss" | "pcg32" | "splitmix64" | "crypto";
+
+export type RngRef = { id: RngAlgorithmId; version: number };
+
+export type RngAlgorithm = RngRef & {
+    label: string;
+    seedable: boolean; // false = ignora il seed (entropia del sistema)
+    create: (seed: string) => RNG;
+};
+
+const U32 = 4294967296;
+const MASK64 = (1n << 64n) - 1n;
+
+// parole a 32 bit derivate dal seed testuale
+function seedWords(seed: string, n: number): number[] {
     const h = xfnv1a(seed);
-    const n = Math.floor(h() * 2 ** 32) >>> 0;
-    return mulberry32(n);
+    return Array.from({ length: n }, () => Math.floor(h() * U32) >>> 0);
+}
+
+function rotl32(x: number, k: number): number {
+    return ((x << k) | (x >>> (32 - k))) >>> 0;
+}
+
+export function xoshiro128ss(s0: number, s1: number, s2: number, s3: number): RNG {
+    // stato tutto a zero non ammesso
+    if ((s0 | s1 | s2 | s3) === 0) s0 = 1;
+    return () => {
+        const result = Math.imul(rotl32(Math.imul(s1, 5), 7), 9) >>> 0;
+        const t = s1 << 9;
+        s2 ^= s0;
+        s3 ^= s1;
+        s1 ^= s2;
+        s0 ^= s3;
+        s2 ^= t;
+        s3 = rotl32(s3, 11);
+        return result / U32;
+    };
+}
+
+export function pcg32(initState: bigint, initSeq: bigint): RNG {
+    // PCG-XSH-RR 64/32, inizializzazione come pcg32_srandom_r
+    const inc = ((initSeq << 1n) | 1n) & MASK64;
+    let state = 0n;
+    const next = (): number => {
+        const old = state;
+        state = (old * 6364136223846793005n + inc) & MASK64;
+        const xorshifted = Number(((old >> 18n) ^ old) >> 27n & 0xffffffffn);
+        const rot = Number(old >> 59n);
+        return ((xorshifted >>> rot) | (xorshifted << ((32 - rot) & 31))) >>> 0;
+    };
+    next();
+    state = (state + initState) & MASK64;
+    next();
+    return () => next() / U32;
+}
+
+export function splitmix64(seed: bigint): RNG {
+    let state = seed & MASK64;
+    return () => {
+        state = (state + 0x9e3779b97f4a7c15n) & MASK64;
+        let z = state;
+        z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK64;
+        z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK64;
+        z ^= z >> 31n;
+        // 32 bit alti: i migliori
+        return Number(z >> 32n) / U32;
+    };
+}
+
+export function cryptoRng(): RNG {
+    // buffer per non chiamare getRandomValues a ogni estrazione
+    const buf = new Uint32Array(256);
+    let i = buf.length;
+    return () => {
+        if (i === buf.length) {
+            crypto.getRandomValues(buf);
+            i = 0;
+        }
+        return buf[i++] / U32;
+    };
+}
+
+function big64(hi: number, lo: number): bigint {
+    return (BigInt(hi) << 32n) | BigInt(lo);
+}
+
+export const RNG_ALGORITHMS: Record<RngAlgorithmId, RngAlgorithm> = {
+    mulberry32: {
+        id: "mulberry32",
+        version: 1,
+        label: "Mulberry32",
+        seedable: true,
+        create: (seed) => rngFromSeed(seed),
+    },
+    xoshiro128ss: {
+        id: "xoshiro128ss",
+        version: 1,
+        label: "xoshiro128**",
+        seedable: true,
+        create: (seed) => {
+            const [a, b, c, d] = seedWords(seed, 4);
+            return xoshiro128ss(a, b, c, d);
+        },
+    },
+    pcg32: {
+        id: "pcg32",
+        version: 1,
+        label: "PCG32 (XSH-RR)",
+        seedable: true,
+        create: (seed) => {
+            const [a, b, c, d] = seedWords(seed, 4);
+            return pcg32(big64(a, b), big64(c, d));
+        },
+    },
+    splitmix64: {
+        id: "splitmix64",
+        version: 1,
+        label: "SplitMix64",
+        seedable: true,
+        create: (seed) => {
+            const [a, b] = seedWords(seed, 2);
+            return splitmix64(big64(a, b));
+        },
+    },
+    crypto: {
+        id: "crypto",
+        version: 1,
+        label: "crypto.getRandomValues (non riproducibile)",
+        seedable: false,
+        create: () => cryptoRng(),
+    },
+};
+
+export const DEFAULT_RNG_ALGORITHM: RngAlgorithmId = "mulberry32";
+
+export function isRngAlgorithmId(x: unknown): x is RngAlgorithmId {
+    return typeof x === "string" && Object.prototype.hasOwnProperty.call(RNG_ALGORITHMS, x);
+}
+
+export function rngRef(id: RngAlgorithmId): RngRef {
+    return { id, version: RNG_ALGORITHMS[id].version };
+}
+
+/** RNG dell'algoritmo indicato; errore se la versione richiesta non è più disponibile. */
+export function createRng(ref: RngRef, seed: string): RNG {
+    const algo = isRngAlgorithmId(ref.id) ? RNG_ALGORITHMS[ref.id] : null;
+    if (!algo) throw new Error(`Algoritmo RNG sconosciuto: ${ref.id}`);
+    if (algo.version !== ref.version)
+        throw new Error(`${algo.label}: versione ${ref.version} non disponibile (attuale ${algo.version}).`);
+    return algo.create(seed);
 }
@@ -0,0 +1,45 @@
+// src/lib/sestine.test.ts
+import { describe, expect, it } from "vitest";
+import { mulberry32 } from "./rng";
+import { TOTAL_SESTINE, binom, sestinaFromRank, sestinaRank } from "./sestine";
+
+describe("sestinaRank / sestinaFromRank", () => {
+  it("agli estremi dell'intervallo", () => {
+    expect(TOTAL_SESTINE).toBe(binom(90, 6));
+    expect(sestinaRank([1, 2, 3, 4, 5, 6])).toBe(0);
+    expect(sestinaFromRank(0)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(sestinaRank([85, 86, 87, 88, 89, 90])).toBe(TOTAL_SESTINE - 1);
+    expect(sestinaFromRank(TOTAL_SESTINE - 1)).toEqual([
+      85, 86, 87, 88, 89, 90,
+    ]);
+  });
+
+  it("sono l'una l'inversa dell'altra", () => {
+    const rng = mulberry32(3);
+    for (let i = 0; i < 1000; i++) {
+      const rank = Math.floor(rng() * TOTAL_SESTINE);
+      expect(sestinaRank(sestinaFromRank(rank))).toBe(rank);
+    }
+  });
+
+  it("numera in ordine colex senza buchi", () => {
+    // le sestine di 1..8 sono le prime C(8, 6), in ordine colessicografico
+    const all: number[][] = [];
+    for (let x = 1; x <= 8; x++)
+      for (let y = x + 1; y <= 8; y++)
+        all.push([1, 2, 3, 4, 5, 6, 7, 8].filter((n) => n !== x && n !== y));
+    const colex = all.sort((a, b) => {
+      for (let i = 5; i >= 0; i--) if (a[i] !== b[i]) return a[i] - b[i];
+      return 0;
+    });
+    expect(colex.map((nums) => sestinaRank(nums))).toEqual(
+      colex.map((_, i) => i),
+    );
+  });
+
+  it("rifiuta rank fuori intervallo", () => {
+    expect(() => sestinaFromRank(-1)).toThrow(RangeError);
+    expect(() => sestinaFromRank(TOTAL_SESTINE)).toThrow(RangeError);
+    expect(() => sestinaFromRank(1.5)).toThrow(RangeError);
+  });
+});
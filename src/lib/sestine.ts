@@ -1,5 +1,5 @@
 // src/lib/sestine.ts
-import type { RNG } from "./rng";
+import type { RNG, RngRef } from "./rng";
 
 export type SestinaNums = number[]; // length=6, ordinata crescente
 export type Sestina = {
@@ -7,17 +7,36 @@ export type Sestina = {
   key: string;
   createdAt: string;
   frozen: boolean;
+  superstar?: number; // SuperStar giocato sulla schedina (1–90)
   meta?: {
     seed?: string;
     attemptNonce?: number;
+    permIndex?: number;
+    rng?: RngRef;
     superstitionMode?: boolean;
+    importDuplicate?: boolean; // doppione accettato di proposito all'import
   };
 };
 
 export const MIN_NUM = 1;
 export const MAX_NUM = 90;
 
-export type Constraints = {
+// "basso" = ≤ 45 (stessa soglia di dist_low_count negli script dati)
+export const LOW_MAX = 45;
+
+export type NumRange = { min: number; max: number };
+
+// Regole strutturali: tutte opzionali, assenti = nessun filtro
+export type StructuralConstraints = {
+  sum?: NumRange;                 // somma dei 6 numeri
+  evenCount?: NumRange;           // quanti pari
+  lowCount?: NumRange;            // quanti ≤ 45
+  maxPerDecade?: number;          // decine: 1–9, 10–19, …, 80–89, 90
+  maxConsecutive?: number;        // lunghezza massima di una serie di consecutivi
+  distinctFinalDigits?: boolean;  // cifre finali tutte diverse
+};
+
+export type Constraints = StructuralConstraints & {
   exclude: number[];        // mai presenti
   mustInclude: number[];    // devono essere tutti presenti
   mustIncludeAnyOf: number[]; // almeno uno tra questi (opzionale)
@@ -32,101 +51,218 @@ export function sestinaKey(nums: number[]): string {
   return normalizeNums(nums).join("-");
 }
 
-export function rngInt(rng: RNG, min: number, max: number): number {
-  return Math.floor(rng() * (max - min + 1)) + min;
+/* ---------------- rank / unrank (colex) ---------------- */
+
+// C(n, k) per n ≤ 90, k ≤ 6: tabella piccola, calcolata una volta sola
+const BINOM: number[][] = (() => {
+  const t: number[][] = [];
+  for (let n = 0; n <= MAX_NUM; n++) {
+    t.push(Array(7).fill(0));
+    t[n][0] = 1;
+    for (let k = 1; k <= Math.min(n, 6); k++)
+      t[n][k] = t[n - 1][k - 1] + (k <= n - 1 ? t[n - 1][k] : 0);
+  }
+  return t;
+})();
+
+export function binom(n: number, k: number): number {
+  if (k < 0 || n < 0 || k > n) return 0;
+  if (n <= MAX_NUM && k <= 6) return BINOM[n][k];
+  k = Math.min(k, n - k);
+  let res = 1;
+  for (let i = 1; i <= k; i++) res = (res * (n - k + i)) / i;
+  return Math.round(res);
 }
 
-function isValidSestina(nums: number[], c: Constraints): boolean {
-  const set = new Set(nums);
+// le stesse per colonna (COLUMN[k][n] = C(n, k)): l'unrank è il passo più
+// caricato quando si decodificano i gruppi salvati (binaryCodec.ts)
+const COLUMN: Float64Array[] = Array.from({ length: 7 }, (_, k) =>
+  Float64Array.from(BINOM, (row) => row[k]),
+);
 
-  for (const ex of c.exclude) if (set.has(ex)) return false;
-  for (const mi of c.mustInclude) if (!set.has(mi)) return false;
+// C(90,6): numero totale di sestine possibili
+export const TOTAL_SESTINE = BINOM[MAX_NUM][6];
 
-  if (c.mustIncludeAnyOf.length > 0) {
-    let ok = false;
-    for (const x of c.mustIncludeAnyOf) if (set.has(x)) { ok = true; break; }
-    if (!ok) return false;
+export function isSestinaNums(nums: unknown): nums is SestinaNums {
+  if (!Array.isArray(nums) || nums.length !== 6) return false;
+  for (let i = 0; i < 6; i++) {
+    const n = nums[i];
+    if (!Number.isInteger(n) || n < MIN_NUM || n > MAX_NUM) return false;
+    if (i > 0 && n <= nums[i - 1]) return false;
   }
-
   return true;
 }
 
-export function generateRandomSestinaWithConstraints(
-  rng: RNG,
-  constraints: Constraints
-): SestinaNums {
-  // Strategia: prima metti i mustInclude, poi completa evitando exclude e duplicati interni
-  const picked = new Set<number>();
+/**
+ * Rank colessicografico: biiezione sestina ↔ intero in [0, C(90,6)).
+ * rank = Σ C(n_i - 1, i + 1) con n_i ordinati crescenti.
+ */
+export function sestinaRank(nums: number[]): number {
+  // già ordinata (caso comune, es. caricamento di grandi gruppi): niente copia
+  const s = isSestinaNums(nums) ? nums : normalizeNums(nums);
+  if (!isSestinaNums(s)) throw new RangeError(`Sestina non valida: ${nums.join(",")}`);
+  let r = 0;
+  for (let i = 0; i < 6; i++) r += BINOM[s[i] - 1][i + 1];
+  return r;
+}
 
-  for (const n of constraints.mustInclude) picked.add(n);
+export function sestinaFromRank(rank: number): SestinaNums {
+  if (!Number.isInteger(rank) || rank < 0 || rank >= TOTAL_SESTINE)
+    throw new RangeError(`Rank fuori intervallo: ${rank}`);
 
-  // Se i mustInclude sono > 6 è impossibile
-  if (picked.size > 6) throw new Error("Vincolo impossibile: troppi numeri obbligatori (>6).");
+  const out = [0, 0, 0, 0, 0, 0];
+  let r = rank;
+  let c = MAX_NUM; // valore 0-based massimo + 1
+  for (let i = 5; i >= 0; i--) {
+    const col = COLUMN[i + 1];
+    c--;
+    while (col[c] > r) c--;
+    out[i] = c + 1;
+    r -= col[c];
+  }
+  return out as SestinaNums;
+}
+
+export function sestinaKeyFromRank(rank: number): string {
+  return sestinaFromRank(rank).join("-");
+}
 
-  // Completa fino a 6
-  let guard = 0;
-  while (picked.size < 6) {
-    guard++;
-    if (guard > 100_000) throw new Error("Impossibile soddisfare i vincoli (loop).");
+/* ---------------- struttura ---------------- */
 
-    const x = rngInt(rng, MIN_NUM, MAX_NUM);
-    if (picked.has(x)) continue;
-    if (constraints.exclude.includes(x)) continue;
-    picked.add(x);
+/** Tutte le combinazioni di k elementi di arr, in ordine lessicografico. */
+export function* combinations(arr: number[], k: number): Generator<number[]> {
+  if (k > arr.length) return;
+  const idx = Array.from({ length: k }, (_, i) => i);
+  while (true) {
+    yield idx.map((i) => arr[i]);
+    let i = k - 1;
+    while (i >= 0 && idx[i] === arr.length - k + i) i--;
+    if (i < 0) return;
+    idx[i]++;
+    for (let j = i + 1; j < k; j++) idx[j] = idx[j - 1] + 1;
   }
+}
 
-  const nums = normalizeNums([...picked]);
+export function decadeOf(n: number): number {
+  return Math.floor(n / 10);
+}
 
-  if (!isValidSestina(nums, constraints)) {
-    // raro: può fallire con mustIncludeAnyOf se non è stato soddisfatto
-    // rigenera in quel caso
-    return generateRandomSestinaWithConstraints(rng, constraints);
-  }
+export function countEven(nums: number[]): number {
+  let c = 0;
+  for (const n of nums) if (n % 2 === 0) c++;
+  return c;
+}
 
-  return nums;
+export function countLow(nums: number[]): number {
+  let c = 0;
+  for (const n of nums) if (n <= LOW_MAX) c++;
+  return c;
 }
 
-export function generateUniqueSestine(
-  count: number,
-  existingKeys: Set<string>,
-  rngFactory: (nonce: number) => RNG,
-  constraints: Constraints,
-  options?: { seed?: string; superstitionMode?: boolean }
-): Sestina[] {
-  const out: Sestina[] = [];
-  const now = new Date();
+export type SestinaStructure = {
+  sum: number;
+  evenCount: number;
+  lowCount: number;
+  maxPerDecade: number;
+  maxConsecutive: number;
+  distinctFinalDigits: boolean;
+};
 
-  for (let i = 0; i < count; i++) {
-    let nonce = 0;
-    let ok = false;
+export function sestinaStructure(nums: number[]): SestinaStructure {
+  const s = normalizeNums(nums);
+  let sum = 0;
+  let maxPerDecade = 0;
+  let maxConsecutive = 0;
+  let run = 0;
+  const perDecade = new Map<number, number>();
+  const finals = new Set<number>();
 
-    while (!ok) {
-      const rng = rngFactory(nonce);
-      const nums = generateRandomSestinaWithConstraints(rng, constraints);
-      const key = sestinaKey(nums);
-
-      if (!existingKeys.has(key)) {
-        existingKeys.add(key);
-        out.push({
-          nums,
-          key,
-          createdAt: new Date(now.getTime() + i).toISOString(),
-          frozen: false,
-          meta: {
-            seed: options?.seed,
-            attemptNonce: nonce,
-            superstitionMode: options?.superstitionMode,
-          },
-        });
-        ok = true;
-      } else {
-        nonce++;
-        if (nonce > 50_000) {
-          throw new Error("Impossibile generare sestine uniche: troppi duplicati (limite nonce).");
-        }
-      }
-    }
+  for (let i = 0; i < s.length; i++) {
+    const n = s[i];
+    sum += n;
+    const d = (perDecade.get(decadeOf(n)) ?? 0) + 1;
+    perDecade.set(decadeOf(n), d);
+    maxPerDecade = Math.max(maxPerDecade, d);
+    run = i > 0 && n === s[i - 1] + 1 ? run + 1 : 1;
+    maxConsecutive = Math.max(maxConsecutive, run);
+    finals.add(n % 10);
   }
 
+  return {
+    sum,
+    evenCount: countEven(s),
+    lowCount: countLow(s),
+    maxPerDecade,
+    maxConsecutive,
+    distinctFinalDigits: finals.size === s.length,
+  };
+}
+
+function inRange(x: number, r?: NumRange): boolean {
+  return !r || (x >= r.min && x <= r.max);
+}
+
+export function hasStructuralRules(c: StructuralConstraints): boolean {
+  return (
+    !!c.sum ||
+    !!c.evenCount ||
+    !!c.lowCount ||
+    c.maxPerDecade !== undefined ||
+    c.maxConsecutive !== undefined ||
+    !!c.distinctFinalDigits
+  );
+}
+
+export function matchesStructure(
+  nums: number[],
+  c: StructuralConstraints,
+): boolean {
+  if (!hasStructuralRules(c)) return true;
+  const st = sestinaStructure(nums);
+  if (!inRange(st.sum, c.sum)) return false;
+  if (!inRange(st.evenCount, c.evenCount)) return false;
+  if (!inRange(st.lowCount, c.lowCount)) return false;
+  if (c.maxPerDecade !== undefined && st.maxPerDecade > c.maxPerDecade)
+    return false;
+  if (c.maxConsecutive !== undefined && st.maxConsecutive > c.maxConsecutive)
+    return false;
+  if (c.distinctFinalDigits && !st.distinctFinalDigits) return false;
+  return true;
+}
+
+function rangeLabel(r: NumRange): string {
+  return r.min === r.max ? `${r.min}` : `${r.min}–${r.max}`;
+}
+
+// descrizione breve (UI/timeline) delle regole strutturali attive
+export function describeStructure(c: StructuralConstraints): string[] {
+  const out: string[] = [];
+  if (c.sum) out.push(`somma ${rangeLabel(c.sum)}`);
+  if (c.evenCount) out.push(`pari ${rangeLabel(c.evenCount)}`);
+  if (c.lowCount) out.push(`bassi ${rangeLabel(c.lowCount)}`);
+  if (c.maxPerDecade !== undefined)
+    out.push(`max ${c.maxPerDecade} per decina`);
+  if (c.maxConsecutive !== undefined)
+    out.push(`max ${c.maxConsecutive} consecutivi`);
+  if (c.distinctFinalDigits) out.push("finali diverse");
   return out;
 }
+
+export function rngInt(rng: RNG, min: number, max: number): number {
+  return Math.floor(rng() * (max - min + 1)) + min;
+}
+
+export function isValidSestina(nums: number[], c: Constraints): boolean {
+  const set = new Set(nums);
+
+  for (const ex of c.exclude) if (set.has(ex)) return false;
+  for (const mi of c.mustInclude) if (!set.has(mi)) return false;
+
+  if (c.mustIncludeAnyOf.length > 0) {
+    let ok = false;
+    for (const x of c.mustIncludeAnyOf) if (set.has(x)) { ok = true; break; }
+    if (!ok) return false;
+  }
+
+  return matchesStructure(nums, c);
+}
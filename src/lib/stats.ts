@@ -20,3 +20,179 @@ export function missingNumbers(freq: number[]): number[] {
     for (let n = MIN_NUM; n <= MAX_NUM; n++) if (freq[n] === 0) out.push(n);
     return out;
 }
+
+/**
+ * Se tutti i numeri usati compaiono lo stesso numero di volte (come in un
+ * gruppo fatto di blocchi di partizione): quante volte e su quanti numeri.
+ */
+export function uniformFrequency(freq: number[]): { count: number; numbers: number } | null {
+    let count = 0;
+    let numbers = 0;
+    for (let n = MIN_NUM; n <= MAX_NUM; n++) {
+        if (freq[n] === 0) continue;
+        if (count !== 0 && freq[n] !== count) return null;
+        count = freq[n];
+        numbers++;
+    }
+    return numbers > 0 ? { count, numbers } : null;
+}
+
+export type FrequencySpread = {
+    numbers: number; // numeri considerati
+    min: number;
+    max: number;
+    mean: number;
+    stdev: number;
+    pairsCovered: number; // coppie (tra i numeri considerati) uscite almeno una volta
+    pairsTotal: number;
+    pairMax: number;
+};
+
+/**
+ * Quanto sono distribuite in modo uniforme le frequenze del gruppo.
+ * `pool` limita il calcolo ai numeri che i vincoli ammettono (default 1..90).
+ */
+export function frequencySpread(
+    sestine: ReadonlyArray<{ nums: number[] }>,
+    pool?: number[],
+): FrequencySpread {
+    const nums = pool ?? Array.from({ length: MAX_NUM - MIN_NUM + 1 }, (_, i) => i + MIN_NUM);
+    const inPool = new Set(nums);
+    const freq = Array(MAX_NUM + 1).fill(0);
+    const pairs = new Map<number, number>();
+    for (const s of sestine) {
+        const ns = s.nums.filter((n) => inPool.has(n));
+        for (let i = 0; i < ns.length; i++) {
+            freq[ns[i]]++;
+            for (let j = i + 1; j < ns.length; j++) {
+                const a = Math.min(ns[i], ns[j]);
+                const k = a * (MAX_NUM + 1) + Math.max(ns[i], ns[j]);
+                pairs.set(k, (pairs.get(k) ?? 0) + 1);
+            }
+        }
+    }
+
+    const counts = nums.map((n) => freq[n]);
+    const mean = counts.length ? counts.reduce((a, b) => a + b, 0) / counts.length : 0;
+    const variance = counts.length
+        ? counts.reduce((a, c) => a + (c - mean) ** 2, 0) / counts.length
+        : 0;
+    let pairMax = 0;
+    for (const c of pairs.values()) pairMax = Math.max(pairMax, c);
+
+    return {
+        numbers: nums.length,
+        min: counts.length ? Math.min(...counts) : 0,
+        max: counts.length ? Math.max(...counts) : 0,
+        mean,
+        stdev: Math.sqrt(variance),
+        pairsCovered: pairs.size,
+        pairsTotal: (nums.length * (nums.length - 1)) / 2,
+        pairMax,
+    };
+}
+
+/* ---------------- test statistici ---------------- */
+
+function logGamma(x: number): number {
+    // Lanczos (g=7, n=9)
+    const c = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+        771.32342877765313, -176.61502916214059, 12.507343278686905,
+        -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+    ];
+    if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+    x -= 1;
+    let a = c[0];
+    const t = x + 7.5;
+    for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/** Gamma incompleta regolarizzata superiore Q(a, x). */
+function gammaQ(a: number, x: number): number {
+    if (x <= 0) return 1;
+    const lnPre = -x + a * Math.log(x) - logGamma(a);
+
+    if (x < a + 1) {
+        // serie per P(a, x)
+        let sum = 1 / a;
+        let term = sum;
+        for (let n = 1; n < 10_000; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+        }
+        return Math.max(0, 1 - sum * Math.exp(lnPre));
+    }
+
+    // frazione continua (Lentz) per Q(a, x)
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 10_000; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-15) break;
+    }
+    return Math.min(1, Math.exp(lnPre) * h);
+}
+
+/** p-value della statistica chi-quadro con df gradi di libertà. */
+export function chiSquarePValue(chi2: number, df: number): number {
+    return gammaQ(df / 2, chi2 / 2);
+}
+
+/** Chi-quadro di bontà d'adattamento contro la distribuzione uniforme. */
+export function chiSquareUniform(observed: number[]): { chi2: number; df: number; pValue: number } {
+    const total = observed.reduce((a, b) => a + b, 0);
+    const expected = total / observed.length;
+    let chi2 = 0;
+    for (const o of observed) chi2 += ((o - expected) * (o - expected)) / expected;
+    const df = observed.length - 1;
+    return { chi2, df, pValue: chiSquarePValue(chi2, df) };
+}
+
+/** erfc con errore relativo < 1.2e-7 (Numerical Recipes, erfcc). */
+function erfc(x: number): number {
+    const z = Math.abs(x);
+    const t = 1 / (1 + 0.5 * z);
+    const r =
+        t *
+        Math.exp(
+            -z * z - 1.26551223 +
+                t * (1.00002368 + t * (0.37409196 + t * (0.09678418 + t * (-0.18628806 +
+                t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))),
+        );
+    return x >= 0 ? r : 2 - r;
+}
+
+/** p-value bilaterale di uno z-score normale standard. */
+export function normalTwoSidedPValue(z: number): number {
+    return Math.min(1, erfc(Math.abs(z) / Math.SQRT2));
+}
+
+/**
+ * p-value corretti di Holm (stesso ordine dell'input): controllano la
+ * probabilità di almeno un falso allarme sull'intera famiglia di test.
+ */
+export function holmAdjust(pValues: number[]): number[] {
+    const m = pValues.length;
+    const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+    const out = new Array<number>(m);
+    let running = 0;
+    order.forEach((idx, rank) => {
+        running = Math.max(running, Math.min(1, (m - rank) * pValues[idx]));
+        out[idx] = running;
+    });
+    return out;
+}
@@ -1,9 +1,102 @@
 // src/lib/storage.ts
-import type { Sestina } from "./sestine";
+import type { Constraints, Sestina, StructuralConstraints } from "./sestine";
+import type { SystemCertificate } from "./covering";
+import type { GenerationRecipe } from "./recipe";
+import type { FrequencySpread } from "./stats";
+import type { HistoryLevel } from "./history";
+import type { SuperstarRule } from "./superstar";
+import { DEFAULT_RNG_ALGORITHM, type RngAlgorithmId, type RngRef } from "./rng";
+import {
+  SCHEMA_VERSION,
+  migrateState,
+  schemaVersion,
+  type MigrationReport,
+} from "./migrations";
+import {
+  isCleanReport,
+  validateState,
+  type ValidationReport,
+} from "./validateState";
+import {
+  decodeSestine,
+  decodeSestineBlocks,
+  encodeSestineBlocks,
+} from "./binaryCodec";
 
-export type GroupEvent =
-  | { type: "generate"; at: string; count: number; seed?: string; constraintsSnapshot: any }
-  | { type: "validate"; at: string; draw: number[]; jolly?: number; superstar?: number };
+// anello della catena di eventi (vedi eventChain.ts)
+export type ChainLink = {
+  prev: string; // hash dell'evento precedente
+  state: string; // digest del contenuto del gruppo dopo l'evento
+  hash: string;
+};
+
+export type GroupEvent = (
+  | {
+      type: "generate";
+      at: string;
+      count: number;
+      seed?: string;
+      constraintsSnapshot: Constraints;
+      partial?: boolean;
+      // algoritmo usato in modalità random
+      rng?: RngRef;
+      // modalità permutazione: chiave e intervallo di indici percorso
+      permutation?: { key: number; start: number; end: number };
+      // ricetta versionata per replay & verifica (assente negli eventi vecchi)
+      recipe?: GenerationRecipe;
+      // modalità bilanciata: distribuzione delle frequenze del gruppo dopo il run
+      spread?: FrequencySpread;
+      // SuperStar assegnato alle sestine del run
+      superstar?: SuperstarRule;
+    }
+  | { type: "validate"; at: string; draw: number[]; jolly?: number; superstar?: number }
+  | {
+      type: "commit";
+      at: string;
+      version: number;
+      // seed (o sale casuale) rivelato insieme alle sestine
+      seed: string;
+      count: number;
+      hash: string; // SHA-256 esadecimale, vedi commitment.ts
+    }
+  | {
+      type: "system";
+      at: string;
+      kind: "full";
+      // numeri scelti: il sistema si ricostruisce espandendo il pool
+      pool: number[];
+      tickets: number;
+    }
+  | {
+      type: "system";
+      at: string;
+      kind: "reduced";
+      pool: number[];
+      tickets: number;
+      // garanzia + sestine esatte: verificabile anche se il gruppo cambia
+      certificate: SystemCertificate;
+    }
+  | {
+      type: "system";
+      at: string;
+      kind: "bases";
+      bases: number[];
+      pool: number[];
+      tickets: number;
+      // parte rotante di ogni sestina: con le basi ricostruisce il gruppo
+      // (vedi bases.ts)
+      rotations: number[][];
+    }
+  | { type: "import"; at: string; count: number; mode: "merge" | "replace" }
+  | {
+      type: "edit";
+      at: string;
+      // sestine tolte a mano, gruppo svuotato, spostate da un import o
+      // riparate/messe in quarantena al caricamento (validateState.ts)
+      action: "remove" | "clear" | "moveOut" | "repair";
+      count: number;
+    }
+) & { chain?: ChainLink };
 
 export type Group = {
   id: string;
@@ -13,9 +106,14 @@ export type Group = {
   events: GroupEvent[];
 };
 
+export type GenerationMode =
+  "random" | "permutation" | "balanced" | "partition";
+
 export type Settings = {
   seedEnabled: boolean;
   seedValue: string;
+  generationMode: GenerationMode;
+  rngAlgorithm: RngAlgorithmId;
 
   // evidenziazioni
   highlightEvenOdd: boolean;
@@ -25,6 +123,17 @@ export type Settings = {
   exclude: number[];
   mustInclude: number[];
   mustIncludeAnyOf: number[];
+  structural: StructuralConstraints;
+  // distanza minima: due sestine dello stesso gruppo non condividono più di
+  // tanti numeri (assente = nessun limite)
+  maxShared?: number;
+  // scarta le combinazioni già uscite (ed eventualmente quelle con 5 numeri
+  // di un'estrazione passata); assente = archivio non usato
+  excludeHistory?: HistoryLevel;
+  // scarta le combinazioni troppo "popolari" (vedi popularity.ts)
+  maxPopularity?: number;
+  // SuperStar da giocare con le nuove sestine (assente = non giocato)
+  superstar?: SuperstarRule;
 
   // superstizione
   superstitionEnabled: boolean;
@@ -37,26 +146,31 @@ export type Settings = {
 };
 
 export type AppState = {
-  version: 2;
+  version: typeof SCHEMA_VERSION;
   groups: Group[];
   settings: Settings;
 };
 
+// la chiave resta quella storica: la versione dei dati è nel payload
 const STORAGE_KEY = "superenalotto:sestine:v2";
+const BACKUP_KEY = "superenalotto:sestine:backup";
 
 export function defaultState(): AppState {
   return {
-    version: 2,
+    version: SCHEMA_VERSION,
     groups: [],
     settings: {
       seedEnabled: false,
       seedValue: "PASQUA2026",
+      generationMode: "random",
+      rngAlgorithm: DEFAULT_RNG_ALGORITHM,
       highlightEvenOdd: true,
       highlightLowHigh: true,
 
       exclude: [],
       mustInclude: [],
       mustIncludeAnyOf: [],
+      structural: {},
 
       superstitionEnabled: false,
       luckyNumbers: [],
@@ -68,20 +182,358 @@ export function defaultState(): AppState {
   };
 }
 
-export function loadState(): AppState {
+/* ---------------- persistenza ---------------- */
+
+/**
+ * Backend principale: IndexedDB, un record per gruppo (sestine in binario,
+ * vedi binaryCodec.ts) più un record "state" con impostazioni e ordine dei
+ * gruppi. Lo stato dell'app è immutabile, quindi
+ * a ogni salvataggio si riscrivono solo i gruppi che hanno cambiato oggetto.
+ * Al primo avvio i dati di localStorage vengono copiati e poi rimossi.
+ * Se IndexedDB non è disponibile si resta su localStorage, come prima.
+ *
+ * Dati di uno schema precedente passano per migrations.ts, poi tutto passa per
+ * validateState.ts; se uno dei due cambia qualcosa, prima si salva una copia
+ * del payload grezzo (archivio "backups" o chiave BACKUP_KEY).
+ */
+export type StorageBackend = "indexeddb" | "localStorage";
+
+export type LoadReport = {
+  migration: MigrationReport | null;
+  repair: ValidationReport | null;
+  // dove è finita la copia dei dati originali (null se non riuscita)
+  backup: string | null;
+};
+
+export type LoadResult = {
+  state: AppState;
+  // cosa è cambiato al caricamento (null se niente)
+  report: LoadReport | null;
+  // dati non gestibili da questa versione: l'app non deve salvarci sopra
+  error?: string;
+};
+
+const DB_NAME = "superenalotto";
+const DB_VERSION = 2;
+const META_STORE = "meta";
+const GROUPS_STORE = "groups";
+const BACKUP_STORE = "backups";
+const META_KEY = "state";
+
+type MetaRecord = {
+  version: number;
+  settings: Settings;
+  order: string[]; // id dei gruppi, nell'ordine dell'app
+};
+
+// i record scritti prima dei blocchi hanno un blocco solo, quelli prima del
+// formato binario ancora l'array di sestine
+type GroupRecord = Omit<Group, "sestine"> & {
+  sestine: Uint8Array[] | Uint8Array | Sestina[];
+};
+
+type BackupRecord = {
+  at: string;
+  version: number;
+  payload: unknown;
+};
+
+let db: IDBDatabase | null = null;
+// ultimo stato scritto su IndexedDB (per le scritture incrementali)
+let saved: {
+  settings: Settings;
+  order: string[];
+  groups: Map<string, Group>;
+} | null = null;
+
+export function storageBackend(): StorageBackend {
+  return db ? "indexeddb" : "localStorage";
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transazione annullata."));
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB non disponibile."));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const d = req.result;
+      if (!d.objectStoreNames.contains(META_STORE))
+        d.createObjectStore(META_STORE);
+      if (!d.objectStoreNames.contains(GROUPS_STORE))
+        d.createObjectStore(GROUPS_STORE, { keyPath: "id" });
+      if (!d.objectStoreNames.contains(BACKUP_STORE))
+        d.createObjectStore(BACKUP_STORE, { autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () =>
+      reject(new Error("IndexedDB bloccato da un'altra scheda."));
+  });
+}
+
+// campi aggiunti dopo: completa con i default
+function completeState(parsed: AppState): AppState {
+  const settings = { ...defaultState().settings, ...parsed.settings };
+  return { ...parsed, settings };
+}
+
+function tooNew(version: number): LoadResult {
+  return {
+    state: defaultState(),
+    report: null,
+    error: `I dati salvati vengono da una versione più recente dell'app (schema v${version}, questa arriva alla v${SCHEMA_VERSION}): restano intatti e le modifiche di questa scheda non vengono salvate. Aggiorna l'app.`,
+  };
+}
+
+function unreadable(e: unknown): LoadResult {
+  const why = e instanceof Error ? e.message : String(e);
+  return {
+    state: defaultState(),
+    report: null,
+    error: `Impossibile leggere i dati salvati in IndexedDB (${why}): restano intatti e le modifiche di questa scheda non vengono salvate. Ricarica la pagina per riprovare.`,
+  };
+}
+
+/** Payload grezzo di localStorage, o null se assente o illeggibile. */
+function readLocalRaw(): unknown {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return defaultState();
-    const parsed = JSON.parse(raw) as AppState;
-    if (!parsed || parsed.version !== 2) return defaultState();
-    return parsed;
+    return raw ? (JSON.parse(raw) as unknown) : null;
+  } catch {
+    return null;
+  }
+}
+
+function backupLocal(payload: unknown, version: number): string | null {
+  const key = `${BACKUP_KEY}:v${version}`;
+  try {
+    localStorage.setItem(key, JSON.stringify(payload));
+    return `localStorage, chiave ${key}`;
+  } catch {
+    return null;
+  }
+}
+
+async function backupDb(
+  d: IDBDatabase,
+  payload: unknown,
+  version: number,
+): Promise<string | null> {
+  try {
+    const tx = d.transaction(BACKUP_STORE, "readwrite");
+    const record: BackupRecord = {
+      at: new Date().toISOString(),
+      version,
+      payload,
+    };
+    tx.objectStore(BACKUP_STORE).add(record);
+    await completion(tx);
+    return `IndexedDB, archivio ${BACKUP_STORE}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Porta il payload allo schema attuale e lo ripara. `backup` riceve il payload
+ * grezzo se cambia qualcosa; null se non c'è niente da caricare.
+ */
+async function migrateLoaded(
+  raw: unknown,
+  backup: (payload: unknown, version: number) => Promise<string | null>,
+): Promise<LoadResult | null> {
+  const version = schemaVersion(raw);
+  if (version === null) return null;
+  if (version > SCHEMA_VERSION) return tooNew(version);
+
+  const migrated = version < SCHEMA_VERSION ? migrateState(raw) : null;
+  const checked = validateState(
+    completeState(migrated?.state ?? (raw as AppState)),
+    { defaults: defaultState().settings, newGroupId: () => newId("group") },
+  );
+  const repaired = !isCleanReport(checked.report);
+  if (!migrated && !repaired) return { state: checked.state, report: null };
+
+  return {
+    state: checked.state,
+    report: {
+      migration: migrated?.report ?? null,
+      repair: repaired ? checked.report : null,
+      backup: await backup(raw, version),
+    },
+  };
+}
+
+async function loadLocalState(): Promise<LoadResult> {
+  const res = await migrateLoaded(readLocalRaw(), async (payload, version) =>
+    backupLocal(payload, version),
+  );
+  return res ?? { state: defaultState(), report: null };
+}
+
+async function packGroup(g: Group, previous?: Group): Promise<GroupRecord> {
+  return {
+    ...g,
+    sestine: await encodeSestineBlocks(g.sestine, previous?.sestine),
+  };
+}
+
+async function unpackGroup(r: GroupRecord): Promise<Group> {
+  const stored = r.sestine;
+  if (stored instanceof Uint8Array)
+    return { ...r, sestine: decodeSestine(stored) };
+  if (stored[0] instanceof Uint8Array)
+    return {
+      ...r,
+      sestine: await decodeSestineBlocks(stored as Uint8Array[]),
+    };
+  return r as Group;
+}
+
+function remember(state: AppState) {
+  saved = {
+    settings: state.settings,
+    order: state.groups.map((g) => g.id),
+    groups: new Map(state.groups.map((g) => [g.id, g])),
+  };
+}
+
+async function writeState(d: IDBDatabase, state: AppState): Promise<void> {
+  // prima i blocchi, poi la transazione: cedendo il main thread con la
+  // transazione aperta e nessuna richiesta in corso, si chiuderebbe da sola
+  const records: GroupRecord[] = [];
+  for (const g of state.groups) {
+    const previous = saved?.groups.get(g.id);
+    if (previous !== g) records.push(await packGroup(g, previous));
+  }
+
+  const tx = d.transaction([META_STORE, GROUPS_STORE], "readwrite");
+  const groups = tx.objectStore(GROUPS_STORE);
+  const order = state.groups.map((g) => g.id);
+
+  for (const r of records) groups.put(r);
+  if (saved) {
+    const live = new Set(order);
+    for (const id of saved.groups.keys()) if (!live.has(id)) groups.delete(id);
+  }
+  if (
+    !saved ||
+    saved.settings !== state.settings ||
+    saved.order.join("\n") !== order.join("\n")
+  ) {
+    const meta: MetaRecord = {
+      version: state.version,
+      settings: state.settings,
+      order,
+    };
+    tx.objectStore(META_STORE).put(meta, META_KEY);
+  }
+
+  await completion(tx);
+  remember(state);
+}
+
+// caricamenti concorrenti (es. effetti doppi in StrictMode) condividono la
+// stessa lettura: due migrazioni in parallelo perderebbero i dati
+let loading: Promise<LoadResult> | null = null;
+
+export function loadState(): Promise<LoadResult> {
+  loading ??= readState().finally(() => {
+    loading = null;
+  });
+  return loading;
+}
+
+async function readState(): Promise<LoadResult> {
+  try {
+    db ??= await openDb();
   } catch {
-    return defaultState();
+    db = null;
+    return loadLocalState();
+  }
+  const d = db;
+
+  try {
+    const tx = d.transaction([META_STORE, GROUPS_STORE], "readonly");
+    const [meta, groups] = await Promise.all([
+      request<MetaRecord | undefined>(tx.objectStore(META_STORE).get(META_KEY)),
+      request<GroupRecord[]>(tx.objectStore(GROUPS_STORE).getAll()),
+    ]);
+
+    if (!meta) {
+      // primo avvio con IndexedDB: migra i dati di localStorage, se ci sono
+      const raw = readLocalRaw();
+      const res = await migrateLoaded(raw, (payload, version) =>
+        backupDb(d, payload, version),
+      );
+      if (!res) return { state: defaultState(), report: null };
+      if (res.error) return res;
+      // la copia grezza resta anche quando lo schema non cambia
+      if (!res.report) await backupDb(d, raw, SCHEMA_VERSION);
+      saved = null;
+      await writeState(d, res.state);
+      localStorage.removeItem(STORAGE_KEY);
+      return res;
+    }
+
+    const byId = new Map(groups.map((r) => [r.id, r]));
+    const unpacked: Group[] = [];
+    for (const id of meta.order) {
+      const r = byId.get(id);
+      if (r) unpacked.push(await unpackGroup(r));
+    }
+    const raw = {
+      version: meta.version,
+      settings: meta.settings,
+      groups: unpacked,
+    };
+    const res = await migrateLoaded(raw, (payload, version) =>
+      backupDb(d, payload, version),
+    );
+    if (!res) return { state: defaultState(), report: null };
+    if (res.error) return res;
+    if (res.report) {
+      saved = null;
+      await writeState(d, res.state);
+    } else remember(res.state);
+    return res;
+  } catch (e) {
+    // niente ripiego su localStorage: dopo il primo avvio è stato svuotato, e
+    // salvarci sopra farebbe divergere i due archivi
+    return unreadable(e);
   }
 }
 
-export function saveState(state: AppState) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+// un salvataggio alla volta: i blocchi si codificano cedendo il main thread, e
+// uno più recente non deve chiudere la sua transazione prima di uno più vecchio
+let writing: Promise<void> = Promise.resolve();
+
+export async function saveState(state: AppState): Promise<void> {
+  if (!db) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    return;
+  }
+  const d = db;
+  const run = writing.then(() => writeState(d, state));
+  writing = run.catch(() => undefined);
+  return run;
 }
 
 export function newId(prefix = "g"): string {
@@ -0,0 +1,39 @@
+// src/lib/superstar.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  SUPERSTAR_CATEGORIES,
+  superstarCategory,
+  superstarQuota,
+  type SuperstarCategory,
+} from "./superstar";
+
+describe("superstarCategory", () => {
+  it("è null se il SuperStar non è indovinato", () => {
+    expect(superstarCategory(6, false, false)).toBeNull();
+  });
+
+  it("distingue 5+1★ da 5★ e copre da 0 a 6 punti", () => {
+    expect(superstarCategory(5, true, true)).toBe("5+1★");
+    expect(superstarCategory(5, false, true)).toBe("5★");
+    for (let hits = 0; hits <= 6; hits++)
+      expect(superstarCategory(hits, false, true)).toBe(`${hits}★`);
+  });
+});
+
+describe("superstarQuota", () => {
+  const base = 1000;
+  const expected: Record<SuperstarCategory, number> = {
+    "6★": 1000,
+    "5+1★": 25_000,
+    "5★": 25_000,
+    "4★": 100_000,
+    "3★": 100_000,
+    "2★": 100_000,
+    "1★": 10,
+    "0★": 5,
+  };
+
+  it.each(SUPERSTAR_CATEGORIES)("%s", (category) => {
+    expect(superstarQuota(category, base)).toBe(expected[category]);
+  });
+});
@@ -0,0 +1,82 @@
+// src/lib/superstar.ts
+import { rngFromSeed } from "./rng";
+import { MAX_NUM, MIN_NUM, rngInt, type Sestina } from "./sestine";
+
+/**
+ * SuperStar: numero 1–90 giocato a parte su ogni schedina, confrontato con il
+ * SuperStar estratto (non con i 6 numeri). Se coincide la schedina vince nelle
+ * categorie ★ al posto di quelle base: con 0 o 1 punti ha già un premio, dal
+ * 2 in su la quota base viene moltiplicata.
+ */
+export type SuperstarCategory =
+  "6★" | "5+1★" | "5★" | "4★" | "3★" | "2★" | "1★" | "0★";
+
+export const SUPERSTAR_CATEGORIES: SuperstarCategory[] = [
+  "6★",
+  "5+1★",
+  "5★",
+  "4★",
+  "3★",
+  "2★",
+  "1★",
+  "0★",
+];
+
+// come si assegna il SuperStar alle sestine generate (assente = non giocato)
+export type SuperstarRule =
+  { mode: "random" } | { mode: "fixed"; value: number };
+
+/** Categoria ★ della schedina, o null se il SuperStar non è indovinato. */
+export function superstarCategory(
+  hits: number,
+  jollyHit: boolean,
+  starHit: boolean,
+): SuperstarCategory | null {
+  if (!starHit) return null;
+  if (hits === 5 && jollyHit) return "5+1★";
+  return `${Math.max(0, Math.min(6, hits))}★` as SuperstarCategory;
+}
+
+/**
+ * Quota indicativa della categoria, a partire da quella base con gli stessi
+ * punti (`baseQuota`): 6★ resta il jackpot, 5+1★ e 5★ valgono 25 volte,
+ * 4★–2★ 100 volte; 1★ e 0★ hanno premi fissi.
+ */
+export function superstarQuota(
+  category: SuperstarCategory,
+  baseQuota: number,
+): number {
+  switch (category) {
+    case "6★":
+      return baseQuota;
+    case "5+1★":
+    case "5★":
+      return 25 * baseQuota;
+    case "4★":
+    case "3★":
+    case "2★":
+      return 100 * baseQuota;
+    case "1★":
+      return 10;
+    case "0★":
+      return 5;
+  }
+}
+
+/**
+ * Assegna il SuperStar alle sestine generate. In modalità casuale il numero
+ * dipende solo da `seed` e dalla sestina, così un run con seed lo ripete.
+ */
+export function assignSuperstar(
+  sestine: Sestina[],
+  rule: SuperstarRule,
+  seed: string,
+): Sestina[] {
+  return sestine.map((s) => ({
+    ...s,
+    superstar:
+      rule.mode === "fixed"
+        ? rule.value
+        : rngInt(rngFromSeed(`${seed}::superstar::${s.key}`), MIN_NUM, MAX_NUM),
+  }));
+}
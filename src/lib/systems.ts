@@ -0,0 +1,54 @@
+// src/lib/systems.ts
+import {
+  MAX_NUM,
+  MIN_NUM,
+  binom,
+  combinations,
+  normalizeNums,
+  sestinaRank,
+  type SestinaNums,
+} from "./sestine";
+
+/**
+ * Sistemi: il giocatore sceglie un "pool" di N numeri e gioca le sestine
+ * formate solo da quei numeri. Il sistema integrale le gioca tutte, C(N,6).
+ */
+
+export const SYSTEM_POOL_MIN = 7;
+export const SYSTEM_POOL_MAX = 20;
+export const TICKET_PRICE_EURO = 1;
+
+export function systemTicketCount(poolSize: number): number {
+  return poolSize >= 6 ? binom(poolSize, 6) : 0;
+}
+
+export function systemCostEuro(tickets: number): number {
+  return tickets * TICKET_PRICE_EURO;
+}
+
+/** Pool ordinato e senza duplicati, oppure errore leggibile. */
+export function normalizePool(pool: number[]): number[] {
+  const nums = normalizeNums(pool);
+  if (nums.some((n) => !Number.isInteger(n) || n < MIN_NUM || n > MAX_NUM))
+    throw new Error(
+      `I numeri del sistema devono essere tra ${MIN_NUM} e ${MAX_NUM}.`,
+    );
+  if (nums.length < SYSTEM_POOL_MIN || nums.length > SYSTEM_POOL_MAX)
+    throw new Error(
+      `Un sistema richiede da ${SYSTEM_POOL_MIN} a ${SYSTEM_POOL_MAX} numeri (scelti: ${nums.length}).`,
+    );
+  return nums;
+}
+
+/** Sistema integrale: tutte le sestine del pool, in ordine lessicografico. */
+export function expandFullSystem(pool: number[]): SestinaNums[] {
+  return Array.from(combinations(normalizePool(pool), 6));
+}
+
+/** Sestine del sistema già presenti altrove (rank già usati). */
+export function findSystemCollisions(
+  tickets: SestinaNums[],
+  existingRanks: Set<number>,
+): SestinaNums[] {
+  return tickets.filter((t) => existingRanks.has(sestinaRank(t)));
+}
@@ -0,0 +1,145 @@
+// src/lib/systemsClient.ts
+import type {
+  CoveringStatus,
+  CoveringVerification,
+  Guarantee,
+  GuaranteeReport,
+} from "./covering";
+import type { SestinaNums } from "./sestine";
+
+/**
+ * Protocollo tra main thread e worker dei sistemi.
+ * La ricerca gira per `timeMs` (almeno fino a una soluzione valida) e può
+ * essere fermata prima: in quel caso restituisce la migliore trovata.
+ * La verifica della garanzia di un gruppo è un calcolo unico, senza stop.
+ */
+export type ReducedSearch = {
+  pool: number[];
+  guarantee: Guarantee;
+  // rank delle sestine del pool già presenti in qualche gruppo
+  excluded: number[];
+  timeMs: number;
+};
+
+export type ReducedResult = {
+  tickets: SestinaNums[];
+  verification: CoveringVerification;
+  elapsedMs: number;
+};
+
+export type GuaranteeAudit = {
+  tickets: number[][];
+  pool: number[];
+  k: number;
+  atLeast?: number;
+};
+
+export type SystemsRequest =
+  | { type: "search"; jobId: number; search: ReducedSearch }
+  | { type: "guarantee"; jobId: number; audit: GuaranteeAudit }
+  | { type: "stop"; jobId: number };
+
+export type SystemsResponse =
+  | {
+      type: "progress";
+      jobId: number;
+      status: CoveringStatus;
+      elapsedMs: number;
+    }
+  | { type: "done"; jobId: number; result: ReducedResult | null }
+  | { type: "guarantee"; jobId: number; report: GuaranteeReport }
+  | { type: "error"; jobId: number; message: string };
+
+export type SystemsProgress = { status: CoveringStatus; elapsedMs: number };
+
+export type SystemsClient = {
+  search: (
+    req: ReducedSearch,
+    onProgress?: (p: SystemsProgress) => void,
+  ) => Promise<ReducedResult | null>;
+  guarantee: (audit: GuaranteeAudit) => Promise<GuaranteeReport>;
+  stop: () => void;
+  dispose: () => void;
+};
+
+type ActiveJob = {
+  jobId: number;
+  onProgress?: (p: SystemsProgress) => void;
+  resolve: (
+    msg: Exclude<SystemsResponse, { type: "progress" | "error" }>,
+  ) => void;
+  reject: (e: Error) => void;
+};
+
+export function createSystemsClient(): SystemsClient {
+  const worker = new Worker(
+    new URL("../workers/systems.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+
+  let nextJobId = 1;
+  let active: ActiveJob | null = null;
+
+  function send(msg: SystemsRequest) {
+    worker.postMessage(msg);
+  }
+
+  worker.onmessage = (e: MessageEvent<SystemsResponse>) => {
+    const msg = e.data;
+    const job = active;
+    if (!job || msg.jobId !== job.jobId) return;
+
+    if (msg.type === "progress") {
+      job.onProgress?.({ status: msg.status, elapsedMs: msg.elapsedMs });
+      return;
+    }
+
+    active = null;
+    if (msg.type === "error") job.reject(new Error(msg.message));
+    else job.resolve(msg);
+  };
+
+  function start(
+    msg: SystemsRequest,
+    onProgress?: (p: SystemsProgress) => void,
+  ) {
+    if (active) return Promise.reject(new Error("Ricerca già in corso."));
+    return new Promise<Parameters<ActiveJob["resolve"]>[0]>(
+      (resolve, reject) => {
+        active = { jobId: msg.jobId, onProgress, resolve, reject };
+        send(msg);
+      },
+    );
+  }
+
+  return {
+    async search(req, onProgress) {
+      const msg = await start(
+        { type: "search", jobId: nextJobId++, search: req },
+        onProgress,
+      );
+      return msg.type === "done" ? msg.result : null;
+    },
+
+    async guarantee(audit) {
+      const msg = await start({
+        type: "guarantee",
+        jobId: nextJobId++,
+        audit,
+      });
+      if (msg.type !== "guarantee")
+        throw new Error("Risposta inattesa dal worker.");
+      return msg.report;
+    },
+
+    stop() {
+      if (active) send({ type: "stop", jobId: active.jobId });
+    },
+
+    dispose() {
+      worker.terminate();
+      if (active) active.reject(new Error("Worker terminato."));
+      active = null;
+    },
+  };
+}
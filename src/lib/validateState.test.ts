@@ -0,0 +1,206 @@
+// src/lib/validateState.test.ts
+import { describe, expect, it } from "vitest";
+import { appendEvent, verifyChain } from "./eventChain";
+import { sestinaKey, type Sestina } from "./sestine";
+import {
+  defaultState,
+  type AppState,
+  type Group,
+  type GroupEvent,
+} from "./storage";
+import { isCleanReport, validateState } from "./validateState";
+
+const options = {
+  defaults: defaultState().settings,
+  newGroupId: () => "group_new",
+};
+
+const sestina = (nums: number[]): Sestina => ({
+  nums,
+  key: sestinaKey(nums),
+  createdAt: "2026-01-01T00:00:00.000Z",
+  frozen: false,
+});
+
+function withSettings(patch: Record<string, unknown>): AppState {
+  const base = defaultState();
+  return {
+    ...base,
+    settings: { ...base.settings, ...patch } as AppState["settings"],
+  };
+}
+
+describe("validateState: impostazioni", () => {
+  it("lascia intatto uno stato valido", () => {
+    const state = defaultState();
+    const res = validateState(state, options);
+    expect(res.state).toBe(state);
+    expect(isCleanReport(res.report)).toBe(true);
+  });
+
+  it("ripristina algoritmo RNG e modalità sconosciuti", () => {
+    const { state, report } = validateState(
+      withSettings({ rngAlgorithm: "rot13", generationMode: "magic" }),
+      options,
+    );
+    expect(state.settings.rngAlgorithm).toBe(options.defaults.rngAlgorithm);
+    expect(state.settings.generationMode).toBe(options.defaults.generationMode);
+    expect(report.fixed.map((f) => f.what)).toEqual([
+      "impostazione «rngAlgorithm» sconosciuta: ripristinato il default",
+      "impostazione «generationMode» sconosciuta: ripristinato il default",
+    ]);
+  });
+
+  it("tiene solo gli interi 1–90 nelle liste di numeri", () => {
+    const { state, report } = validateState(
+      withSettings({
+        exclude: [1, "2", 91, 3.5, 90],
+        mustInclude: [0, 7],
+        luckyNumbers: [null, 13],
+      }),
+      options,
+    );
+    expect(state.settings.exclude).toEqual([1, 90]);
+    expect(state.settings.mustInclude).toEqual([7]);
+    expect(state.settings.luckyNumbers).toEqual([13]);
+    expect(report.fixed).toHaveLength(3);
+  });
+
+  it("toglie i campi facoltativi non validi", () => {
+    const { state, report } = validateState(
+      withSettings({
+        excludeHistory: "all",
+        superstar: { mode: "fixed", value: 0 },
+        maxShared: "3",
+      }),
+      options,
+    );
+    expect(state.settings).not.toHaveProperty("excludeHistory");
+    expect(state.settings).not.toHaveProperty("superstar");
+    expect(state.settings).not.toHaveProperty("maxShared");
+    expect(report.fixed).toHaveLength(3);
+  });
+
+  it("toglie i limiti facoltativi fuori intervallo", () => {
+    const { state, report } = validateState(
+      withSettings({ maxShared: 99, maxPopularity: -5 }),
+      options,
+    );
+    expect(state.settings).not.toHaveProperty("maxShared");
+    expect(state.settings).not.toHaveProperty("maxPopularity");
+    expect(report.fixed).toHaveLength(2);
+  });
+
+  it("toglie i doppioni dalle liste di numeri", () => {
+    const { state, report } = validateState(
+      withSettings({ exclude: [5, 5, 7], mustInclude: [3, 3, 99] }),
+      options,
+    );
+    expect(state.settings.exclude).toEqual([5, 7]);
+    expect(state.settings.mustInclude).toEqual([3]);
+    expect(report.fixed.map((f) => f.what)).toEqual([
+      "impostazione «exclude» con numeri ripetuti: tenuti una volta",
+      "impostazione «mustInclude» con numeri fuori da 1–90: tolti",
+    ]);
+  });
+
+  it("toglie le regole strutturali non valide e tiene le altre", () => {
+    const { state, report } = validateState(
+      withSettings({
+        structural: {
+          sum: { min: 300, max: 200 },
+          evenCount: { min: 1, max: 4 },
+          lowCount: { min: 0, max: 7 },
+          maxPerDecade: 0,
+          maxConsecutive: 2.5,
+          distinctFinalDigits: "sì",
+        },
+      }),
+      options,
+    );
+    expect(state.settings.structural).toEqual({
+      evenCount: { min: 1, max: 4 },
+    });
+    expect(report.fixed).toHaveLength(5);
+  });
+
+  it("accetta i valori facoltativi validi", () => {
+    const state = withSettings({
+      excludeHistory: "fives",
+      superstar: { mode: "fixed", value: 90 },
+      maxShared: 3,
+      maxPopularity: 40,
+      structural: { sum: { min: 100, max: 200 }, maxConsecutive: 1 },
+    });
+    expect(validateState(state, options).state).toBe(state);
+  });
+});
+
+describe("validateState: catena degli eventi", () => {
+  const a = sestina([1, 2, 3, 4, 5, 6]);
+  const b = sestina([7, 8, 9, 10, 11, 12]);
+  const imported: GroupEvent = {
+    type: "import",
+    at: "2026-01-01T00:00:00.000Z",
+    count: 2,
+    mode: "merge",
+  };
+  const chained = (sestine: Sestina[]): Group =>
+    appendEvent(
+      {
+        id: "g1",
+        name: "Gruppo",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        sestine,
+        events: [],
+      },
+      imported,
+    );
+  const withGroup = (g: Group): AppState => ({
+    ...defaultState(),
+    groups: [g],
+  });
+
+  it("registra la riparazione con un evento e la catena resta integra", () => {
+    // doppione e campo rotto salvati da un evento: catena coerente
+    const damaged = [a, { ...a }, { ...b, frozen: "no" }];
+    const { state, report } = validateState(
+      withGroup(chained(damaged as unknown as Sestina[])),
+      options,
+    );
+    const [repaired] = state.groups;
+    expect(report.quarantined).toHaveLength(1);
+    expect(repaired.sestine.map((s) => s.key)).toEqual([a.key, b.key]);
+    expect(repaired.events[0]).toMatchObject({
+      type: "edit",
+      action: "repair",
+      count: 2,
+    });
+    expect(verifyChain(repaired).status).toBe("intact");
+  });
+
+  it("non copre una catena già spezzata", () => {
+    const g = chained([a, b]);
+    const tampered = {
+      ...g,
+      sestine: [a, sestina([20, 21, 22, 23, 24, 25]), a],
+    };
+    const { state } = validateState(withGroup(tampered), options);
+    const [repaired] = state.groups;
+    expect(repaired.events).toHaveLength(1);
+    expect(verifyChain(repaired).status).toBe("broken");
+  });
+
+  it("non concatena la riparazione di una sestina iniettata fuori ordine", () => {
+    const g = chained([a, b]);
+    const injected = { ...sestina([20, 21, 22, 23, 24, 25]) };
+    injected.nums = [25, 24, 23, 22, 21, 20];
+    const tampered = { ...g, sestine: [a, b, injected] };
+    const { state, report } = validateState(withGroup(tampered), options);
+    const [repaired] = state.groups;
+    expect(repaired.sestine).toHaveLength(3);
+    expect(repaired.events).toEqual(g.events);
+    expect(report.altered).toEqual(["Gruppo"]);
+    expect(verifyChain(repaired).status).toBe("broken");
+  });
+});
@@ -0,0 +1,420 @@
+// src/lib/validateState.ts
+import {
+  MAX_NUM,
+  MIN_NUM,
+  isSestinaNums,
+  normalizeNums,
+  sestinaRank,
+  type Sestina,
+  type StructuralConstraints,
+} from "./sestine";
+import { appendEvent, verifyRawChain } from "./eventChain";
+import { MAX_SHARED_OPTIONS } from "./distance";
+import { isRngAlgorithmId } from "./rng";
+import type { HistoryLevel } from "./history";
+import type { SuperstarRule } from "./superstar";
+import type { AppState, GenerationMode, Group, Settings } from "./storage";
+
+/**
+ * Controllo a runtime di uno stato caricato o importato (già migrato allo
+ * schema attuale): verifica gli invarianti su cui conta sestine.ts e ripara
+ * quello che si può riparare senza perdere dati.
+ *
+ * - riparato: numeri validi ma non ordinati, chiave diversa da
+ *   sestinaKey(nums), campi accessori mancanti (createdAt, frozen, id e nome
+ *   del gruppo, timeline), impostazioni di tipo sbagliato o fuori
+ *   dall'elenco dei valori ammessi (→ default), numeri fuori da 1–90 o
+ *   ripetuti nelle liste delle impostazioni (→ tolti), regole strutturali e
+ *   limiti facoltativi fuori intervallo (→ tolti);
+ * - in quarantena (tolto dallo stato, riportato nel report): sestine senza 6
+ *   numeri distinti in 1–90, doppioni della stessa sestina (resta la prima;
+ *   i duplicati accettati all'import con meta.importDuplicate restano),
+ *   gruppi o elenchi di sestine illeggibili.
+ *
+ * Un gruppo con sestine riparate o in quarantena riceve un evento "edit"
+ * (action "repair") con il nuovo digest solo se la sua catena, verificata sui
+ * dati grezzi, era integra; senza catena l'evento resta fuori catena. Una
+ * catena già spezzata resta spezzata: nessun evento, e il gruppo finisce in
+ * `altered` (la riparazione non deve far passare per integra una modifica
+ * fatta fuori dall'app).
+ *
+ * Gli oggetti senza problemi restano gli stessi (i salvataggi incrementali
+ * confrontano l'identità dei gruppi).
+ */
+export type QuarantinedItem = {
+  groupName: string;
+  reason: string;
+  item: unknown;
+};
+
+export type ValidationReport = {
+  // riparazioni, raggruppate per tipo
+  fixed: Array<{ what: string; count: number }>;
+  quarantined: QuarantinedItem[];
+  // gruppi riparati con la catena già spezzata prima della riparazione
+  altered: string[];
+};
+
+type Raw = Record<string, unknown>;
+
+function isRecord(x: unknown): x is Raw {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function isNum(n: unknown): n is number {
+  return (
+    Number.isInteger(n) && (n as number) >= MIN_NUM && (n as number) <= MAX_NUM
+  );
+}
+
+/** Cosa non va nei numeri, o null se sono una sestina (anche non ordinata). */
+function numsProblem(nums: unknown): string | null {
+  if (!Array.isArray(nums) || nums.length !== 6) return "non sono 6 numeri";
+  if (!nums.every(isNum)) return `numeri fuori da ${MIN_NUM}–${MAX_NUM}`;
+  if (new Set(nums).size !== 6) return "numeri ripetuti";
+  return null;
+}
+
+// valori ammessi dei campi a elenco: l'app li usa come chiavi
+// (RNG_ALGORITHMS[rngAlgorithm], ramo per modalità), un valore ignoto la rompe
+const GENERATION_MODES: Record<GenerationMode, true> = {
+  random: true,
+  permutation: true,
+  balanced: true,
+  partition: true,
+};
+const HISTORY_LEVELS: Record<HistoryLevel, true> = { draws: true, fives: true };
+
+const NUMBER_LISTS = [
+  "exclude",
+  "mustInclude",
+  "mustIncludeAnyOf",
+  "luckyNumbers",
+  "unluckyNumbers",
+] as const satisfies ReadonlyArray<keyof Settings>;
+
+// campi numerici facoltativi: valori ammessi
+const OPTIONAL_NUMBERS: Record<
+  "maxShared" | "maxPopularity",
+  (v: number) => boolean
+> = {
+  maxShared: (v) => (MAX_SHARED_OPTIONS as readonly number[]).includes(v),
+  maxPopularity: (v) => v >= 0 && v <= 100, // punteggio 0–100
+};
+
+// regole strutturali: intervalli interi ammessi (gli stessi dei campi
+// dell'app; la DP impacchetta la somma contando su ≤ 525)
+const STRUCTURAL_RANGES = {
+  sum: [21, 525],
+  evenCount: [0, 6],
+  lowCount: [0, 6],
+} as const satisfies Partial<Record<keyof StructuralConstraints, unknown>>;
+const STRUCTURAL_LIMITS = {
+  maxPerDecade: [1, 6],
+  maxConsecutive: [1, 6],
+} as const satisfies Partial<Record<keyof StructuralConstraints, unknown>>;
+
+function isIntIn(v: unknown, lo: number, hi: number): v is number {
+  return Number.isInteger(v) && (v as number) >= lo && (v as number) <= hi;
+}
+
+function isListed(table: Record<string, true>, v: unknown): boolean {
+  return (
+    typeof v === "string" && Object.prototype.hasOwnProperty.call(table, v)
+  );
+}
+
+function isSuperstarRule(v: unknown): v is SuperstarRule {
+  if (!isRecord(v)) return false;
+  return v.mode === "random" || (v.mode === "fixed" && isNum(v.value));
+}
+
+/** Regole strutturali con i soli campi validi; null se non cambia niente. */
+function checkStructural(
+  structural: Raw,
+  fix: (what: string) => void,
+): StructuralConstraints | null {
+  const out: Raw = { ...structural };
+  let changed = false;
+  const drop = (k: string) => {
+    delete out[k];
+    changed = true;
+    fix(`regola strutturale «${k}» non valida: tolta`);
+  };
+
+  for (const [k, [lo, hi]] of Object.entries(STRUCTURAL_RANGES)) {
+    const r = out[k];
+    if (r === undefined) continue;
+    if (
+      !isRecord(r) ||
+      !isIntIn(r.min, lo, hi) ||
+      !isIntIn(r.max, lo, hi) ||
+      r.min > r.max
+    )
+      drop(k);
+  }
+  for (const [k, [lo, hi]] of Object.entries(STRUCTURAL_LIMITS))
+    if (out[k] !== undefined && !isIntIn(out[k], lo, hi)) drop(k);
+  if (
+    out.distinctFinalDigits !== undefined &&
+    typeof out.distinctFinalDigits !== "boolean"
+  )
+    drop("distinctFinalDigits");
+
+  return changed ? (out as StructuralConstraints) : null;
+}
+
+function checkSettings(
+  settings: unknown,
+  defaults: Settings,
+  fix: (what: string) => void,
+): Settings {
+  if (!isRecord(settings)) {
+    fix("impostazioni illeggibili: ripristinati i default");
+    return defaults;
+  }
+  const out: Raw = { ...settings };
+  let changed = false;
+  // `value` undefined = campo facoltativo tolto
+  const reset = (k: string, value: unknown, what: string) => {
+    if (value === undefined) delete out[k];
+    else out[k] = value;
+    changed = true;
+    fix(`impostazione «${k}» ${what}`);
+  };
+
+  for (const [k, d] of Object.entries(defaults)) {
+    const v = out[k];
+    if (d === undefined || v === undefined) continue;
+    const ok =
+      Array.isArray(d) === Array.isArray(v) &&
+      typeof d === typeof v &&
+      (v !== null || d === null);
+    if (!ok) reset(k, d, "non valida: ripristinato il default");
+  }
+
+  // i campi mancanti li completa storage.ts con i default
+  if (out.rngAlgorithm !== undefined && !isRngAlgorithmId(out.rngAlgorithm))
+    reset(
+      "rngAlgorithm",
+      defaults.rngAlgorithm,
+      "sconosciuta: ripristinato il default",
+    );
+  if (
+    out.generationMode !== undefined &&
+    !isListed(GENERATION_MODES, out.generationMode)
+  )
+    reset(
+      "generationMode",
+      defaults.generationMode,
+      "sconosciuta: ripristinato il default",
+    );
+  if (
+    out.excludeHistory !== undefined &&
+    !isListed(HISTORY_LEVELS, out.excludeHistory)
+  )
+    reset("excludeHistory", undefined, "sconosciuta: tolta");
+  if (out.superstar !== undefined && !isSuperstarRule(out.superstar))
+    reset("superstar", undefined, "non valida: tolta");
+  for (const [k, ok] of Object.entries(OPTIONAL_NUMBERS)) {
+    const v = out[k];
+    if (v !== undefined && !(typeof v === "number" && ok(v)))
+      reset(k, undefined, "non valida: tolta");
+  }
+  if (isRecord(out.structural)) {
+    const structural = checkStructural(out.structural, fix);
+    if (structural) {
+      out.structural = structural;
+      changed = true;
+    }
+  }
+
+  for (const k of NUMBER_LISTS) {
+    const v = out[k];
+    if (!Array.isArray(v)) continue;
+    const valid = v.every(isNum);
+    const unique = [...new Set(v.filter(isNum))];
+    if (!valid)
+      reset(k, unique, `con numeri fuori da ${MIN_NUM}–${MAX_NUM}: tolti`);
+    else if (unique.length !== v.length)
+      reset(k, unique, "con numeri ripetuti: tenuti una volta");
+  }
+
+  return (changed ? out : settings) as Settings;
+}
+
+export function validateState(
+  state: AppState,
+  options: { defaults: Settings; newGroupId: () => string },
+): { state: AppState; report: ValidationReport } {
+  const fixed = new Map<string, number>();
+  const fix = (what: string) => fixed.set(what, (fixed.get(what) ?? 0) + 1);
+  const quarantined: QuarantinedItem[] = [];
+  const altered: string[] = [];
+
+  const settings = checkSettings(state.settings, options.defaults, fix);
+
+  const ids = new Set<string>();
+  // rank → indice del gruppo che ha già la sestina
+  const seen = new Map<number, number>();
+  const names: string[] = [];
+  const groups: Group[] = [];
+
+  const rawGroups: unknown[] = Array.isArray(state.groups) ? state.groups : [];
+  if (!Array.isArray(state.groups))
+    quarantined.push({
+      groupName: "—",
+      reason: "elenco dei gruppi illeggibile",
+      item: state.groups,
+    });
+
+  rawGroups.forEach((raw, gi) => {
+    if (!isRecord(raw)) {
+      quarantined.push({
+        groupName: "—",
+        reason: "gruppo illeggibile",
+        item: raw,
+      });
+      return;
+    }
+    let g = raw as Group;
+    let changed = false;
+    const patch = (p: Partial<Group>, what: string) => {
+      g = { ...g, ...p };
+      changed = true;
+      fix(what);
+    };
+
+    if (typeof g.id !== "string" || !g.id || ids.has(g.id))
+      patch({ id: options.newGroupId() }, "id del gruppo mancante o doppio");
+    ids.add(g.id);
+    if (typeof g.name !== "string")
+      patch({ name: `Gruppo ${gi + 1}` }, "nome del gruppo mancante");
+    if (typeof g.createdAt !== "string")
+      patch(
+        { createdAt: new Date().toISOString() },
+        "data del gruppo mancante",
+      );
+    if (!Array.isArray(g.events))
+      patch({ events: [] }, "timeline del gruppo illeggibile: svuotata");
+    names[gi] = g.name;
+
+    const list: unknown[] = Array.isArray(g.sestine) ? g.sestine : [];
+    if (!Array.isArray(g.sestine)) {
+      quarantined.push({
+        groupName: g.name,
+        reason: "elenco delle sestine illeggibile",
+        item: g.sestine,
+      });
+    }
+
+    const listUnreadable = !Array.isArray(g.sestine);
+    // sestine riparate o in quarantena, per l'evento in timeline
+    let touched = 0;
+    const sestine: Sestina[] = [];
+    for (const item of list) {
+      // caso comune (e veloce): numeri già validi e ordinati
+      const sorted = isRecord(item) && isSestinaNums(item.nums);
+      const problem = sorted
+        ? null
+        : isRecord(item)
+          ? numsProblem(item.nums)
+          : "sestina illeggibile";
+      if (problem) {
+        quarantined.push({ groupName: g.name, reason: problem, item });
+        touched++;
+        continue;
+      }
+
+      let s = item as Sestina;
+      const nums = sorted ? s.nums : normalizeNums(s.nums);
+      const rank = sestinaRank(nums);
+      const owner = seen.get(rank);
+      if (owner === gi || (owner !== undefined && !s.meta?.importDuplicate)) {
+        quarantined.push({
+          groupName: g.name,
+          reason:
+            owner === gi
+              ? "doppione nello stesso gruppo"
+              : `già presente nel gruppo «${names[owner]}»`,
+          item,
+        });
+        touched++;
+        continue;
+      }
+      seen.set(rank, gi);
+
+      const before = s;
+      if (!sorted) {
+        s = { ...s, nums };
+        fix("numeri riordinati");
+      }
+      const key = nums.join("-");
+      if (s.key !== key) {
+        s = { ...s, key };
+        fix("chiave ricalcolata dai numeri");
+      }
+      if (typeof s.createdAt !== "string") {
+        s = { ...s, createdAt: g.createdAt };
+        fix("data della sestina mancante");
+      }
+      if (typeof s.frozen !== "boolean") {
+        s = { ...s, frozen: false };
+        fix("stato congelato non valido");
+      }
+      if (s.superstar !== undefined && !isNum(s.superstar)) {
+        s = { ...s, superstar: undefined };
+        fix("SuperStar non valido: tolto");
+      }
+      if (s !== before) touched++;
+      sestine.push(s);
+    }
+
+    if (listUnreadable || touched > 0) {
+      // la catena si giudica sul gruppo com'era, non su quello riparato
+      const chain = verifyRawChain(raw);
+      g = { ...g, sestine };
+      if (touched > 0) {
+        const event = {
+          type: "edit" as const,
+          at: new Date().toISOString(),
+          action: "repair" as const,
+          count: touched,
+        };
+        if (chain.status === "intact") g = appendEvent(g, event);
+        else if (chain.status === "broken") altered.push(g.name);
+        else g = { ...g, events: [event, ...g.events] };
+      }
+      changed = true;
+    }
+    groups.push(changed ? g : (raw as Group));
+  });
+
+  const report: ValidationReport = {
+    fixed: [...fixed].map(([what, count]) => ({ what, count })),
+    quarantined,
+    altered,
+  };
+  if (isCleanReport(report) && settings === state.settings)
+    return { state, report };
+  return { state: { ...state, settings, groups }, report };
+}
+
+export function isCleanReport(report: ValidationReport): boolean {
+  return report.fixed.length === 0 && report.quarantined.length === 0;
+}
+
+export function describeValidation(report: ValidationReport): string[] {
+  const byReason = new Map<string, number>();
+  for (const q of report.quarantined)
+    byReason.set(q.reason, (byReason.get(q.reason) ?? 0) + 1);
+  return [
+    ...report.fixed.map((f) => `Riparato: ${f.what} (${f.count})`),
+    ...[...byReason].map(([reason, n]) => `In quarantena: ${reason} (${n})`),
+    ...(report.altered.length
+      ? [
+          `Timeline già alterata, riparazione non concatenata: ${report.altered.join(", ")}`,
+        ]
+      : []),
+  ];
+}
@@ -1,5 +1,6 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { countEven, countLow } from "../lib/sestine";
 
 type Draw = {
     date: string; // YYYY-MM-DD
@@ -62,14 +63,6 @@ function sum(arr: number[]) {
     return s;
 }
 
-function isEven(n: number) {
-    return n % 2 === 0;
-}
-
-function isLow(n: number) {
-    return n <= 45;
-}
-
 function makeFreqArray() {
     // index 0 unused
     return Array.from({ length: 91 }, () => 0);
@@ -218,11 +211,9 @@ async function main() {
         if (d.numbers.length === 6) {
             bump(distSum, sum(d.numbers));
 
-            const evenCount = d.numbers.reduce((acc, n) => acc + (isEven(n) ? 1 : 0), 0);
-            bump(distEvenCount, evenCount);
-
-            const lowCount = d.numbers.reduce((acc, n) => acc + (isLow(n) ? 1 : 0), 0);
-            bump(distLowCount, lowCount);
+            // stesse definizioni dei vincoli strutturali (lib/sestine)
+            bump(distEvenCount, countEven(d.numbers));
+            bump(distLowCount, countLow(d.numbers));
 
             // coppie (15 per draw)
             const nums = [...d.numbers].sort((a, b) => a - b);
@@ -0,0 +1,85 @@
+// src/workers/audit.worker.ts
+import {
+  planAudit,
+  summarizeAudit,
+  type AuditMeasure,
+  type AuditSection,
+  type AuditSize,
+} from "../lib/audit";
+import type { AuditRequest, AuditResponse } from "../lib/auditClient";
+
+let current: { jobId: number; stop: boolean } | null = null;
+
+function post(msg: AuditResponse) {
+  self.postMessage(msg);
+}
+
+function yieldToEvents() {
+  // lascia passare i messaggi "stop" tra una sorgente e l'altra, e dentro i
+  // passi lunghi tra un blocco di campioni e l'altro
+  return new Promise((r) => setTimeout(r, 0));
+}
+
+async function run(jobId: number, seed: string, size: AuditSize) {
+  const task = { jobId, stop: false };
+  current = task;
+
+  try {
+    const plan = planAudit(seed, size);
+    const sections: AuditSection<AuditMeasure>[] = [];
+    const checkpoint = async () => {
+      await yieldToEvents();
+      return !task.stop;
+    };
+
+    for (let i = 0; i < plan.length; i++) {
+      if (task.stop) break;
+      const step = plan[i];
+      post({
+        type: "progress",
+        jobId,
+        step: i,
+        steps: plan.length,
+        label: step.label,
+      });
+      await yieldToEvents();
+      if (task.stop) break;
+
+      // un passo fermato a metà non entra nel report
+      const tests = await step.run(checkpoint);
+      if (!tests) break;
+      sections.push({
+        source: step.source,
+        label: step.label,
+        samples: step.samples,
+        tests,
+      });
+    }
+
+    post({
+      type: "done",
+      jobId,
+      stopped: task.stop,
+      report: summarizeAudit(seed, sections),
+    });
+  } catch (e) {
+    post({
+      type: "error",
+      jobId,
+      message: e instanceof Error ? e.message : "Errore durante l'audit.",
+    });
+  } finally {
+    if (current === task) current = null;
+  }
+}
+
+self.onmessage = (e: MessageEvent<AuditRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === "stop") {
+    if (current?.jobId === msg.jobId) current.stop = true;
+    return;
+  }
+
+  void run(msg.jobId, msg.seed, msg.size);
+};
@@ -0,0 +1,39 @@
+// src/workers/constraints.worker.ts
+import {
+  countMatchingSestine,
+  uniformitySelfCheck,
+} from "../lib/constraintSpace";
+import type {
+  ConstraintsRequest,
+  ConstraintsResponse,
+} from "../lib/constraintSpaceClient";
+
+function post(msg: ConstraintsResponse) {
+  self.postMessage(msg);
+}
+
+// conteggio esatto e autoverifica fuori dal main thread: con tutte le regole
+// attive la DP può richiedere qualche secondo
+self.onmessage = (e: MessageEvent<ConstraintsRequest>) => {
+  const msg = e.data;
+  try {
+    if (msg.type === "count")
+      post({
+        id: msg.id,
+        type: "count",
+        total: countMatchingSestine(msg.constraints),
+      });
+    else
+      post({
+        id: msg.id,
+        type: "selfCheck",
+        report: uniformitySelfCheck(msg.seed),
+      });
+  } catch (err) {
+    post({
+      id: msg.id,
+      type: "error",
+      message: err instanceof Error ? err.message : "Errore nel conteggio.",
+    });
+  }
+};
@@ -0,0 +1,291 @@
+// src/workers/generator.worker.ts
+import { sestinaRank, type Sestina } from "../lib/sestine";
+import {
+  constraintSpaceFor,
+  generateUniqueSestine,
+} from "../lib/constraintSpace";
+import { createBalanceState, generateBalancedSestine } from "../lib/balanced";
+import { createDistanceIndex } from "../lib/distance";
+import { generatePartitionSestine, partitionPlan } from "../lib/partition";
+import { historyBlocker, type HistoryLevel } from "../lib/history";
+import { popularityScore } from "../lib/popularity";
+import { createRng } from "../lib/rng";
+import {
+  PERMUTATION_WALK_CAP,
+  createPermutation,
+  generatePermutationSestine,
+} from "../lib/permutation";
+import {
+  attemptSeed,
+  digestRanks,
+  fingerprintRanks,
+  replayRecipe,
+} from "../lib/recipe";
+import type {
+  GenerateJob,
+  GeneratorRequest,
+  GeneratorResponse,
+} from "../lib/generatorClient";
+
+// rank di TUTTI i gruppi: l'unicità globale vive qui durante la generazione
+const ranks = new Set<number>();
+
+// rank delle estrazioni storiche; i filtri si costruiscono alla prima richiesta
+let historyRanks: Uint32Array | null = null;
+const historyBlockers = new Map<
+  HistoryLevel,
+  (nums: number[], rank: number) => boolean
+>();
+
+function blockerFor(level: HistoryLevel, drawRanks: Uint32Array) {
+  let b = historyBlockers.get(level);
+  if (!b) {
+    b = historyBlocker(drawRanks, level);
+    historyBlockers.set(level, b);
+  }
+  return b;
+}
+
+let current: { jobId: number; abort: null | { keepPartial: boolean } } | null =
+  null;
+
+function post(msg: GeneratorResponse) {
+  self.postMessage(msg);
+}
+
+function yieldToEvents() {
+  // lascia passare i messaggi "abort" tra un batch e l'altro
+  return new Promise((r) => setTimeout(r, 0));
+}
+
+function chunkSize(n: number) {
+  return n >= 5000 ? 250 : n >= 1000 ? 200 : n >= 200 ? 100 : 50;
+}
+
+async function run(jobId: number, job: GenerateJob) {
+  const task = { jobId, abort: null as null | { keepPartial: boolean } };
+  current = task;
+
+  const released: number[] = [];
+  for (const r of job.release ?? []) if (ranks.delete(r)) released.push(r);
+
+  const produced: number[] = [];
+  const rollback = () => {
+    for (const r of produced) ranks.delete(r);
+    for (const r of released) ranks.add(r);
+  };
+
+  // insieme di esclusione effettivo: è quello che la ricetta deve ricordare
+  const exclusion = { size: ranks.size, fingerprint: fingerprintRanks(ranks) };
+  const skips: Array<[index: number, rank: number]> = [];
+  const onSkip = (index: number, rank: number) => skips.push([index, rank]);
+  // come il bilanciamento, l'indice della distanza dura per tutto il job
+  const distance = job.distance
+    ? createDistanceIndex(job.distance.maxShared, job.distance.baseRanks)
+    : undefined;
+  // gli scarti storici e per popolarità passano da onSkip: il replay non ha
+  // bisogno dell'archivio né del modello
+  const fromHistory =
+    job.history && historyRanks
+      ? blockerFor(job.history, historyRanks)
+      : undefined;
+  const popular = job.popularity;
+  const blocked =
+    fromHistory || popular
+      ? (nums: number[], rank: number) =>
+          !!fromHistory?.(nums, rank) ||
+          (!!popular &&
+            popularityScore(nums, { lastDraw: popular.lastDraw }) > popular.max)
+      : undefined;
+
+  const stream = job.stream;
+  let CHUNK = chunkSize(job.count);
+  // `settled`: cursore subito dopo l'ultima sestina prodotta, se il chunk si
+  // è fermato prima (cammino limitato); è quello che il replay ritrova
+  let generateChunk: (
+    take: number,
+    from: number,
+  ) => { sestine: Sestina[]; next: number; settled?: number };
+
+  if (stream.mode === "permutation") {
+    // la permutazione è sugli indici dello spazio ammesso: niente scarti
+    // per i vincoli, e la fine del dominio è la fine delle sestine ammesse
+    const space = constraintSpaceFor(job.constraints);
+    const perm = createPermutation(stream.key, space.total);
+    let settled = job.start;
+    generateChunk = (take, from) => {
+      const res = generatePermutationSestine(
+        take,
+        ranks,
+        perm,
+        from,
+        space,
+        {
+          ...job.options,
+          onSkip,
+          distance,
+          blocked,
+          maxSteps: PERMUTATION_WALK_CAP,
+        },
+      );
+      if (res.sestine.length < take && res.next >= perm.domain)
+        throw new Error(
+          "Spazio delle combinazioni esaurito per questi vincoli.",
+        );
+      const last = res.sestine.at(-1)?.meta?.permIndex;
+      if (last !== undefined) settled = last + 1;
+      return { ...res, settled };
+    };
+  } else if (stream.mode === "balanced") {
+    const { seed, salt, rng, candidates } = stream;
+    // lo stato del bilanciamento prosegue da un chunk all'altro
+    const balance = createBalanceState(stream.baseRanks);
+    generateChunk = (take, from) =>
+      generateBalancedSestine(
+        take,
+        ranks,
+        (attempt) => createRng(rng, attemptSeed(seed, salt, attempt)),
+        job.constraints,
+        from,
+        balance,
+        { ...job.options, candidates, rng, onSkip, distance, blocked },
+      );
+  } else if (stream.mode === "partition") {
+    const { seed, salt, rng } = stream;
+    let tickets: number;
+    try {
+      tickets = partitionPlan(job.constraints).tickets;
+    } catch (e) {
+      rollback();
+      current = null;
+      post({
+        type: "error",
+        jobId,
+        message: e instanceof Error ? e.message : "Partizione non valida.",
+      });
+      return;
+    }
+    // i chunk sono blocchi interi (l'ultimo arrotondato per eccesso)
+    CHUNK = Math.max(1, Math.round(CHUNK / tickets)) * tickets;
+    generateChunk = (take, from) =>
+      generatePartitionSestine(
+        Math.ceil(take / tickets) * tickets,
+        ranks,
+        (attempt) => createRng(rng, attemptSeed(seed, salt, attempt)),
+        job.constraints,
+        from,
+        { ...job.options, rng, onSkip, distance, blocked },
+      );
+  } else {
+    const { seed, salt, rng } = stream;
+    generateChunk = (take, from) =>
+      generateUniqueSestine(
+        take,
+        ranks,
+        (attempt) => createRng(rng, attemptSeed(seed, salt, attempt)),
+        job.constraints,
+        from,
+        { ...job.options, rng, onSkip, distance, blocked },
+      );
+  }
+
+  let cursor = job.start;
+  let settledCursor = job.start;
+  let done = 0;
+
+  try {
+    while (done < job.count) {
+      if (task.abort) break;
+
+      const take = Math.min(CHUNK, job.count - done);
+      const { sestine: batch, next, settled } = generateChunk(take, cursor);
+      cursor = next;
+      settledCursor = settled ?? next;
+
+      for (const s of batch) produced.push(sestinaRank(s.nums));
+      done += batch.length;
+
+      post({ type: "batch", jobId, sestine: batch, done, total: job.count });
+      await yieldToEvents();
+    }
+  } catch (e) {
+    rollback();
+    current = null;
+    post({
+      type: "error",
+      jobId,
+      message:
+        e instanceof Error ? e.message : "Errore durante la generazione.",
+    });
+    return;
+  }
+
+  if (task.abort && !task.abort.keepPartial) rollback();
+  current = null;
+
+  // i duplicati interni al run si riproducono da soli: restano solo gli
+  // scarti dovuti a sestine presenti già prima (un rank escluso non può
+  // essere prodotto dopo)
+  const producedSet = new Set(produced);
+  const skipped = skips.filter(([, r]) => !producedSet.has(r)).map(([i]) => i);
+
+  post({
+    type: "done",
+    jobId,
+    aborted: !!task.abort,
+    trace: {
+      nonceBase: job.start,
+      next: settledCursor,
+      skipped,
+      exclusion,
+      outputDigest: digestRanks(produced),
+    },
+  });
+}
+
+self.onmessage = (e: MessageEvent<GeneratorRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === "sync") {
+    ranks.clear();
+    for (const r of msg.ranks) ranks.add(r);
+    return;
+  }
+
+  if (msg.type === "history") {
+    historyRanks = msg.ranks;
+    historyBlockers.clear();
+    return;
+  }
+
+  if (msg.type === "abort") {
+    if (current?.jobId === msg.jobId)
+      current.abort = { keepPartial: msg.keepPartial };
+    return;
+  }
+
+  if (msg.type === "replay") {
+    try {
+      const { ranks: replayed, next } = replayRecipe(msg.recipe);
+      post({ type: "replayed", jobId: msg.jobId, ranks: replayed, next });
+    } catch (e) {
+      post({
+        type: "error",
+        jobId: msg.jobId,
+        message: e instanceof Error ? e.message : "Errore durante il replay.",
+      });
+    }
+    return;
+  }
+
+  if (msg.job.history && !historyRanks) {
+    post({
+      type: "error",
+      jobId: msg.jobId,
+      message: "Archivio storico non ancora caricato nel worker.",
+    });
+    return;
+  }
+
+  void run(msg.jobId, msg.job);
+};
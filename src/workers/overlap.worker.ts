@@ -0,0 +1,26 @@
+// src/workers/overlap.worker.ts
+import { analyzeOverlap } from "../lib/distance";
+import type { OverlapRequest, OverlapResponse } from "../lib/overlapClient";
+
+function post(msg: OverlapResponse) {
+  self.postMessage(msg);
+}
+
+// con gruppi grandi i secchi dei sottoinsiemi occupano secondi e centinaia di
+// MB: l'analisi resta fuori dal main thread
+self.onmessage = (e: MessageEvent<OverlapRequest>) => {
+  const msg = e.data;
+  try {
+    post({
+      id: msg.id,
+      type: "done",
+      report: analyzeOverlap(msg.ranks, msg.limit, msg.cap),
+    });
+  } catch (err) {
+    post({
+      id: msg.id,
+      type: "error",
+      message: err instanceof Error ? err.message : "Errore nell'analisi.",
+    });
+  }
+};
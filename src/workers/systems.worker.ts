@@ -0,0 +1,113 @@
+// src/workers/systems.worker.ts
+import {
+  computeGuarantee,
+  createCoveringSearch,
+  verifyCovering,
+} from "../lib/covering";
+import { mulberry32 } from "../lib/rng";
+import type {
+  SystemsRequest,
+  SystemsResponse,
+  ReducedSearch,
+} from "../lib/systemsClient";
+
+let current: { jobId: number; stop: boolean } | null = null;
+
+function post(msg: SystemsResponse) {
+  self.postMessage(msg);
+}
+
+function yieldToEvents() {
+  // lascia passare i messaggi "stop" tra un blocco di passi e l'altro
+  return new Promise((r) => setTimeout(r, 0));
+}
+
+const SLICE_MS = 50;
+const PROGRESS_MS = 200;
+
+async function run(jobId: number, req: ReducedSearch) {
+  const task = { jobId, stop: false };
+  current = task;
+
+  try {
+    const seed = crypto.getRandomValues(new Uint32Array(1))[0] >>> 0;
+    const search = createCoveringSearch(
+      req.pool,
+      req.guarantee,
+      new Set(req.excluded),
+      mulberry32(seed),
+    );
+
+    const started = Date.now();
+    let lastProgress = 0;
+
+    while (!task.stop) {
+      const sliceEnd = Date.now() + SLICE_MS;
+      while (Date.now() < sliceEnd) search.step(1);
+
+      const status = search.status();
+      const elapsed = Date.now() - started;
+      if (status.bestSize !== null && elapsed >= req.timeMs) break;
+
+      if (Date.now() - lastProgress >= PROGRESS_MS) {
+        lastProgress = Date.now();
+        post({ type: "progress", jobId, status, elapsedMs: elapsed });
+      }
+      await yieldToEvents();
+    }
+
+    const tickets = search.best();
+    if (!tickets) {
+      // fermato prima della fine del greedy: nessuna soluzione valida
+      post({ type: "done", jobId, result: null });
+      return;
+    }
+
+    post({
+      type: "done",
+      jobId,
+      result: {
+        tickets,
+        verification: verifyCovering(tickets, req.pool, req.guarantee),
+        elapsedMs: Date.now() - started,
+      },
+    });
+  } catch (e) {
+    post({
+      type: "error",
+      jobId,
+      message: e instanceof Error ? e.message : "Errore nella ricerca.",
+    });
+  } finally {
+    if (current === task) current = null;
+  }
+}
+
+self.onmessage = (e: MessageEvent<SystemsRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === "stop") {
+    if (current?.jobId === msg.jobId) current.stop = true;
+    return;
+  }
+
+  if (msg.type === "guarantee") {
+    try {
+      const { tickets, pool, k, atLeast } = msg.audit;
+      post({
+        type: "guarantee",
+        jobId: msg.jobId,
+        report: computeGuarantee(tickets, pool, { k, atLeast }),
+      });
+    } catch (err) {
+      post({
+        type: "error",
+        jobId: msg.jobId,
+        message: err instanceof Error ? err.message : "Errore nella verifica.",
+      });
+    }
+    return;
+  }
+
+  void run(msg.jobId, msg.search);
+};